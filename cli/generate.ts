@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Headless batch generator: plans a session from a theme or moodboard, generates
+ * every module through the configured provider, and writes the session JSON
+ * plus the exported style guide. Run with `npm run generate -- --help`.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { JSDOM } from 'jsdom';
+import { ComponentVariation, DesignComponent, DesignSession, MoodboardImage, VariationRevision } from '../types';
+import { CORE_COMPONENT_LIBRARY } from '../constants';
+import { generateId, getModuleVariations, slugify } from '../utils';
+import { createModelProvider, DEFAULT_PROVIDER_CONFIG, defaultModels, ProviderConfig, ProviderKind } from '../services/modelProvider';
+import { createGenerationQueue } from '../services/generationQueue';
+import { parseArchitecture } from '../services/sessionSchema';
+import { planSession, createPendingVariations } from '../services/sessionPipeline';
+import { buildVariationPrompt, extractCode } from '../services/prompts';
+import { buildStyleGuideHtml, styleGuideFilename } from '../services/styleGuide';
+import { sanitizeHtml } from '../services/sanitizer';
+import { createMoodboard, MAX_MOODBOARD_IMAGES } from '../services/moodboard';
+import { STANDARD_PROMPT_PROFILE } from '../services/promptProfiles';
+import { appendMetric, meteredStream, summarizeMetrics } from '../services/telemetry';
+import { fingerprintDependencies, getDependencyImplementations, getUnsettledDependencies, orderByDependencies } from '../services/moduleDependencies';
+
+const USAGE = `Usage: npm run generate -- (--theme "<theme>" | --image <path>...) [options]
+
+  --theme <text>          Theme to generate a system for
+  --image <path>          Moodboard image (png, jpg, webp, gif); repeat for up to ${MAX_MOODBOARD_IMAGES} images.
+                          Theme, strategy and tokens are read from the moodboard
+  --modules <list|file>   Library modules planned ahead of the model's picks: comma-separated ids
+                          from the core library, or a JSON file with an array of modules; a module's
+                          "dependsOn" ids are generated first and reused as its building blocks
+  --provider <kind>       gemini | openai | mock (default: USUI_PROVIDER, else gemini with an API key, else mock)
+  --concurrency <n>       Modules generated in parallel (default: 2)
+  --out <dir>             Output directory (default: ./usui-out)
+  --help                  Show this message
+
+Keys, base URL and model names come from the same environment variables as the app:
+GEMINI_API_KEY, USUI_OPENAI_BASE_URL, USUI_OPENAI_API_KEY, USUI_MODEL_VISION, USUI_MODEL_ARCHITECTURE, USUI_MODEL_MODULE.`;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'openai', 'mock'];
+
+class UsageError extends Error {}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const providerConfig = (kind: string | undefined): ProviderConfig => {
+  const geminiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+  const resolved = (kind || process.env.USUI_PROVIDER || (geminiKey ? 'gemini' : 'mock')) as ProviderKind;
+  if (!PROVIDER_KINDS.includes(resolved)) throw new UsageError(`Unknown provider "${resolved}". Expected one of: ${PROVIDER_KINDS.join(', ')}.`);
+  return {
+    ...DEFAULT_PROVIDER_CONFIG,
+    kind: resolved,
+    models: defaultModels(resolved),
+    apiKey: resolved === 'openai' ? (process.env.USUI_OPENAI_API_KEY || '') : geminiKey,
+  };
+};
+
+// Node has no canvas, so images are sent as-is and no palette is sampled
+const readImage = async (file: string): Promise<MoodboardImage> => {
+  const mimeType = IMAGE_TYPES[path.extname(file).toLowerCase()];
+  if (!mimeType) throw new UsageError(`Unsupported image type "${path.extname(file)}". Use one of: ${Object.keys(IMAGE_TYPES).join(', ')}.`);
+  return { id: generateId(), name: path.basename(file), dataUrl: `data:${mimeType};base64,${(await readFile(file)).toString('base64')}`, mimeType, palette: [] };
+};
+
+const readModules = async (spec: string | undefined): Promise<DesignComponent[]> => {
+  if (!spec) return [];
+  if (spec.toLowerCase().endsWith('.json')) {
+    const { modules, issues } = parseArchitecture(await readFile(spec, 'utf8'));
+    issues.forEach(issue => log(`! ${spec} ${issue.path}: ${issue.message}`));
+    return modules;
+  }
+  const ids = spec.split(',').map(id => id.trim()).filter(Boolean);
+  const unknown = ids.filter(id => !CORE_COMPONENT_LIBRARY.some(m => m.id === id));
+  if (unknown.length) throw new UsageError(`Unknown module id(s): ${unknown.join(', ')}. Available: ${CORE_COMPONENT_LIBRARY.map(m => m.id).join(', ')}.`);
+  return ids.map(id => CORE_COMPONENT_LIBRARY.find(m => m.id === id)!);
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      theme: { type: 'string' },
+      image: { type: 'string', multiple: true, default: [] },
+      modules: { type: 'string' },
+      provider: { type: 'string' },
+      concurrency: { type: 'string', default: '2' },
+      out: { type: 'string', default: 'usui-out' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    log(USAGE);
+    return;
+  }
+  if (!values.theme?.trim() && !values.image.length) throw new UsageError('Pass --theme or --image.');
+  if (values.image.length > MAX_MOODBOARD_IMAGES) throw new UsageError(`Pass at most ${MAX_MOODBOARD_IMAGES} images.`);
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive integer.');
+
+  // Sanitization and the style guide parse module markup; Node has no DOM of its own
+  const { window } = new JSDOM('');
+  globalThis.DOMParser = window.DOMParser;
+
+  const config = providerConfig(values.provider);
+  const provider = createModelProvider(config);
+  const moodboard = values.image.length ? createMoodboard(await Promise.all(values.image.map(readImage))) : undefined;
+  const libraryModules = await readModules(values.modules);
+
+  log(`PLANNING // ${config.kind} // ${values.theme || values.image.join(', ')}`);
+  const planned = await planSession(provider, config.models, { theme: values.theme?.trim() || '', moodboard, libraryModules });
+  let session: DesignSession = { ...planned, stage: 'generating', variations: createPendingVariations(planned) };
+  log(`THEME // ${session.styleTheme}\nMODULES // ${session.architecture.map(a => a.name).join(', ')}`);
+
+  const updateVariation = (variationId: string, fn: (v: ComponentVariation) => ComponentVariation) => {
+    session = { ...session, variations: session.variations.map(v => v.id === variationId ? fn(v) : v) };
+  };
+
+  const generate = async (variation: ComponentVariation, comp: DesignComponent, signal: AbortSignal, attempt: number) => {
+    const dependencies = getDependencyImplementations(session, comp);
+    const prompt = buildVariationPrompt(session, comp, { dependencies });
+    updateVariation(variation.id, v => ({
+      ...v, status: 'streaming', html: '', prompt, promptProfile: { id: STANDARD_PROMPT_PROFILE.id, version: STANDARD_PROMPT_PROFILE.version }, dependencyFingerprints: fingerprintDependencies(session, comp),
+    }));
+    let acc = '';
+    const context = { stage: 'module' as const, model: config.models.module, componentId: comp.id, variationId: variation.id, retries: attempt };
+    for await (const chunk of meteredStream(provider, context, prompt, metric => { session = appendMetric(session, metric); }, signal)) acc += chunk;
+    signal.throwIfAborted();
+    const { html, report: security } = sanitizeHtml(extractCode(acc));
+    const revision: VariationRevision = { id: generateId(), html, notes: '', affordances: comp.affordances, timestamp: Date.now(), origin: 'model' };
+    updateVariation(variation.id, v => ({ ...v, html, status: 'complete', notes: '', security, revisions: [revision] }));
+  };
+
+  // Same queue and dependency order as the app, so rate limits back off and modules wait for the modules they reuse
+  const total = session.variations.length;
+  const enqueued = new Set<string>();
+  let settled = 0;
+  await new Promise<void>(resolve => {
+    const enqueueReady = () => orderByDependencies(session.architecture)
+      .filter(comp => !getUnsettledDependencies(session, comp).length)
+      .forEach(comp => getModuleVariations(session, comp.id)
+        .filter(v => v.status === 'pending' && !enqueued.has(v.id))
+        .forEach(v => {
+          enqueued.add(v.id);
+          queue.enqueue(v.id, (signal, attempt) => generate(v, comp, signal, attempt));
+        }));
+    const queue = createGenerationQueue({
+      concurrency,
+      onSettled: (variationId, outcome, error) => {
+        settled++;
+        const comp = session.architecture.find(a => a.id === session.variations.find(v => v.id === variationId)?.componentId);
+        if (outcome !== 'done') {
+          updateVariation(variationId, v => ({ ...v, status: 'error' }));
+          log(`[${settled}/${total}] ${comp?.name} // FAILED${error ? ` // ${error instanceof Error ? error.message : String(error)}` : ''}`);
+        } else {
+          log(`[${settled}/${total}] ${comp?.name} // DONE`);
+        }
+        if (settled === total) resolve();
+        else enqueueReady();
+      },
+    });
+    if (!total) resolve();
+    enqueueReady();
+  });
+
+  await mkdir(values.out, { recursive: true });
+  const sessionFile = path.join(values.out, `usui-session-${slugify(session.styleTheme)}.json`);
+  const guideFile = path.join(values.out, styleGuideFilename(session));
+  await writeFile(sessionFile, JSON.stringify(session, null, 2));
+  await writeFile(guideFile, buildStyleGuideHtml(session));
+  log(`WROTE // ${sessionFile}\nWROTE // ${guideFile}`);
+  const totals = summarizeMetrics(session.telemetry || []);
+  log(`USAGE // ${totals.calls} calls // ${totals.promptTokens} prompt + ${totals.responseTokens} response tokens // ${totals.retries} retries // ${totals.errors} errors`);
+
+  const failed = session.variations.filter(v => v.status !== 'complete').length;
+  if (failed) {
+    log(`! ${failed} of ${total} modules failed`);
+    process.exitCode = 1;
+  }
+};
+
+main().catch(e => {
+  if (e instanceof UsageError) log(`${e.message}\n\n${USAGE}`);
+  else log(`ERROR // ${e instanceof Error ? e.stack || e.message : String(e)}`);
+  process.exitCode = e instanceof UsageError ? 2 : 1;
+});
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AccessibilityReport } from '../types';
+import { AUDIT_CATEGORIES } from '../services/accessibilityAudit';
+
+interface AccessibilityPanelProps {
+    report?: AccessibilityReport;
+    isRunning: boolean;
+    error: string | null;
+    onRun: () => void;
+}
+
+const AccessibilityPanel = ({ report, isRunning, error, onRun }: AccessibilityPanelProps) => {
+    const errors = report?.findings.filter(f => f.severity === 'error').length || 0;
+    const warnings = (report?.findings.length || 0) - errors;
+
+    return (
+        <aside className="a11y-panel">
+            <div className="a11y-panel-head">
+                <div className="context-label">ACCESSIBILITY AUDIT</div>
+                <button className="a11y-run-btn" onClick={onRun} disabled={isRunning}>{isRunning ? 'AUDITING...' : report ? 'RE-RUN' : 'RUN AUDIT'}</button>
+            </div>
+            {error && <p className="a11y-error">! {error}</p>}
+            {!report && !isRunning && !error && <p className="revision-empty">No audit recorded for this variation.</p>}
+            {report && (
+                <>
+                    <div className="a11y-summary">
+                        <span className={errors ? 'fail' : 'pass'}>{errors} ERRORS</span>
+                        <span>{warnings} WARNINGS</span>
+                        <span>{report.viewport.width}x{report.viewport.height} // {new Date(report.auditedAt).toLocaleTimeString()}</span>
+                    </div>
+                    {report.truncated && <p className="revision-empty">Some categories were truncated.</p>}
+                    {AUDIT_CATEGORIES.map(cat => {
+                        const findings = report.findings.filter(f => f.category === cat.id);
+                        return (
+                            <details key={cat.id} className="a11y-category" open={findings.some(f => f.severity === 'error')}>
+                                <summary>{cat.label.toUpperCase()} // {findings.length || 'OK'}</summary>
+                                <ul className="a11y-findings">
+                                    {findings.map((f, i) => (
+                                        <li key={i} className={`a11y-finding ${f.severity}`}>
+                                            <code>{f.element}</code>
+                                            <span>{f.message}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                                {cat.id === 'focus-order' && report.focusOrder.length > 0 && (
+                                    <ol className="a11y-focus-order">
+                                        {report.focusOrder.map((el, i) => <li key={i}><code>{el}</code></li>)}
+                                    </ol>
+                                )}
+                            </details>
+                        );
+                    })}
+                </>
+            )}
+        </aside>
+    );
+};
+
+export default AccessibilityPanel;
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+
+interface AlternativesModalProps {
+    isOpen: boolean;
+    componentName: string;
+    onClose: () => void;
+    onConfirm: (hints: string[]) => void;
+}
+
+const MAX_ALTERNATIVES = 4;
+
+/**
+ * Requests N additional variations of one module. Hints are either shared by
+ * every alternative or written per alternative to steer divergence.
+ */
+const AlternativesModal = ({ isOpen, componentName, onClose, onConfirm }: AlternativesModalProps) => {
+    const [count, setCount] = useState(2);
+    const [mode, setMode] = useState<'shared' | 'individual'>('shared');
+    const [sharedHint, setSharedHint] = useState('');
+    const [hints, setHints] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (isOpen) {
+            setCount(2);
+            setMode('shared');
+            setSharedHint('');
+            setHints([]);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const submit = () => {
+        const resolved = Array.from({ length: count }, (_, i) => (mode === 'shared' ? sharedHint : hints[i] || '').trim());
+        onConfirm(resolved);
+    };
+
+    return (
+        <div className="drawer-overlay" onClick={onClose}>
+            <div className="remix-modal" onClick={e => e.stopPropagation()}>
+                <div className="remix-modal-header"><div className="context-label">ALTERNATIVES // {componentName}</div></div>
+                <div className="remix-modal-section">
+                    <div className="context-label" style={{ marginBottom: '8px' }}>COUNT</div>
+                    <div className="segmented-control">
+                        {Array.from({ length: MAX_ALTERNATIVES }, (_, i) => i + 1).map(n => (
+                            <button key={n} className={count === n ? 'active' : ''} onClick={() => setCount(n)}>{n}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="remix-modal-section">
+                    <div className="context-label" style={{ marginBottom: '8px' }}>DIVERGENCE HINTS</div>
+                    <div className="segmented-control" style={{ marginBottom: '12px' }}>
+                        <button className={mode === 'shared' ? 'active' : ''} onClick={() => setMode('shared')}>SHARED</button>
+                        <button className={mode === 'individual' ? 'active' : ''} onClick={() => setMode('individual')}>PER ALTERNATIVE</button>
+                    </div>
+                    {mode === 'shared' ? (
+                        <textarea className="remix-textarea" placeholder="Optional direction applied to every alternative..." value={sharedHint} onChange={e => setSharedHint(e.target.value)} />
+                    ) : (
+                        Array.from({ length: count }, (_, i) => (
+                            <input key={i} className="settings-input" style={{ marginBottom: '6px' }} placeholder={`Alternative ${i + 1} direction...`} value={hints[i] || ''} onChange={e => {
+                                const next = [...hints];
+                                next[i] = e.target.value;
+                                setHints(next);
+                            }} />
+                        ))
+                    )}
+                </div>
+                <div className="remix-modal-footer">
+                    <button className="remix-cancel" onClick={onClose}>CANCEL</button>
+                    <button className="remix-submit" onClick={submit}>GENERATE {count}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AlternativesModal;
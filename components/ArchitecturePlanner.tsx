@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { DesignComponent } from '../types';
+import { ThinkingIcon, SparklesIcon, XIcon, TrashIcon } from './Icons';
+import { getDependencies, wouldCreateCycle } from '../services/moduleDependencies';
+
+interface ArchitecturePlannerProps {
+    architecture: DesignComponent[];
+    onUpdateModule: (id: string, patch: Partial<DesignComponent>) => void;
+    onMove: (id: string, offset: -1 | 1) => void;
+    onDrop: (id: string) => void;
+    onAddModule: () => void;
+    onSuggest: (count: number) => Promise<void>;
+    onStart: () => void;
+}
+
+// Candidates leave out modules that already depend on this one, directly or not
+const DependencyRow = ({ module, architecture, onChange }: { module: DesignComponent, architecture: DesignComponent[], onChange: (dependsOn: string[]) => void }) => {
+    const dependencies = getDependencies(architecture, module);
+    const candidates = architecture.filter(c => c.id !== module.id && !dependencies.includes(c) && !wouldCreateCycle(architecture, module.id, c.id));
+    if (!dependencies.length && !candidates.length) return null;
+    return (
+        <div className="planner-dependencies">
+            <span className="planner-dependencies-label">REUSES</span>
+            {dependencies.map(dep => (
+                <span key={dep.id} className="affordance-chip-edit active" onClick={() => onChange(dependencies.filter(d => d !== dep).map(d => d.id))}>{dep.name} <XIcon /></span>
+            ))}
+            {candidates.length > 0 && (
+                <select className="planner-dependency-select" value="" onChange={e => e.target.value && onChange([...dependencies.map(d => d.id), e.target.value])} aria-label="Reuse another module">
+                    <option value="">+ MODULE</option>
+                    {candidates.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            )}
+        </div>
+    );
+};
+
+const ArchitecturePlanner = ({ architecture, onUpdateModule, onMove, onDrop, onAddModule, onSuggest, onStart }: ArchitecturePlannerProps) => {
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestCount, setSuggestCount] = useState(3);
+
+    const suggest = () => {
+        setIsSuggesting(true);
+        onSuggest(suggestCount)
+            .catch(e => {
+                console.error(e);
+                alert("ERROR // Suggestion request failed.");
+            })
+            .finally(() => setIsSuggesting(false));
+    };
+
+    return (
+        <div className="planner">
+            <div className="planner-header">
+                <div>
+                    <div className="context-label">ARCHITECTURE & AFFORDANCE PLANNING</div>
+                    <p className="planner-hint">Reorder, rename and refine the modules before any code is generated. A module that reuses others is generated after them, with their code as its building blocks.</p>
+                </div>
+                <div className="planner-actions">
+                    <div className="segmented-control" title="Number of suggestions">
+                        {[1, 3, 5].map(n => <button key={n} className={suggestCount === n ? 'active' : ''} onClick={() => setSuggestCount(n)}>{n}</button>)}
+                    </div>
+                    <button className="synth-system-btn" onClick={suggest} disabled={isSuggesting}>{isSuggesting ? <ThinkingIcon /> : <SparklesIcon />} SUGGEST MORE</button>
+                    <button className="synth-system-btn" onClick={onAddModule}>+ ADD MODULE</button>
+                    <button className="remix-submit" onClick={onStart} disabled={!architecture.length}>START GENERATION ({architecture.length})</button>
+                </div>
+            </div>
+            {architecture.length === 0 && <p className="revision-empty">No modules planned. Add one or ask for suggestions.</p>}
+            <ol className="planner-list">
+                {architecture.map((m, i) => (
+                    <li key={m.id} className="planner-item">
+                        <div className="planner-order">
+                            <span className="planner-index">{String(i + 1).padStart(2, '0')}</span>
+                            <button onClick={() => onMove(m.id, -1)} disabled={i === 0} title="Move up">▲</button>
+                            <button onClick={() => onMove(m.id, 1)} disabled={i === architecture.length - 1} title="Move down">▼</button>
+                        </div>
+                        <div className="planner-fields">
+                            <div className="planner-title-row">
+                                <input className="planner-name" value={m.name} onChange={e => onUpdateModule(m.id, { name: e.target.value })} aria-label="Module name" />
+                                {m.category && <span className="affordance-tag-sm">{m.category}</span>}
+                                <span className="planner-id">{m.id}</span>
+                            </div>
+                            <textarea className="planner-description" value={m.description} rows={2} onChange={e => onUpdateModule(m.id, { description: e.target.value })} aria-label="Module description" />
+                            <div className="affordance-row-editable">
+                                {m.affordances.map((aff, idx) => (
+                                    <span key={idx} className="affordance-chip-edit active" onClick={() => onUpdateModule(m.id, { affordances: m.affordances.filter(a => a !== aff) })}>{aff} <XIcon /></span>
+                                ))}
+                                <button className="add-aff-btn" onClick={() => {
+                                    const fresh = prompt("New affordance:");
+                                    if (fresh?.trim() && !m.affordances.includes(fresh.trim())) onUpdateModule(m.id, { affordances: [...m.affordances, fresh.trim()] });
+                                }}>+ TAG</button>
+                            </div>
+                            <DependencyRow module={m} architecture={architecture} onChange={dependsOn => onUpdateModule(m.id, { dependsOn })} />
+                        </div>
+                        <button className="action-btn" onClick={() => onDrop(m.id)} title="Drop module"><TrashIcon /></button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default ArchitecturePlanner;
@@ -7,6 +7,7 @@
 import React, { useEffect, useRef } from 'react';
 // Fix: Import ComponentVariation instead of non-existent Artifact
 import { ComponentVariation } from '../types';
+import { PREVIEW_CSP, PREVIEW_SANDBOX } from '../constants';
 
 interface ArtifactCardProps {
     // Fix: Use ComponentVariation instead of Artifact
@@ -48,9 +49,9 @@ const ArtifactCard = React.memo(({
                     </div>
                 )}
                 <iframe 
-                    srcDoc={artifact.html} 
+                    srcDoc={`${PREVIEW_CSP}${artifact.html}`} 
                     title={artifact.id} 
-                    sandbox="allow-scripts allow-forms allow-modals allow-popups allow-presentation allow-same-origin"
+                    sandbox={PREVIEW_SANDBOX}
                     className="artifact-iframe"
                 />
             </div>
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { DesignComponent } from '../types';
+import { LIBRARY_PRESETS } from '../constants';
+import { downloadBlob, slugify } from '../utils';
+import { ComponentLibrary, groupByCategory, mergeModules, parseLibraryFile, serializeLibrary } from '../services/componentLibrary';
+
+interface ComponentLibraryManagerProps {
+    library: ComponentLibrary;
+    onChange: (library: ComponentLibrary) => void;
+}
+
+interface Draft {
+    originalId: string | null; // null while creating a new module
+    id: string;
+    name: string;
+    category: string;
+    description: string;
+    affordances: string;
+}
+
+const toDraft = (m: DesignComponent): Draft => ({
+    originalId: m.id, id: m.id, name: m.name, category: m.category || '', description: m.description, affordances: m.affordances.join('\n'),
+});
+
+const EMPTY_DRAFT: Draft = { originalId: null, id: '', name: '', category: '', description: '', affordances: '' };
+
+const ComponentLibraryManager = ({ library, onChange }: ComponentLibraryManagerProps) => {
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const importRef = useRef<HTMLInputElement>(null);
+    const categories = [...new Set(library.modules.map(m => m.category).filter(Boolean))] as string[];
+    const selected = new Set(library.selectedIds);
+
+    const toggle = (id: string) => onChange({
+        ...library, selectedIds: selected.has(id) ? library.selectedIds.filter(s => s !== id) : [...library.selectedIds, id],
+    });
+
+    const saveDraft = () => {
+        if (!draft || !draft.name.trim()) return;
+        const id = slugify(draft.id || draft.name);
+        if (library.modules.some(m => m.id === id && m.id !== draft.originalId)) {
+            alert(`ERROR // A module with id "${id}" already exists.`);
+            return;
+        }
+        const module: DesignComponent = {
+            id,
+            name: draft.name.trim(),
+            category: draft.category.trim() || undefined,
+            description: draft.description.trim(),
+            affordances: draft.affordances.split(/[\n,]/).map(a => a.trim()).filter(Boolean),
+        };
+        onChange(draft.originalId
+            ? {
+                modules: library.modules.map(m => m.id === draft.originalId ? module : m),
+                selectedIds: library.selectedIds.map(s => s === draft.originalId ? id : s),
+            }
+            : { modules: [...library.modules, module], selectedIds: [...library.selectedIds, id] });
+        setDraft(null);
+    };
+
+    const remove = (id: string) => {
+        if (!confirm("Remove this module from the library?")) return;
+        onChange({ modules: library.modules.filter(m => m.id !== id), selectedIds: library.selectedIds.filter(s => s !== id) });
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const f = e.target.files?.[0];
+        e.target.value = '';
+        if (!f) return;
+        f.text().then(text => {
+            try {
+                onChange(mergeModules(library, parseLibraryFile(text)));
+            } catch (err) {
+                alert(`ERROR // Invalid library file. ${err instanceof Error ? err.message : ''}`);
+            }
+        });
+    };
+
+    return (
+        <div className="settings-form library-manager">
+            <input type="file" ref={importRef} hidden accept=".json" onChange={handleImport} />
+            <div className="library-toolbar">
+                <button onClick={() => setDraft(EMPTY_DRAFT)}>+ NEW MODULE</button>
+                <button onClick={() => importRef.current?.click()}>IMPORT</button>
+                <button onClick={() => downloadBlob(new Blob([serializeLibrary(library.modules)], { type: 'application/json' }), 'usui-library.json')}>EXPORT</button>
+                <select className="settings-input" value="" onChange={e => {
+                    const preset = LIBRARY_PRESETS.find(p => p.id === e.target.value);
+                    if (preset) onChange(mergeModules(library, preset.modules));
+                }}>
+                    <option value="">+ ADD PRESET PACK</option>
+                    {LIBRARY_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name.toUpperCase()} ({p.modules.length})</option>)}
+                </select>
+            </div>
+
+            <div className="library-selection">
+                <span>SEEDING {library.selectedIds.length} OF {library.modules.length} MODULES</span>
+                <button onClick={() => onChange({ ...library, selectedIds: library.modules.map(m => m.id) })}>ALL</button>
+                <button onClick={() => onChange({ ...library, selectedIds: [] })}>NONE</button>
+            </div>
+
+            {draft && (
+                <div className="library-draft">
+                    <div className="context-label">{draft.originalId ? `EDIT // ${draft.originalId}` : 'NEW MODULE'}</div>
+                    <input className="settings-input" placeholder="Name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} autoFocus />
+                    <input className="settings-input" placeholder={`id (defaults to ${slugify(draft.name)})`} value={draft.id} onChange={e => setDraft({ ...draft, id: e.target.value })} />
+                    <input className="settings-input" placeholder="Category" list="library-categories" value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })} />
+                    <datalist id="library-categories">{categories.map(c => <option key={c} value={c} />)}</datalist>
+                    <textarea className="settings-input" placeholder="Description" rows={2} value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+                    <textarea className="settings-input" placeholder="Default affordances, one per line" rows={4} value={draft.affordances} onChange={e => setDraft({ ...draft, affordances: e.target.value })} />
+                    <div className="library-draft-actions">
+                        <button className="remix-cancel" onClick={() => setDraft(null)}>CANCEL</button>
+                        <button className="remix-submit" onClick={saveDraft} disabled={!draft.name.trim()}>SAVE MODULE</button>
+                    </div>
+                </div>
+            )}
+
+            {library.modules.length === 0 && <p className="revision-empty">The library is empty. Sessions will be seeded with generated modules only.</p>}
+            {groupByCategory(library.modules).map(([category, modules]) => (
+                <div key={category} className="library-group">
+                    <div className="context-label">{category.toUpperCase()} // {modules.length}</div>
+                    <ul className="library-list">
+                        {modules.map(m => (
+                            <li key={m.id} className="library-item">
+                                <label className="library-item-main">
+                                    <input type="checkbox" checked={selected.has(m.id)} onChange={() => toggle(m.id)} />
+                                    <span className="library-item-text">
+                                        <span className="library-item-name">{m.name}</span>
+                                        <span className="library-item-meta">{m.id} // {m.affordances.length} AFFORDANCES</span>
+                                    </span>
+                                </label>
+                                <div className="session-library-actions">
+                                    <button onClick={() => setDraft(toDraft(m))}>EDIT</button>
+                                    <button onClick={() => remove(m.id)}>DELETE</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ComponentLibraryManager;
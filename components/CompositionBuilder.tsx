@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Composition, CompositionPlacement, CompositionSlot, DesignSession } from '../types';
+import { PREVIEW_SANDBOX } from '../constants';
+import { generateId, getModuleVariations } from '../utils';
+import { COMPOSITION_SLOTS, buildCompositionDocument, compositionHead, createComposition, missingPlaceholders, placeInSlot } from '../services/composition';
+import { frameSizeAgentScript, readFrameSize } from '../services/frameSizing';
+import { QueueJobState } from '../services/generationQueue';
+import { ThinkingIcon, SparklesIcon, XIcon } from './Icons';
+
+interface CompositionBuilderProps {
+    session: DesignSession;
+    layoutState: (compositionId: string) => QueueJobState | undefined; // Queue state of the screen's layout job, if it has one
+    onChange: (compositions: Composition[]) => void;
+    onGenerateLayout: (compositionId: string) => Promise<void>;
+    onCancelLayout: (compositionId: string) => void;
+}
+
+const DRAG_TYPE = 'application/x-usui-placement';
+const PREVIEW_MIN_HEIGHT = 640;
+
+type DragPayload = { variationId: string } | { placementId: string };
+
+const CompositionBuilder = ({ session, layoutState, onChange, onGenerateLayout, onCancelLayout }: CompositionBuilderProps) => {
+    const [activeId, setActiveId] = useState<string | null>(session.compositions[0]?.id ?? null);
+    const [dropSlot, setDropSlot] = useState<CompositionSlot | null>(null);
+    const [previewHeight, setPreviewHeight] = useState(PREVIEW_MIN_HEIGHT);
+    const previewRef = useRef<HTMLIFrameElement>(null);
+    const active = session.compositions.find(c => c.id === activeId);
+    const activeLayoutState = active && layoutState(active.id);
+
+    useEffect(() => {
+        if (!active && session.compositions.length) setActiveId(session.compositions[0].id);
+    }, [active, session.compositions]);
+
+    // The screen reports its own height so the whole page shows without a nested scrollbar
+    useEffect(() => {
+        const onMessage = (event: MessageEvent) => {
+            if (event.source !== previewRef.current?.contentWindow) return;
+            const height = readFrameSize(event.data, PREVIEW_MIN_HEIGHT);
+            if (height !== null) setPreviewHeight(height);
+        };
+        window.addEventListener('message', onMessage);
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    const palette = useMemo(() => session.architecture.flatMap(arch => {
+        const variations = getModuleVariations(session, arch.id);
+        return variations
+            .filter(v => v.status === 'complete' && v.html)
+            .map(v => ({ variation: v, label: variations.length > 1 ? `${arch.name} // ${variations.indexOf(v) + 1}` : arch.name }));
+    }), [session.architecture, session.variations]);
+
+    const srcDoc = useMemo(
+        () => active ? `${buildCompositionDocument(active, session, compositionHead(session.tokens))}${frameSizeAgentScript()}` : '',
+        [active, session.variations, session.architecture, session.tokens]
+    );
+    useEffect(() => setPreviewHeight(PREVIEW_MIN_HEIGHT), [srcDoc]);
+    const unplaced = useMemo(() => active ? missingPlaceholders(active) : [], [active]);
+
+    const update = (next: Composition) => onChange(session.compositions.map(c => c.id === next.id ? next : c));
+
+    const addScreen = () => {
+        const fresh = createComposition(`Screen ${session.compositions.length + 1}`);
+        onChange([...session.compositions, fresh]);
+        setActiveId(fresh.id);
+    };
+
+    const renameScreen = (c: Composition) => {
+        const name = prompt("Screen name:", c.name);
+        if (name?.trim()) update({ ...c, name: name.trim(), timestamp: Date.now() });
+    };
+
+    const deleteScreen = (c: Composition) => {
+        if (!confirm(`Delete screen "${c.name}"?`)) return;
+        onChange(session.compositions.filter(x => x.id !== c.id));
+    };
+
+    const place = (payload: DragPayload, slot: CompositionSlot, beforeId?: string) => {
+        if (!active) return;
+        const moved = 'placementId' in payload ? active.placements.find(p => p.id === payload.placementId) : undefined;
+        const placement: CompositionPlacement | undefined = 'variationId' in payload
+            ? { id: generateId(), slot, variationId: payload.variationId }
+            : moved && { ...moved, slot };
+        if (placement) update(placeInSlot(active, placement, beforeId));
+    };
+
+    const handleDrop = (e: React.DragEvent, slot: CompositionSlot, beforeId?: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDropSlot(null);
+        try {
+            place(JSON.parse(e.dataTransfer.getData(DRAG_TYPE)), slot, beforeId);
+        } catch {
+            // Not one of ours
+        }
+    };
+
+    const startDrag = (e: React.DragEvent, payload: DragPayload) => {
+        e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+        e.dataTransfer.effectAllowed = 'move';
+    };
+
+    const generate = () => {
+        if (!active) return;
+        onGenerateLayout(active.id).catch(e => {
+            console.error(e);
+            alert("ERROR // Layout generation failed.");
+        });
+    };
+
+    const variationLabel = (variationId: string) => palette.find(p => p.variation.id === variationId)?.label;
+
+    return (
+        <div className="composer">
+            <div className="composer-screens">
+                <div className="context-label">SCREENS // {session.compositions.length}</div>
+                <div className="composer-tabs">
+                    {session.compositions.map(c => (
+                        <button key={c.id} className={c.id === activeId ? 'active' : ''} onClick={() => setActiveId(c.id)} onDoubleClick={() => renameScreen(c)} title="Double-click to rename">{c.name.toUpperCase()}</button>
+                    ))}
+                    <button onClick={addScreen}>+ NEW SCREEN</button>
+                </div>
+            </div>
+
+            {!active ? (
+                <p className="revision-empty">No screens yet. Create one and drag completed modules into its layout slots.</p>
+            ) : (
+                <div className="composer-body">
+                    <div className="composer-sidebar">
+                        <div className="context-label">MODULES // DRAG INTO A SLOT</div>
+                        {palette.length === 0 && <p className="revision-empty">No completed modules yet.</p>}
+                        <ul className="composer-palette">
+                            {palette.map(({ variation, label }) => (
+                                <li key={variation.id} draggable onDragStart={e => startDrag(e, { variationId: variation.id })} onClick={() => place({ variationId: variation.id }, 'main')} title="Drag into a slot, or click to add to the main grid">{label}</li>
+                            ))}
+                        </ul>
+
+                        <div className="context-label" style={{ marginTop: '20px' }}>LAYOUT SLOTS</div>
+                        <div className="composer-slots">
+                            {COMPOSITION_SLOTS.map(slot => {
+                                const items = active.placements.filter(p => p.slot === slot.id);
+                                return (
+                                    <div
+                                        key={slot.id}
+                                        className={`composer-slot slot-${slot.id} ${dropSlot === slot.id ? 'drop-target' : ''}`}
+                                        onDragOver={e => { e.preventDefault(); setDropSlot(slot.id); }}
+                                        onDragLeave={() => setDropSlot(s => s === slot.id ? null : s)}
+                                        onDrop={e => handleDrop(e, slot.id)}
+                                    >
+                                        <div className="composer-slot-label" title={slot.hint}>{slot.label.toUpperCase()}</div>
+                                        {items.length === 0 && <span className="composer-slot-empty">DROP HERE</span>}
+                                        {items.map(p => (
+                                            <span key={p.id} className={`composer-chip ${variationLabel(p.variationId) ? '' : 'missing'}`} draggable onDragStart={e => startDrag(e, { placementId: p.id })} onDrop={e => handleDrop(e, slot.id, p.id)}>
+                                                {variationLabel(p.variationId) || 'UNAVAILABLE'}
+                                                <button onClick={() => update({ ...active, placements: active.placements.filter(x => x.id !== p.id), timestamp: Date.now() })} aria-label="Remove from screen"><XIcon /></button>
+                                            </span>
+                                        ))}
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        <div className="composer-actions">
+                            <div className="composer-layout-mode">LAYOUT // {active.layoutHtml ? 'MODEL GLUE' : 'SLOT TEMPLATE'}</div>
+                            {unplaced.length > 0 && <p className="composer-warning">! {unplaced.length} placement(s) have no placeholder in the generated layout and are appended below it.</p>}
+                            <button className="synth-system-btn" onClick={generate} disabled={!!activeLayoutState || !active.placements.length}>{activeLayoutState ? <ThinkingIcon /> : <SparklesIcon />} {activeLayoutState === 'retrying' ? 'RATE_LIMITED // RETRYING...' : activeLayoutState === 'queued' ? 'QUEUED...' : 'GENERATE PAGE FROM THESE MODULES'}</button>
+                            {activeLayoutState && <button className="synth-system-btn" onClick={() => onCancelLayout(active.id)}>CANCEL</button>}
+                            {active.layoutHtml && <button className="synth-system-btn" onClick={() => update({ ...active, layoutHtml: undefined, timestamp: Date.now() })}>USE SLOT TEMPLATE</button>}
+                            <div className="composer-screen-actions">
+                                <button onClick={() => renameScreen(active)}>RENAME</button>
+                                <button onClick={() => deleteScreen(active)}>DELETE SCREEN</button>
+                            </div>
+                        </div>
+                    </div>
+                    <div className="composer-preview">
+                        <iframe ref={previewRef} srcDoc={srcDoc} title={`screen-${active.id}`} sandbox={PREVIEW_SANDBOX} style={{ height: previewHeight }} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CompositionBuilder;
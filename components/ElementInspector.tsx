@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ElementSelection } from '../services/elementInspector';
+
+interface ElementInspectorProps {
+    selection: ElementSelection | null;
+    isRefining: boolean;
+    onRefine: (instruction: string) => void;
+}
+
+const ElementInspector = ({ selection, isRefining, onRefine }: ElementInspectorProps) => {
+    const [instruction, setInstruction] = useState('');
+
+    useEffect(() => setInstruction(''), [selection?.selector]);
+
+    const submit = () => {
+        if (instruction.trim() && !isRefining) onRefine(instruction.trim());
+    };
+
+    return (
+        <aside className="inspect-panel">
+            <div className="a11y-panel-head">
+                <div className="context-label">ELEMENT INSPECTOR</div>
+                {isRefining && <span className="inspect-status">REFINING...</span>}
+            </div>
+            {!selection ? (
+                <p className="revision-empty">Hover the preview and click an element to select it. ESC leaves inspect mode.</p>
+            ) : (
+                <>
+                    <ol className="inspect-path">
+                        {selection.domPath.map((node, i) => <li key={i}><code>{node}</code></li>)}
+                    </ol>
+                    <div className="inspect-meta">
+                        <code>{selection.selector}</code>
+                        <span>{selection.size.width}x{selection.size.height}px</span>
+                    </div>
+                    <details className="a11y-category" open>
+                        <summary>COMPUTED STYLES // {Object.keys(selection.styles).length}</summary>
+                        <dl className="inspect-styles">
+                            {Object.entries(selection.styles).map(([prop, value]) => (
+                                <React.Fragment key={prop}><dt>{prop}</dt><dd>{value}</dd></React.Fragment>
+                            ))}
+                        </dl>
+                    </details>
+                    <details className="a11y-category">
+                        <summary>OUTER HTML</summary>
+                        <pre className="inspect-html"><code>{selection.outerHtml}</code></pre>
+                    </details>
+                    <div className="context-label" style={{ marginTop: '16px' }}>TARGETED INSTRUCTION</div>
+                    <textarea
+                        className="remix-textarea inspect-instruction"
+                        placeholder={`Describe the change to ${selection.label}...`}
+                        value={instruction}
+                        onChange={e => setInstruction(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit(); }}
+                        disabled={isRefining}
+                    />
+                    <button className="remix-submit inspect-submit" onClick={submit} disabled={isRefining || !instruction.trim()}>REFINE ELEMENT</button>
+                    <p className="inspect-hint">Only this subtree is regenerated; the rest of the module is left as is.</p>
+                </>
+            )}
+        </aside>
+    );
+};
+
+export default ElementInspector;
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Moodboard } from '../types';
+
+interface MoodboardPanelProps {
+    moodboard: Moodboard;
+}
+
+const Swatches = ({ colors }: { colors: string[] }) => (
+    <div className="token-swatch-row">
+        {colors.map(c => <span key={c} className="token-swatch" style={{ background: c }} title={c} />)}
+    </div>
+);
+
+const MoodboardPanel = ({ moodboard }: MoodboardPanelProps) => {
+    const { analysis } = moodboard;
+    const cueGroups = analysis ? [['TYPOGRAPHY', analysis.typography], ['TEXTURE', analysis.texture], ['MOOD', analysis.mood]] as const : [];
+
+    return (
+        <div className="moodboard-panel">
+            <div className="context-label">PALETTE // {moodboard.images.length} IMAGE{moodboard.images.length === 1 ? '' : 'S'}</div>
+            {moodboard.palette.length ? (
+                <div className="moodboard-palette">
+                    {moodboard.palette.map(c => (
+                        <div key={c} className="moodboard-palette-swatch">
+                            <span style={{ background: c }} />
+                            <code>{c}</code>
+                        </div>
+                    ))}
+                </div>
+            ) : <p className="revision-empty">No palette was sampled for these images.</p>}
+
+            <div className="context-label">ANALYSIS</div>
+            {analysis ? (
+                <div className="moodboard-analysis">
+                    <strong>{analysis.theme}</strong>
+                    <p>{analysis.strategy}</p>
+                    {cueGroups.map(([label, cues]) => cues.length > 0 && (
+                        <div key={label} className="moodboard-cues">
+                            <span>{label}</span>
+                            {cues.map(cue => <em key={cue}>{cue}</em>)}
+                        </div>
+                    ))}
+                </div>
+            ) : <p className="revision-empty">The model answer could not be read as structured analysis; theme and strategy were taken from its plain text.</p>}
+
+            <div className="context-label">REFERENCES</div>
+            <div className="moodboard-grid">
+                {moodboard.images.map(img => (
+                    <figure key={img.id}>
+                        <img src={img.dataUrl} alt={img.name} />
+                        <figcaption>
+                            <span>{img.name}</span>
+                            <Swatches colors={img.palette} />
+                        </figcaption>
+                    </figure>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default MoodboardPanel;
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { PACKAGE_TARGETS, PackageTarget } from '../services/packageExport';
+
+interface PackageExportModalProps {
+    isOpen: boolean;
+    moduleCount: number;
+    onClose: () => void;
+    onConfirm: (target: PackageTarget) => void;
+}
+
+const PackageExportModal = ({ isOpen, moduleCount, onClose, onConfirm }: PackageExportModalProps) => {
+    const [target, setTarget] = useState<PackageTarget>('react');
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="drawer-overlay" onClick={onClose}>
+            <div className="remix-modal" onClick={e => e.stopPropagation()}>
+                <div className="remix-modal-header"><div className="context-label">EXPORT COMPONENT PACKAGE // {moduleCount} MODULES</div></div>
+                <div className="remix-modal-section">
+                    <div className="context-label" style={{ marginBottom: '12px' }}>TARGET FRAMEWORK</div>
+                    <div className="package-target-list">
+                        {PACKAGE_TARGETS.map(t => (
+                            <button key={t.target} className={`package-target ${target === t.target ? 'active' : ''}`} onClick={() => setTarget(t.target)}>{t.label}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="remix-modal-footer">
+                    <button className="remix-cancel" onClick={onClose}>CANCEL</button>
+                    <button className="remix-submit" onClick={() => onConfirm(target)} disabled={moduleCount === 0}>DOWNLOAD ZIP</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PackageExportModal;
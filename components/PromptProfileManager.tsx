@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { PromptProfile, PromptTemplateKind } from '../types';
+import { PromptProfileStore, PROMPT_PLACEHOLDERS, PROMPT_TEMPLATE_KINDS, commitPromptProfileVersion, duplicatePromptProfile, validatePromptTemplate } from '../services/promptProfiles';
+
+interface PromptProfileManagerProps {
+    store: PromptProfileStore;
+    onChange: (store: PromptProfileStore) => void;
+}
+
+interface Draft {
+    id: string;
+    name: string;
+    templates: Record<PromptTemplateKind, string>;
+}
+
+const toDraft = (p: PromptProfile): Draft => ({ id: p.id, name: p.name, templates: { ...p.templates } });
+
+const PromptProfileManager = ({ store, onChange }: PromptProfileManagerProps) => {
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const editing = store.profiles.find(p => p.id === draft?.id);
+    const issues = draft ? PROMPT_TEMPLATE_KINDS.flatMap(k => validatePromptTemplate(k.id, draft.templates[k.id]).map(issue => `${k.label.toUpperCase()} // ${issue}`)) : [];
+    const isDirty = !!draft && !!editing && (draft.name !== editing.name || PROMPT_TEMPLATE_KINDS.some(k => draft.templates[k.id] !== editing.templates[k.id]));
+
+    const duplicate = (profile: PromptProfile) => {
+        const copy = duplicatePromptProfile(profile);
+        onChange({ ...store, profiles: [...store.profiles, copy] });
+        setDraft(toDraft(copy));
+    };
+
+    const remove = (id: string) => {
+        if (!confirm("Delete this prompt profile? Sessions using it fall back to the default profile.")) return;
+        onChange({ profiles: store.profiles.filter(p => p.id !== id), defaultId: store.defaultId === id ? store.profiles[0].id : store.defaultId });
+        if (draft?.id === id) setDraft(null);
+    };
+
+    const save = () => {
+        if (!draft || !editing || issues.length || !draft.name.trim()) return;
+        const saved = commitPromptProfileVersion(editing, draft.name.trim(), draft.templates);
+        onChange({ ...store, profiles: store.profiles.map(p => p.id === saved.id ? saved : p) });
+        setDraft(toDraft(saved));
+    };
+
+    return (
+        <div className="settings-form prompt-profile-manager">
+            <p className="revision-empty">Profiles write the module and architecture prompts. New sessions use the default profile; each session can switch profiles in its header. Built-in profiles are read-only, duplicate one to edit it.</p>
+            <ul className="library-list">
+                {store.profiles.map(p => (
+                    <li key={p.id} className={`library-item ${draft?.id === p.id ? 'active' : ''}`}>
+                        <label className="library-item-main">
+                            <input type="radio" name="default-prompt-profile" checked={store.defaultId === p.id} onChange={() => onChange({ ...store, defaultId: p.id })} title="Default for new sessions" />
+                            <span className="library-item-text">
+                                <span className="library-item-name">{p.name}</span>
+                                <span className="library-item-meta">V{p.version}{p.builtIn ? ' // BUILT-IN' : ''}{store.defaultId === p.id ? ' // DEFAULT' : ''}</span>
+                            </span>
+                        </label>
+                        <div className="session-library-actions">
+                            <button onClick={() => setDraft(toDraft(p))}>{p.builtIn ? 'VIEW' : 'EDIT'}</button>
+                            <button onClick={() => duplicate(p)}>DUPLICATE</button>
+                            {!p.builtIn && <button onClick={() => remove(p.id)}>DELETE</button>}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            {draft && editing && (
+                <div className="library-draft">
+                    <div className="context-label">{editing.builtIn ? 'VIEW' : 'EDIT'} // {editing.name} // V{editing.version}</div>
+                    <input className="settings-input" placeholder="Name" value={draft.name} readOnly={editing.builtIn} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                    {PROMPT_TEMPLATE_KINDS.map(k => (
+                        <React.Fragment key={k.id}>
+                            <div className="context-label">{k.label.toUpperCase()} TEMPLATE</div>
+                            <div className="prompt-placeholders">
+                                {PROMPT_PLACEHOLDERS[k.id].map(ph => (
+                                    <code key={ph.key} className={ph.required ? 'required' : ''} title={`${ph.type.toUpperCase()} // ${ph.description}`}>{`{{${ph.key}}}`}</code>
+                                ))}
+                            </div>
+                            <textarea className="settings-input prompt-template-input" rows={k.id === 'module' ? 16 : 4} spellCheck={false} readOnly={editing.builtIn}
+                                value={draft.templates[k.id]} onChange={e => setDraft({ ...draft, templates: { ...draft.templates, [k.id]: e.target.value } })} />
+                        </React.Fragment>
+                    ))}
+                    {issues.length > 0 && (
+                        <ul className="prompt-issues">
+                            {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                        </ul>
+                    )}
+                    {editing.history.length > 0 && (
+                        <details className="prompt-history">
+                            <summary>HISTORY // {editing.history.length} EARLIER VERSION{editing.history.length === 1 ? '' : 'S'}</summary>
+                            <ul className="library-list">
+                                {[...editing.history].reverse().map(v => (
+                                    <li key={v.version} className="library-item">
+                                        <span className="library-item-meta">V{v.version} // {new Date(v.savedAt).toLocaleString()}</span>
+                                        <div className="session-library-actions">
+                                            <button onClick={() => setDraft({ ...draft, templates: { ...v.templates } })}>LOAD</button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+                    <div className="library-draft-actions">
+                        <button className="remix-cancel" onClick={() => setDraft(null)}>CLOSE</button>
+                        {!editing.builtIn && <button className="remix-submit" onClick={save} disabled={!isDirty || issues.length > 0 || !draft.name.trim()}>SAVE AS V{editing.version + 1}</button>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PromptProfileManager;
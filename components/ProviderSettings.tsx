@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { defaultApiKey, defaultModels, ModelStage, ProviderConfig, ProviderKind } from '../services/modelProvider';
+
+interface ProviderSettingsProps {
+    config: ProviderConfig;
+    onSave: (config: ProviderConfig) => void;
+}
+
+const STAGES: { stage: ModelStage, label: string }[] = [
+    { stage: 'vision', label: 'VISION MODEL' },
+    { stage: 'architecture', label: 'ARCHITECTURE MODEL' },
+    { stage: 'module', label: 'MODULE MODEL' },
+];
+
+const ProviderSettings = ({ config, onSave }: ProviderSettingsProps) => {
+    const [draft, setDraft] = useState<ProviderConfig>(config);
+
+    const setModel = (stage: ModelStage, model: string) => setDraft(d => ({ ...d, models: { ...d.models, [stage]: model } }));
+
+    // Models still on the previous kind's defaults switch to the new kind's; custom names are kept.
+    // The key never follows: a Gemini key must not be sent to whatever server the base URL points at.
+    const setKind = (kind: ProviderKind) => setDraft(d => {
+        const previous = defaultModels(d.kind);
+        const next = defaultModels(kind);
+        const models = Object.fromEntries(STAGES.map(({ stage }) => [stage, d.models[stage] === previous[stage] ? next[stage] : d.models[stage]])) as Record<ModelStage, string>;
+        return { ...d, kind, apiKey: kind === d.kind ? d.apiKey : defaultApiKey(kind), models };
+    });
+
+    return (
+        <div className="settings-form">
+            <div className="context-label">PROVIDER</div>
+            <select className="settings-input" value={draft.kind} onChange={e => setKind(e.target.value as ProviderKind)}>
+                <option value="gemini">GEMINI</option>
+                <option value="openai">OPENAI-COMPATIBLE (LOCAL SERVER)</option>
+                <option value="mock">MOCK (OFFLINE FIXTURES)</option>
+            </select>
+            {draft.kind === 'openai' && (
+                <>
+                    <div className="context-label">BASE URL</div>
+                    <input className="settings-input" value={draft.baseUrl} onChange={e => setDraft(d => ({ ...d, baseUrl: e.target.value }))} />
+                </>
+            )}
+            {draft.kind !== 'mock' && (
+                <>
+                    <div className="context-label">API KEY</div>
+                    <input className="settings-input" type="password" value={draft.apiKey} onChange={e => setDraft(d => ({ ...d, apiKey: e.target.value }))} />
+                    <p className="settings-hint">Saved unencrypted in this browser's local storage with the rest of the config. Switching provider swaps it for that provider's key from .env.local, if any.</p>
+                </>
+            )}
+            {STAGES.map(({ stage, label }) => (
+                <React.Fragment key={stage}>
+                    <div className="context-label">{label}</div>
+                    <input className="settings-input" value={draft.models[stage]} placeholder={draft.kind === 'openai' ? 'Required, e.g. llama3.1' : undefined} onChange={e => setModel(stage, e.target.value)} />
+                </React.Fragment>
+            ))}
+            <button className="remix-submit" onClick={() => onSave(draft)}>SAVE CONFIG</button>
+        </div>
+    );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { DesignTokens, VariationRevision } from '../types';
+import { FOCUS_PREVIEW_STYLE, PREVIEW_CSP, PREVIEW_SANDBOX } from '../constants';
+import { diffLines } from '../utils';
+import { tokensStyleTag } from '../services/designTokens';
+
+interface RevisionTimelineProps {
+    revisions: VariationRevision[];
+    currentHtml: string;
+    compareIds: [string | null, string | null];
+    onSelectCompare: (slot: 0 | 1, id: string) => void;
+    onRestore: (id: string) => void;
+}
+
+export const RevisionTimeline = ({ revisions, currentHtml, compareIds, onSelectCompare, onRestore }: RevisionTimelineProps) => (
+    <aside className="revision-timeline">
+        <div className="context-label">REVISION HISTORY // {revisions.length}</div>
+        {revisions.length === 0 && <p className="revision-empty">No revisions recorded yet.</p>}
+        <ol className="revision-list">
+            {[...revisions].reverse().map(r => {
+                const index = revisions.indexOf(r) + 1;
+                const isCurrent = r.html === currentHtml;
+                return (
+                    <li key={r.id} className={`revision-item ${isCurrent ? 'current' : ''} ${r.origin === 'manual' ? 'manual' : ''}`}>
+                        <div className="revision-item-head">
+                            <span className="revision-index">R{index}{r.origin === 'manual' ? ' // MANUAL' : ''}{isCurrent ? ' // CURRENT' : ''}</span>
+                            <span className="revision-time">{new Date(r.timestamp).toLocaleTimeString()}</span>
+                        </div>
+                        {r.notes && <p className="revision-notes">{r.notes}</p>}
+                        <div className="revision-actions">
+                            <button className={compareIds[0] === r.id ? 'active' : ''} onClick={() => onSelectCompare(0, r.id)}>A</button>
+                            <button className={compareIds[1] === r.id ? 'active' : ''} onClick={() => onSelectCompare(1, r.id)}>B</button>
+                            <button onClick={() => onRestore(r.id)} disabled={isCurrent}>RESTORE</button>
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+    </aside>
+);
+
+interface RevisionCompareProps {
+    before: VariationRevision;
+    after: VariationRevision;
+    labels: [string, string];
+    tokens?: DesignTokens;
+}
+
+export const RevisionCompare = ({ before, after, labels, tokens }: RevisionCompareProps) => {
+    const [showDiff, setShowDiff] = useState(true);
+    const diff = useMemo(() => diffLines(before.html, after.html), [before.html, after.html]);
+    const changed = diff.filter(d => d.type !== 'same').length;
+
+    useEffect(() => setShowDiff(true), [before.id, after.id]);
+
+    return (
+        <div className="revision-compare">
+            <div className="revision-compare-panes">
+                {[before, after].map((r, i) => (
+                    <div key={i} className="revision-compare-pane">
+                        <div className="context-label">{labels[i]}</div>
+                        <iframe srcDoc={`${PREVIEW_CSP}${tokensStyleTag(tokens)}${FOCUS_PREVIEW_STYLE}${r.html}`} title={`revision-${r.id}`} sandbox={PREVIEW_SANDBOX} className="focus-iframe" />
+                    </div>
+                ))}
+            </div>
+            <div className="revision-diff">
+                <button className="revision-diff-toggle" onClick={() => setShowDiff(v => !v)}>
+                    SOURCE DIFF // {changed} CHANGED LINES [{showDiff ? '-' : '+'}]
+                </button>
+                {showDiff && (
+                    <pre className="revision-diff-body">
+                        {diff.map((d, i) => (
+                            <div key={i} className={`diff-line diff-${d.type}`}>{d.type === 'add' ? '+ ' : d.type === 'remove' ? '- ' : '  '}{d.text}</div>
+                        ))}
+                    </pre>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { SecurityReport } from '../types';
+import { SECURITY_CATEGORIES } from '../services/sanitizer';
+
+interface SecurityPanelProps {
+    report?: SecurityReport;
+}
+
+const SecurityPanel = ({ report }: SecurityPanelProps) => {
+    const removed = report?.findings.filter(f => f.action === 'removed').length || 0;
+    const flagged = (report?.findings.length || 0) - removed;
+
+    return (
+        <aside className="a11y-panel">
+            <div className="a11y-panel-head">
+                <div className="context-label">SECURITY REPORT</div>
+            </div>
+            {!report && <p className="revision-empty">No report yet. Markup is sanitized whenever a revision completes or is restored.</p>}
+            {report && (
+                <>
+                    <div className="a11y-summary">
+                        <span className={removed ? 'fail' : 'pass'}>{removed} REMOVED</span>
+                        <span>{flagged} FLAGGED</span>
+                        <span>{new Date(report.checkedAt).toLocaleTimeString()}</span>
+                    </div>
+                    <p className="revision-empty">Previews run in an opaque-origin sandbox with no network access. Flagged code stays in the source and is blocked there.</p>
+                    {SECURITY_CATEGORIES.map(cat => {
+                        const findings = report.findings.filter(f => f.category === cat.id);
+                        return (
+                            <details key={cat.id} className="a11y-category" open={findings.length > 0}>
+                                <summary>{cat.label.toUpperCase()} // {findings.length || 'OK'}</summary>
+                                <ul className="a11y-findings">
+                                    {findings.map((f, i) => (
+                                        <li key={i} className={`a11y-finding ${f.action === 'removed' ? 'error' : ''}`}>
+                                            <code>{f.action.toUpperCase()} // {f.element}</code>
+                                            <span>{f.message}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </details>
+                        );
+                    })}
+                </>
+            )}
+        </aside>
+    );
+};
+
+export default SecurityPanel;
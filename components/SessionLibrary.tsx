@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { DesignSession } from '../types';
+import { TrashIcon } from './Icons';
+
+interface SessionLibraryProps {
+    sessions: DesignSession[];
+    onOpen: (id: string) => void;
+    onDuplicate: (id: string) => void;
+    onRename: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const SessionLibrary = ({ sessions, onOpen, onDuplicate, onRename, onDelete }: SessionLibraryProps) => {
+    if (sessions.length === 0) return null;
+
+    // Newest first; the underlying array keeps creation order for index stability.
+    const sorted = [...sessions].sort((a, b) => b.timestamp - a.timestamp);
+
+    return (
+        <div className="session-library">
+            <div className="context-label">SESSION LIBRARY // {sessions.length}</div>
+            <ul className="session-library-list">
+                {sorted.map(s => {
+                    const completeCount = s.variations.filter(v => v.status === 'complete').length;
+                    return (
+                        <li key={s.id} className="session-library-row">
+                            <button className="session-library-open" onClick={() => onOpen(s.id)}>
+                                <span className="session-library-theme">{s.name ?? s.styleTheme}</span>
+                                <span className="session-library-meta">{new Date(s.timestamp).toLocaleString()} // {completeCount}/{s.variations.length} MODULES</span>
+                            </button>
+                            <div className="session-library-actions">
+                                <button onClick={() => onOpen(s.id)}>OPEN</button>
+                                <button onClick={() => onRename(s.id)}>RENAME</button>
+                                <button onClick={() => onDuplicate(s.id)}>DUPLICATE</button>
+                                <button onClick={() => onDelete(s.id)} title="Delete"><TrashIcon /></button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default SessionLibrary;
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { DesignSession } from '../types';
+import { downloadBlob, slugify } from '../utils';
+import { MetricTotals, metricsToCsv, metricsToJson, summarizeByModule, summarizeByStage, summarizeMetrics } from '../services/telemetry';
+
+interface SessionStatsPanelProps {
+    session: DesignSession;
+}
+
+const formatTokens = (n: number) => n >= 10000 ? `${(n / 1000).toFixed(1)}K` : String(n);
+const formatMs = (ms: number | null) => ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}S` : `${ms}MS`;
+
+const StatsTable = ({ rows }: { rows: { label: string, totals: MetricTotals }[] }) => (
+    <table className="stats-table">
+        <thead>
+            <tr><th></th><th>CALLS</th><th>IN</th><th>OUT</th><th>TTFC</th><th>TIME</th><th>RETRY</th><th>ERR</th></tr>
+        </thead>
+        <tbody>
+            {rows.map(({ label, totals }) => (
+                <tr key={label}>
+                    <td title={label}>{label}</td>
+                    <td>{totals.calls}</td>
+                    <td>{formatTokens(totals.promptTokens)}</td>
+                    <td>{formatTokens(totals.responseTokens)}</td>
+                    <td>{formatMs(totals.avgTimeToFirstChunkMs)}</td>
+                    <td>{formatMs(totals.durationMs)}</td>
+                    <td className={totals.retries ? 'warn' : ''}>{totals.retries}</td>
+                    <td className={totals.errors ? 'fail' : ''}>{totals.errors}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const SessionStatsPanel = ({ session }: SessionStatsPanelProps) => {
+    const metrics = session.telemetry || [];
+    const totals = summarizeMetrics(metrics);
+    const filename = `usui-telemetry-${slugify(session.styleTheme)}`;
+
+    if (!metrics.length) return <p className="revision-empty">No model calls recorded for this session yet.</p>;
+
+    return (
+        <div className="settings-form session-stats">
+            <div className="stats-totals">
+                <div><span>{totals.calls}</span>CALLS</div>
+                <div><span>{formatTokens(totals.promptTokens)}</span>PROMPT TOKENS</div>
+                <div><span>{formatTokens(totals.responseTokens)}</span>RESPONSE TOKENS</div>
+                <div><span>{formatMs(totals.avgTimeToFirstChunkMs)}</span>AVG FIRST CHUNK</div>
+                <div><span>{formatMs(totals.durationMs)}</span>MODEL TIME</div>
+                <div className={totals.retries ? 'warn' : ''}><span>{totals.retries}</span>RATE-LIMIT RETRIES</div>
+                <div className={totals.errors ? 'fail' : ''}><span>{totals.errors}</span>ERRORS</div>
+                <div><span>{totals.cancelled}</span>CANCELLED</div>
+            </div>
+            {totals.unmetered > 0 && <p className="revision-empty">{totals.unmetered} call(s) reported no token usage and count as zero.</p>}
+
+            <div className="context-label">BY STAGE</div>
+            <StatsTable rows={summarizeByStage(metrics).map(({ stage, totals }) => ({ label: stage.toUpperCase(), totals }))} />
+
+            <div className="context-label">BY MODULE</div>
+            <StatsTable rows={summarizeByModule(session)} />
+
+            <div className="library-toolbar">
+                <button onClick={() => downloadBlob(new Blob([metricsToCsv(session)], { type: 'text/csv' }), `${filename}.csv`)}>EXPORT CSV</button>
+                <button onClick={() => downloadBlob(new Blob([metricsToJson(session)], { type: 'application/json' }), `${filename}.json`)}>EXPORT JSON</button>
+            </div>
+        </div>
+    );
+};
+
+export default SessionStatsPanel;
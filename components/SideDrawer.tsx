@@ -9,14 +9,15 @@ interface SideDrawerProps {
     isOpen: boolean;
     onClose: () => void;
     title: string;
+    docked?: boolean; // Sits beside the focus stage instead of covering the page
     children?: React.ReactNode;
 }
 
-const SideDrawer = ({ isOpen, onClose, title, children }: SideDrawerProps) => {
+const SideDrawer = ({ isOpen, onClose, title, docked, children }: SideDrawerProps) => {
     if (!isOpen) return null;
 
     return (
-        <div className="drawer-overlay" onClick={onClose}>
+        <div className={`drawer-overlay ${docked ? 'docked' : ''}`} onClick={docked ? undefined : onClose}>
             <div className="drawer-content" onClick={(e) => e.stopPropagation()}>
                 <div className="drawer-header">
                     <h2>{title}</h2>
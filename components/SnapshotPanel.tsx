@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { DesignSession, VariationSnapshot } from '../types';
+import { getModuleVariations } from '../utils';
+import { SnapshotDiff, diffSnapshots } from '../services/snapshot';
+
+export interface SnapshotEntry {
+    snapshot: VariationSnapshot;
+    label: string;
+}
+
+/** Every snapshot of a module across its variations, oldest first, labelled V<variant> R<revision>. */
+export const getModuleSnapshots = (session: DesignSession, componentId: string): SnapshotEntry[] => {
+    const variations = getModuleVariations(session, componentId);
+    return variations
+        .flatMap((v, vi) => (v.snapshots || []).map(snapshot => {
+            const revision = v.revisions?.findIndex(r => r.id === snapshot.revisionId) ?? -1;
+            const label = `${variations.length > 1 ? `V${vi + 1} ` : ''}${revision >= 0 ? `R${revision + 1}` : 'UNRECORDED'}`;
+            return { snapshot, label };
+        }))
+        .sort((a, b) => a.snapshot.capturedAt - b.snapshot.capturedAt);
+};
+
+interface SnapshotTimelineProps {
+    entries: SnapshotEntry[];
+    compareIds: [string | null, string | null];
+    onSelectCompare: (slot: 0 | 1, id: string) => void;
+    isCapturing: boolean;
+    error: string | null;
+    onCapture: () => void;
+}
+
+export const SnapshotTimeline = ({ entries, compareIds, onSelectCompare, isCapturing, error, onCapture }: SnapshotTimelineProps) => (
+    <aside className="revision-timeline">
+        <div className="a11y-panel-head">
+            <div className="context-label">SNAPSHOTS // {entries.length}</div>
+            <button className="a11y-run-btn" onClick={onCapture} disabled={isCapturing}>{isCapturing ? 'CAPTURING...' : 'CAPTURE NOW'}</button>
+        </div>
+        {error && <p className="a11y-error">! {error}</p>}
+        {entries.length === 0 && <p className="revision-empty">Snapshots are captured whenever a revision of this module completes.</p>}
+        {entries.length > 0 && <p className="revision-empty">Pick A and B to diff any two snapshots of this module.</p>}
+        <ol className="revision-list">
+            {[...entries].reverse().map(({ snapshot: s, label }) => (
+                <li key={s.id} className="revision-item snapshot-item">
+                    <img src={s.image} alt={`Snapshot ${label}`} className="snapshot-thumb" />
+                    <div className="revision-item-head">
+                        <span className="revision-index">{label}</span>
+                        <span className="revision-time">{new Date(s.capturedAt).toLocaleTimeString()}</span>
+                    </div>
+                    <div className="revision-actions">
+                        <button className={compareIds[0] === s.id ? 'active' : ''} onClick={() => onSelectCompare(0, s.id)}>A</button>
+                        <button className={compareIds[1] === s.id ? 'active' : ''} onClick={() => onSelectCompare(1, s.id)}>B</button>
+                    </div>
+                </li>
+            ))}
+        </ol>
+    </aside>
+);
+
+interface SnapshotCompareProps {
+    before: SnapshotEntry;
+    after: SnapshotEntry;
+}
+
+export const SnapshotCompare = ({ before, after }: SnapshotCompareProps) => {
+    const [mode, setMode] = useState<'diff' | 'split'>('diff');
+    const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setDiff(null);
+        setError(null);
+        diffSnapshots(before.snapshot, after.snapshot)
+            .then(result => isCurrent && setDiff(result))
+            .catch(e => isCurrent && setError(e instanceof Error ? e.message : String(e)));
+        return () => { isCurrent = false; };
+    }, [before.snapshot.id, after.snapshot.id]);
+
+    return (
+        <div className="snapshot-compare">
+            <div className="snapshot-toolbar">
+                <span className="context-label">A // {before.label} → B // {after.label}</span>
+                <span className={`snapshot-metric ${diff && diff.changedPixels > 0 ? 'changed' : ''}`}>
+                    {error ? `! ${error}` : diff ? `${(diff.changedRatio * 100).toFixed(2)}% CHANGED // ${diff.changedPixels.toLocaleString()} PX` : 'DIFFING...'}
+                </span>
+                <div className="segmented-control">
+                    <button className={mode === 'diff' ? 'active' : ''} onClick={() => setMode('diff')}>DIFF OVERLAY</button>
+                    <button className={mode === 'split' ? 'active' : ''} onClick={() => setMode('split')}>SIDE BY SIDE</button>
+                </div>
+            </div>
+            {mode === 'diff' ? (
+                <div className="snapshot-stage">{diff && <img src={diff.overlay} alt="Pixel difference between A and B" />}</div>
+            ) : (
+                <div className="snapshot-split">
+                    <figure><figcaption className="context-label">A // {before.label}</figcaption><img src={before.snapshot.image} alt={`Snapshot ${before.label}`} /></figure>
+                    <figure><figcaption className="context-label">B // {after.label}</figcaption><img src={after.snapshot.image} alt={`Snapshot ${after.label}`} /></figure>
+                </div>
+            )}
+        </div>
+    );
+};
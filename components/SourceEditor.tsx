@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef } from 'react';
+import { formatSource, highlightSource } from '../services/sourceFormat';
+
+interface SourceEditorProps {
+    value: string;
+    savedValue: string;
+    isLocked: boolean; // A generation is rewriting this variation
+    onChange: (value: string) => void;
+    onSave: () => void;
+    onRevert: () => void;
+}
+
+const INDENT = '  ';
+
+const SourceEditor = ({ value, savedValue, isLocked, onChange, onSave, onRevert }: SourceEditorProps) => {
+    const highlightRef = useRef<HTMLPreElement>(null);
+    // The trailing newline keeps the highlight layer as tall as the textarea when the source ends with one
+    const highlighted = useMemo(() => `${highlightSource(value)}\n`, [value]);
+    const isDirty = value !== savedValue;
+    const lineCount = value.split('\n').length;
+
+    const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+        if (!highlightRef.current) return;
+        highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+        highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 's' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            if (isDirty && !isLocked) onSave();
+            return;
+        }
+        if (e.key !== 'Tab') return;
+        e.preventDefault();
+        const el = e.currentTarget;
+        const { selectionStart: start, selectionEnd: end } = el;
+        const next = `${value.slice(0, start)}${INDENT}${value.slice(end)}`;
+        onChange(next);
+        requestAnimationFrame(() => el.setSelectionRange(start + INDENT.length, start + INDENT.length));
+    };
+
+    return (
+        <div className="source-editor">
+            <div className="source-editor-toolbar">
+                <span className={`source-editor-status ${isDirty ? 'dirty' : ''}`}>{isLocked ? 'LOCKED // GENERATING' : isDirty ? 'UNSAVED CHANGES' : 'SAVED'} // {lineCount} LINES</span>
+                <button onClick={() => onChange(formatSource(value))} disabled={isLocked}>FORMAT</button>
+                <button onClick={onRevert} disabled={!isDirty}>REVERT</button>
+                <button className="source-editor-save" onClick={onSave} disabled={!isDirty || isLocked}>SAVE AS MANUAL REVISION</button>
+            </div>
+            <div className="source-editor-surface">
+                <pre ref={highlightRef} className="source-editor-highlight" aria-hidden="true" dangerouslySetInnerHTML={{ __html: highlighted }} />
+                <textarea
+                    className="source-editor-input"
+                    value={value}
+                    onChange={e => onChange(e.target.value)}
+                    onScroll={syncScroll}
+                    onKeyDown={handleKeyDown}
+                    readOnly={isLocked}
+                    spellCheck={false}
+                    autoCapitalize="off"
+                    autoCorrect="off"
+                    aria-label="Module source"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default SourceEditor;
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { DesignTokens } from '../types';
+import { PREVIEW_CSP, PreviewTheme, focusPreviewStyle } from '../constants';
+import { detectStates, buildStateDocument } from '../services/stateExplorer';
+import { tokensStyleTag } from '../services/designTokens';
+
+interface StateGridProps {
+    html: string;
+    tokens?: DesignTokens;
+    theme: PreviewTheme;
+}
+
+const StateGrid = ({ html, tokens, theme }: StateGridProps) => {
+    const states = useMemo(() => detectStates(html), [html]);
+    const documents = useMemo(
+        () => states.map(state => buildStateDocument(html, state, `${PREVIEW_CSP}${tokensStyleTag(tokens)}${focusPreviewStyle(theme)}`)),
+        [states, html, tokens, theme]
+    );
+
+    return (
+        <div className="state-grid">
+            <div className="context-label">STATE EXPLORER // {states.length} STATES // FROZEN, SCRIPTS DISABLED</div>
+            <div className="state-grid-cells">
+                {states.map((state, i) => (
+                    <div key={state.id} className="state-grid-cell">
+                        <div className="state-grid-label">
+                            <span>{state.label}</span>
+                            <span className="state-grid-kind">{state.kind.toUpperCase()}</span>
+                        </div>
+                        {/* No allow-scripts: the grid shows the forced styles, not behavior */}
+                        <iframe srcDoc={documents[i]} title={`state-${state.id}`} sandbox="" style={{ colorScheme: theme }} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default StateGrid;
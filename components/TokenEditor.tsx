@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { DesignTokens, TokenGroup } from '../types';
+import { DEFAULT_DESIGN_TOKENS } from '../constants';
+import { TOKEN_GROUPS, tokenVarName } from '../services/designTokens';
+import { XIcon } from './Icons';
+
+interface TokenEditorProps {
+    tokens?: DesignTokens;
+    onChange: (tokens: DesignTokens) => void;
+}
+
+const TokenEditor = ({ tokens, onChange }: TokenEditorProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const setGroup = (group: TokenGroup, values: Record<string, string>) => onChange({ ...tokens!, [group]: values });
+
+    return (
+        <div className="token-editor">
+            <button className="token-editor-toggle" onClick={() => setIsOpen(v => !v)}>
+                <span className="context-label">DESIGN_TOKENS</span>
+                {tokens && (
+                    <span className="token-swatch-row">
+                        {Object.values(tokens.colors).map((c, i) => <span key={i} className="token-swatch" style={{ background: c }} />)}
+                    </span>
+                )}
+                <span className="token-editor-caret">[{isOpen ? '-' : '+'}]</span>
+            </button>
+            {isOpen && !tokens && (
+                <button className="add-aff-btn" onClick={() => onChange(DEFAULT_DESIGN_TOKENS)}>+ INITIALIZE TOKENS</button>
+            )}
+            {isOpen && tokens && (
+                <div className="token-groups">
+                    {TOKEN_GROUPS.map(({ group, label }) => (
+                        <div key={group} className="token-group">
+                            <div className="context-label">{label}</div>
+                            {Object.entries(tokens[group]).map(([name, value]) => (
+                                <div key={name} className="token-row">
+                                    {group === 'colors' && <span className="token-swatch" style={{ background: value }} />}
+                                    <span className="token-name" title={tokenVarName(group, name)}>{name}</span>
+                                    <input className="token-value" value={value} onChange={e => setGroup(group, { ...tokens[group], [name]: e.target.value })} />
+                                    <button className="token-remove" onClick={() => {
+                                        const { [name]: _removed, ...rest } = tokens[group];
+                                        setGroup(group, rest);
+                                    }}><XIcon /></button>
+                                </div>
+                            ))}
+                            <button className="token-add" onClick={() => {
+                                const name = prompt("Token name:");
+                                if (name?.trim() && !(name.trim() in tokens[group])) setGroup(group, { ...tokens[group], [name.trim()]: '' });
+                            }}>+ TOKEN</button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TokenEditor;
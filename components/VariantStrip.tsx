@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ComponentVariation, DesignComponent, DesignTokens } from '../types';
+import { PREVIEW_CSP, PREVIEW_SANDBOX } from '../constants';
+import { tokensStyleTag } from '../services/designTokens';
+import { TrashIcon } from './Icons';
+
+interface VariantStripProps {
+    component: DesignComponent;
+    variations: ComponentVariation[];
+    canonicalId?: string;
+    tokens?: DesignTokens;
+    onSetCanonical: (variationId: string) => void;
+    onFocus: (variationId: string) => void;
+    onDelete: (variationId: string) => void;
+}
+
+const STRIP_BASE_STYLE = `<style>:root{color-scheme:dark;}html,body{height:100%;margin:0;padding:0;overflow:hidden;}body{display:flex;align-items:center;justify-content:center;background:transparent;font-family:'Inter',system-ui,sans-serif;}*{box-sizing:border-box;max-width:100%;overflow-wrap:break-word;}</style>`;
+
+const VariantStrip = ({ component, variations, canonicalId, tokens, onSetCanonical, onFocus, onDelete }: VariantStripProps) => (
+    <div className="variant-strip">
+        <div className="context-label">VARIANTS // {component.name} // {variations.length}</div>
+        <div className="variant-strip-items">
+            {variations.map((v, i) => {
+                const isCanonical = v.id === canonicalId;
+                const isReady = v.status === 'complete';
+                return (
+                    <div key={v.id} className={`variant-strip-item ${isCanonical ? 'canonical' : ''}`}>
+                        <div className="variant-strip-head">
+                            <span>V{i + 1}{isCanonical ? ' // CANONICAL' : ''}</span>
+                            <span className="variant-strip-status">{v.status.toUpperCase()}</span>
+                        </div>
+                        <div className="variant-strip-preview">
+                            {isReady ? (
+                                <>
+                                    <div className="card-click-capture" onClick={() => onFocus(v.id)} />
+                                    <iframe srcDoc={`${PREVIEW_CSP}${tokensStyleTag(tokens)}${STRIP_BASE_STYLE}${v.html}`} title={`variant-${v.id}`} sandbox={PREVIEW_SANDBOX} className="artifact-iframe" />
+                                </>
+                            ) : <div className="variant-strip-placeholder pulse">{v.status === 'error' ? '! FAILURE' : 'QUEUED'}</div>}
+                        </div>
+                        {v.divergenceHint && <p className="variant-strip-hint">{v.divergenceHint}</p>}
+                        <div className="revision-actions">
+                            <button onClick={() => onSetCanonical(v.id)} disabled={isCanonical || !isReady}>SET CANONICAL</button>
+                            <button onClick={() => onDelete(v.id)} disabled={isCanonical || variations.length < 2} title="Remove"><TrashIcon /></button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+);
+
+export default VariantStrip;
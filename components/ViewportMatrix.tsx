@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DesignTokens } from '../types';
+import { VIEWPORT_PRESETS, PREVIEW_CSP, PREVIEW_SANDBOX, PreviewTheme, focusPreviewStyle } from '../constants';
+import { tokensStyleTag } from '../services/designTokens';
+
+interface ViewportMatrixProps {
+    html: string;
+    tokens?: DesignTokens;
+    themes: PreviewTheme[];
+}
+
+const GAP = 16;
+const LABEL_HEIGHT = 28;
+
+/**
+ * Renders the same markup at every fixed viewport preset (columns) and theme (rows).
+ * Frames keep their real CSS width and share one scale factor, so relative sizes stay honest.
+ */
+const ViewportMatrix = ({ html, tokens, themes }: ViewportMatrixProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+    const columns = VIEWPORT_PRESETS.filter(p => p.width !== null);
+
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    const totalWidth = columns.reduce((sum, p) => sum + p.width!, 0);
+    const scale = Math.min(1, Math.max(0.1, (size.width - GAP * (columns.length + 1)) / totalWidth));
+    const rowHeight = Math.max(0, (size.height - GAP * (themes.length + 1)) / themes.length - LABEL_HEIGHT);
+
+    return (
+        <div className="viewport-matrix" ref={containerRef}>
+            {size.width > 0 && themes.map(theme => (
+                <div key={theme} className="viewport-matrix-row" style={{ gap: GAP }}>
+                    {columns.map(preset => (
+                        <div key={preset.id} className="viewport-matrix-cell" style={{ width: preset.width! * scale }}>
+                            <div className="context-label" style={{ height: LABEL_HEIGHT }}>{preset.label} // {preset.width}PX // {theme.toUpperCase()}</div>
+                            <div className="viewport-matrix-frame" style={{ height: rowHeight }}>
+                                <iframe
+                                    srcDoc={`${PREVIEW_CSP}${tokensStyleTag(tokens)}${focusPreviewStyle(theme)}${html}`}
+                                    title={`matrix-${preset.id}-${theme}`}
+                                    sandbox={PREVIEW_SANDBOX}
+                                    style={{ width: preset.width!, height: rowHeight / scale, transform: `scale(${scale})`, colorScheme: theme }}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ViewportMatrix;
@@ -4,6 +4,47 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import { DesignComponent, DesignTokens } from './types';
+
+export const SESSION_SCHEMA_VERSION = 8;
+
+export type PreviewTheme = 'dark' | 'light';
+
+export const PREVIEW_CANVAS: Record<PreviewTheme, { background: string; text: string }> = {
+  dark: { background: '#050505', text: '#fff' },
+  light: { background: '#f5f5f5', text: '#111' },
+};
+
+// Generated markup is untrusted: previews run in an opaque origin (no allow-same-origin), so scripts
+// cannot reach the app, its storage or its cookies, and talk to the parent only through postMessage
+export const PREVIEW_SANDBOX = 'allow-scripts allow-forms allow-modals';
+
+// Prepended to preview documents: inline code, data URLs and the font CDN only; no requests, frames or form posts
+export const PREVIEW_CSP = `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline' https://fonts.googleapis.com; font-src https://fonts.gstatic.com data:; img-src data: blob:; media-src data: blob:; connect-src 'none'; form-action 'none'; frame-src 'none'; base-uri 'none'">`;
+
+// Base style injected ahead of generated markup in Focus Mode previews
+export const focusPreviewStyle = (theme: PreviewTheme = 'dark') => `<style>:root{color-scheme:${theme};--font-sans:'Inter',system-ui,sans-serif;}html,body{height:100%;margin:0;padding:0;overflow:hidden;}body{display:flex;align-items:center;justify-content:center;background:${PREVIEW_CANVAS[theme].background};font-family:var(--font-sans);color:${PREVIEW_CANVAS[theme].text};}*{box-sizing:border-box;max-width:100%;overflow-wrap:break-word;}</style>`;
+
+export const FOCUS_PREVIEW_STYLE = focusPreviewStyle('dark');
+
+// Widths in CSS px; FILL keeps the canvas width
+export const VIEWPORT_PRESETS: { id: 'fill' | 'mobile' | 'tablet' | 'desktop', label: string, width: number | null }[] = [
+  { id: 'fill', label: 'FILL', width: null },
+  { id: 'mobile', label: 'MOBILE', width: 375 },
+  { id: 'tablet', label: 'TABLET', width: 768 },
+  { id: 'desktop', label: 'DESKTOP', width: 1280 },
+];
+
+export const DEFAULT_DESIGN_TOKENS: DesignTokens = {
+  colors: { background: '#050505', surface: '#0a0a0a', text: '#ffffff', muted: '#777777', primary: '#ffffff', accent: '#4ade80', error: '#ff4d4d' },
+  fonts: { body: "'Inter', system-ui, sans-serif", heading: "'Inter', system-ui, sans-serif", mono: "'JetBrains Mono', monospace" },
+  typeScale: { xs: '0.75rem', sm: '0.875rem', md: '1rem', lg: '1.25rem', xl: '1.75rem' },
+  spacing: { xs: '4px', sm: '8px', md: '16px', lg: '24px', xl: '40px' },
+  radii: { none: '0px', sm: '2px', md: '6px', pill: '999px' },
+  shadows: { sm: '0 1px 2px rgba(0,0,0,0.4)', md: '0 8px 24px rgba(0,0,0,0.5)' },
+  motion: { fast: '120ms', base: '200ms', slow: '400ms' }
+};
+
 export const INITIAL_PLACEHOLDERS = [
     "Hyper-industrial brutalism",
     "Bioluminescent cyber-organic",
@@ -24,7 +65,7 @@ export const PROMOTED_STYLES = [
   { id: 'synth', name: 'Synth Lab', prompt: 'Aluminum hardware aesthetic, knurled knobs, mechanical switches, amber glow displays, industrial control room.' }
 ];
 
-export const CORE_COMPONENT_LIBRARY = [
+export const CORE_COMPONENT_LIBRARY: DesignComponent[] = [
   {
     id: "btn-primary",
     name: "Primary Action",
@@ -68,3 +109,42 @@ export const CORE_COMPONENT_LIBRARY = [
     affordances: ["Color-coded semantic logic", "Pill shape", "Subtle pulse animation", "Tiny typography"]
   }
 ];
+
+// Starter packs that can be merged into the editable component library
+export const LIBRARY_PRESETS: { id: string, name: string, modules: DesignComponent[] }[] = [
+  { id: "core", name: "Core", modules: CORE_COMPONENT_LIBRARY },
+  {
+    id: "data-feedback",
+    name: "Data & Feedback",
+    modules: [
+      {
+        id: "table-data",
+        name: "Data Table",
+        category: "Data",
+        description: "A dense, sortable table for tabular records.",
+        affordances: ["Sortable column headers", "Sticky header row", "Row hover highlight", "Tabular numerals"]
+      },
+      {
+        id: "picker-date",
+        name: "Date Picker",
+        category: "Forms",
+        description: "A calendar popover for choosing a single date.",
+        affordances: ["Keyboard grid navigation", "Today marker", "Disabled out-of-range days", "Close-on-ESC"]
+      },
+      {
+        id: "toast-notice",
+        name: "Toast Notification",
+        category: "Feedback",
+        description: "A transient message confirming or reporting an action.",
+        affordances: ["Slide-in entrance", "Auto-dismiss timer", "Pause on hover", "Dismiss button"]
+      },
+      {
+        id: "tabs-bar",
+        name: "Tab Bar",
+        category: "Navigation",
+        description: "Switches between sibling views in the same context.",
+        affordances: ["Active tab indicator", "Arrow-key navigation", "Focus ring", "Overflow scroll"]
+      }
+    ]
+  }
+];
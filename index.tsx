@@ -4,16 +4,56 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type } from '@google/genai';
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
 
-import { DesignComponent, ComponentVariation, DesignSession } from './types';
-import { INITIAL_PLACEHOLDERS, CORE_COMPONENT_LIBRARY } from './constants';
-import { generateId, sleep } from './utils';
+import { DesignComponent, ComponentVariation, DesignSession, VariationRevision, DesignTokens, AccessibilityReport, Composition, SecurityReport, MoodboardImage, CallMetric } from './types';
+import { INITIAL_PLACEHOLDERS, VIEWPORT_PRESETS, PREVIEW_SANDBOX, PREVIEW_CSP, PREVIEW_CANVAS, PreviewTheme, focusPreviewStyle } from './constants';
+import { generateId, getModuleVariations, getCanonicalVariation, getExportableModules, downloadBlob, slugify, withFreshSessionIds, withUniqueIds } from './utils';
+import { createModelProvider, loadProviderConfig, saveProviderConfig, ProviderConfig } from './services/modelProvider';
+import { listSessions, saveSession, deleteSession } from './services/sessionStore';
+import { buildComponentPackage, PackageTarget } from './services/packageExport';
+import { createGenerationQueue, GenerationQueue, QueueJobState, QueueSnapshot } from './services/generationQueue';
+import { tokensStyleTag } from './services/designTokens';
+import { verifyAffordances, failingChecksAsNotes } from './services/affordanceVerifier';
+import { auditAgentScript, requestAccessibilityAudit } from './services/accessibilityAudit';
+import { loadComponentLibrary, saveComponentLibrary, ComponentLibrary } from './services/componentLibrary';
+import { parseArchitecture, parseSessionJson, SessionSchemaError } from './services/sessionSchema';
+import { buildLayoutPrompt } from './services/composition';
+import { captureSnapshot, MAX_SNAPSHOTS_PER_VARIATION } from './services/snapshot';
+import { buildVariationPrompt, buildElementRefinePrompt, buildSuggestModulesPrompt, extractCode } from './services/prompts';
+import { planSession, createPendingVariations } from './services/sessionPipeline';
+import { sanitizeHtml } from './services/sanitizer';
+import { createStreamingHtmlParser, repairPartialHtml, STREAM_PREVIEW_INTERVAL_MS } from './services/streamingHtml';
+import { appendMetric, meteredCall, meteredStream } from './services/telemetry';
+import { createMoodboard, readMoodboardImage, MAX_MOODBOARD_IMAGES } from './services/moodboard';
+import { fingerprintDependencies, getDependencyImplementations, getStaleDependencies, getUnsettledDependencies, orderByDependencies, sanitizeDependencies } from './services/moduleDependencies';
+import { loadPromptProfiles, savePromptProfiles, resolvePromptProfile, PromptProfileStore } from './services/promptProfiles';
+import { buildStyleGuideHtml, styleGuideFilename } from './services/styleGuide';
+import { inspectAgentScript, setInspectMode, findElementSource, applyElementPatch, ElementSelection } from './services/elementInspector';
 
 import DottedGlowBackground from './components/DottedGlowBackground';
 import SideDrawer from './components/SideDrawer';
+import ProviderSettings from './components/ProviderSettings';
+import SessionLibrary from './components/SessionLibrary';
+import { RevisionTimeline, RevisionCompare } from './components/RevisionHistory';
+import AlternativesModal from './components/AlternativesModal';
+import VariantStrip from './components/VariantStrip';
+import TokenEditor from './components/TokenEditor';
+import PackageExportModal from './components/PackageExportModal';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import SecurityPanel from './components/SecurityPanel';
+import ViewportMatrix from './components/ViewportMatrix';
+import StateGrid from './components/StateGrid';
+import ComponentLibraryManager from './components/ComponentLibraryManager';
+import ArchitecturePlanner from './components/ArchitecturePlanner';
+import ElementInspector from './components/ElementInspector';
+import MoodboardPanel from './components/MoodboardPanel';
+import PromptProfileManager from './components/PromptProfileManager';
+import SessionStatsPanel from './components/SessionStatsPanel';
+import SourceEditor from './components/SourceEditor';
+import CompositionBuilder from './components/CompositionBuilder';
+import { SnapshotTimeline, SnapshotCompare, SnapshotEntry, getModuleSnapshots } from './components/SnapshotPanel';
 import { 
     ThinkingIcon, 
     SparklesIcon, 
@@ -61,33 +101,186 @@ const BlockLoader = ({ label }: { label?: string }) => {
 const FocusStage = ({ 
     variation, 
     component, 
+    tokens,
     onClose,
-    onViewSource
+    onViewSource,
+    onRestoreRevision,
+    onAuditComplete,
+    isRefining,
+    onRefineElement,
+    isSourceDocked,
+    snapshots,
+    onCaptureSnapshot
 }: { 
     variation: ComponentVariation, 
     component: DesignComponent, 
+    tokens?: DesignTokens,
     onClose: () => void,
-    onViewSource: () => void
+    onViewSource: () => void,
+    onRestoreRevision: (revisionId: string) => void,
+    onAuditComplete: (report: AccessibilityReport, html: string) => void,
+    isRefining: boolean,
+    onRefineElement: (selection: ElementSelection, instruction: string) => void,
+    isSourceDocked: boolean,
+    snapshots: SnapshotEntry[],
+    onCaptureSnapshot: () => Promise<void>
 }) => {
+    const [panel, setPanel] = useState<'history' | 'audit' | 'security' | 'inspect' | 'snapshots' | null>(null);
+    const [snapshotIds, setSnapshotIds] = useState<[string | null, string | null]>([null, null]);
+    const [isCapturing, setIsCapturing] = useState(false);
+    const [captureError, setCaptureError] = useState<string | null>(null);
+    const [selection, setSelection] = useState<ElementSelection | null>(null);
+    const [compareIds, setCompareIds] = useState<[string | null, string | null]>([null, null]);
+    const [isFrameLoaded, setIsFrameLoaded] = useState(false);
+    const [isAuditing, setIsAuditing] = useState(false);
+    const [auditError, setAuditError] = useState<string | null>(null);
+    const [viewport, setViewport] = useState<typeof VIEWPORT_PRESETS[number]['id'] | 'custom'>('fill');
+    const [customWidth, setCustomWidth] = useState(1024);
+    const [theme, setTheme] = useState<PreviewTheme>('dark');
+    const [canvasMode, setCanvasMode] = useState<'live' | 'matrix' | 'states'>('live');
+    const isMatrix = canvasMode === 'matrix';
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const revisions = variation.revisions || [];
+    const showHistory = panel === 'history';
+    const viewportWidth = viewport === 'custom' ? customWidth : VIEWPORT_PRESETS.find(p => p.id === viewport)!.width;
+
+    const isStreaming = variation.status === 'streaming';
     const normalizedHtml = useMemo(() => {
         if (!variation.html) return '';
+        const html = isStreaming ? repairPartialHtml(variation.html) : variation.html;
         // Updated base style for strict containment and no jitter
-        const baseStyle = `<style>:root{color-scheme:dark;--font-sans:'Inter',system-ui,sans-serif;}html,body{height:100%;margin:0;padding:0;overflow:hidden;}body{display:flex;align-items:center;justify-content:center;background:#050505;font-family:var(--font-sans);color:#fff;}*{box-sizing:border-box;max-width:100%;overflow-wrap:break-word;}</style>`;
-        return `${baseStyle}${variation.html}`;
-    }, [variation.html]);
+        return `${PREVIEW_CSP}${tokensStyleTag(tokens)}${focusPreviewStyle(theme)}${html}${auditAgentScript(PREVIEW_CANVAS[theme].background)}${inspectAgentScript()}`;
+    }, [variation.html, isStreaming, tokens, theme]);
+
+    useEffect(() => setIsFrameLoaded(false), [normalizedHtml, canvasMode]);
+
+    // A selection describes the rendered html it was made on
+    useEffect(() => setSelection(null), [variation.html]);
+
+    const isInspecting = panel === 'inspect' && canvasMode === 'live';
+
+    useEffect(() => {
+        if (iframeRef.current && isFrameLoaded) setInspectMode(iframeRef.current, isInspecting);
+    }, [isInspecting, isFrameLoaded]);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent) => {
+            if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return;
+            if (event.data?.type === 'usui-inspect-select') setSelection(event.data.selection);
+            else if (event.data?.type === 'usui-inspect-cancel') setPanel(null);
+        };
+        window.addEventListener('message', onMessage);
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    const runAudit = () => {
+        if (!iframeRef.current || !isFrameLoaded) return;
+        setIsAuditing(true);
+        setAuditError(null);
+        const html = variation.html;
+        requestAccessibilityAudit(iframeRef.current)
+            .then(report => onAuditComplete(report, html))
+            .catch(e => setAuditError(e instanceof Error ? e.message : String(e)))
+            .finally(() => setIsAuditing(false));
+    };
+
+    // Audit the rendered module the first time the panel opens on html without a report
+    useEffect(() => {
+        if (panel === 'audit' && isFrameLoaded && !variation.accessibility && !isAuditing) runAudit();
+    }, [panel, isFrameLoaded, variation.accessibility]);
+
+    const captureSnapshotNow = () => {
+        setIsCapturing(true);
+        setCaptureError(null);
+        onCaptureSnapshot()
+            .catch(e => setCaptureError(e instanceof Error ? e.message : String(e)))
+            .finally(() => setIsCapturing(false));
+    };
+
+    const snapshotA = panel === 'snapshots' ? snapshots.find(e => e.snapshot.id === snapshotIds[0]) : undefined;
+    const snapshotB = panel === 'snapshots' ? snapshots.find(e => e.snapshot.id === snapshotIds[1]) : undefined;
+
+    const compareA = revisions.find(r => r.id === compareIds[0]);
+    const compareB = revisions.find(r => r.id === compareIds[1]);
+    const revisionLabel = (r: VariationRevision) => `R${revisions.indexOf(r) + 1} // ${new Date(r.timestamp).toLocaleTimeString()}`;
 
     return (
-        <div className="focus-stage-overlay">
+        <div className={`focus-stage-overlay ${isSourceDocked ? 'source-docked' : ''}`}>
             <div className="focus-stage-header">
                 <button className="focus-back-btn" onClick={onClose}><ArrowLeftIcon /> RETURN TO GRID</button>
                 <div className="focus-meta">
                     <span className="focus-comp-id">MODULE // {component.id.toUpperCase()}</span>
                     <span className="focus-comp-name">{component.name}</span>
                 </div>
-                <button className="focus-code-btn" onClick={onViewSource}><CodeIcon /> VIEW SOURCE CODE</button>
+                <div className="focus-header-actions">
+                    <button className={`focus-code-btn ${isInspecting ? 'active' : ''}`} onClick={() => { setPanel(p => p === 'inspect' ? null : 'inspect'); setCanvasMode('live'); }}>INSPECT</button>
+                    <button className={`focus-code-btn ${panel === 'audit' ? 'active' : ''}`} onClick={() => setPanel(p => p === 'audit' ? null : 'audit')}>A11Y AUDIT{variation.accessibility ? ` (${variation.accessibility.findings.filter(f => f.severity === 'error').length})` : ''}</button>
+                    <button className={`focus-code-btn ${panel === 'security' ? 'active' : ''}`} onClick={() => setPanel(p => p === 'security' ? null : 'security')}>SECURITY{variation.security ? ` (${variation.security.findings.length})` : ''}</button>
+                    <button className={`focus-code-btn ${showHistory ? 'active' : ''}`} onClick={() => setPanel(p => p === 'history' ? null : 'history')}>HISTORY ({revisions.length})</button>
+                    <button className={`focus-code-btn ${panel === 'snapshots' ? 'active' : ''}`} onClick={() => setPanel(p => p === 'snapshots' ? null : 'snapshots')}>SNAPSHOTS ({snapshots.length})</button>
+                    <button className="focus-code-btn" onClick={onViewSource}><CodeIcon /> VIEW SOURCE CODE</button>
+                </div>
+            </div>
+            <div className="focus-toolbar">
+                <div className="segmented-control" title="Viewport width">
+                    {VIEWPORT_PRESETS.map(p => (
+                        <button key={p.id} className={canvasMode === 'live' && viewport === p.id ? 'active' : ''} onClick={() => { setViewport(p.id); setCanvasMode('live'); }}>{p.label}{p.width ? ` ${p.width}` : ''}</button>
+                    ))}
+                    <button className={canvasMode === 'live' && viewport === 'custom' ? 'active' : ''} onClick={() => { setViewport('custom'); setCanvasMode('live'); }}>CUSTOM</button>
+                </div>
+                {viewport === 'custom' && canvasMode === 'live' && (
+                    <input className="focus-width-input" type="number" min={240} max={2560} step={10} value={customWidth} onChange={e => setCustomWidth(Math.min(2560, Math.max(240, Number(e.target.value) || 240)))} aria-label="Custom viewport width" />
+                )}
+                <div className="segmented-control" title="Preview color scheme">
+                    {(['dark', 'light'] as PreviewTheme[]).map(t => (
+                        <button key={t} className={theme === t ? 'active' : ''} onClick={() => setTheme(t)} disabled={isMatrix}>{t.toUpperCase()}</button>
+                    ))}
+                </div>
+                <button className={`focus-code-btn ${isMatrix ? 'active' : ''}`} onClick={() => setCanvasMode(m => m === 'matrix' ? 'live' : 'matrix')}>MATRIX</button>
+                <button className={`focus-code-btn ${canvasMode === 'states' ? 'active' : ''}`} onClick={() => setCanvasMode(m => m === 'states' ? 'live' : 'states')}>STATES</button>
             </div>
-            <div className="focus-canvas">
-                <iframe srcDoc={normalizedHtml} title={`focus-${variation.id}`} sandbox="allow-scripts allow-forms allow-modals allow-popups allow-presentation allow-same-origin" className="focus-iframe" />
+            <div className="focus-body">
+                <div className={`focus-canvas ${viewportWidth && canvasMode === 'live' ? 'fixed-width' : ''}`} style={{ background: PREVIEW_CANVAS[theme].background }}>
+                    {showHistory && compareA && compareB ? (
+                        <RevisionCompare before={compareA} after={compareB} tokens={tokens} labels={[`A // ${revisionLabel(compareA)}`, `B // ${revisionLabel(compareB)}`]} />
+                    ) : snapshotA && snapshotB ? (
+                        <SnapshotCompare before={snapshotA} after={snapshotB} />
+                    ) : isMatrix ? (
+                        <ViewportMatrix html={variation.html} tokens={tokens} themes={['dark', 'light']} />
+                    ) : canvasMode === 'states' ? (
+                        <StateGrid html={variation.html} tokens={tokens} theme={theme} />
+                    ) : (
+                        <div className="focus-viewport" style={{ width: viewportWidth ?? '100%' }}>
+                            <iframe ref={iframeRef} srcDoc={normalizedHtml} onLoad={() => setIsFrameLoaded(true)} title={`focus-${variation.id}`} sandbox={PREVIEW_SANDBOX} className="focus-iframe" style={{ colorScheme: theme }} />
+                        </div>
+                    )}
+                </div>
+                {showHistory && (
+                    <RevisionTimeline 
+                        revisions={revisions} 
+                        currentHtml={variation.html} 
+                        compareIds={compareIds} 
+                        onSelectCompare={(slot, id) => setCompareIds(prev => slot === 0 ? [id, prev[1]] : [prev[0], id])} 
+                        onRestore={onRestoreRevision} 
+                    />
+                )}
+                {panel === 'audit' && (
+                    <AccessibilityPanel report={variation.accessibility} isRunning={isAuditing} error={auditError} onRun={runAudit} />
+                )}
+                {panel === 'security' && <SecurityPanel report={variation.security} />}
+                {panel === 'snapshots' && (
+                    <SnapshotTimeline 
+                        entries={snapshots} 
+                        compareIds={snapshotIds} 
+                        onSelectCompare={(slot, id) => setSnapshotIds(prev => slot === 0 ? [id, prev[1]] : [prev[0], id])} 
+                        isCapturing={isCapturing} 
+                        error={captureError} 
+                        onCapture={captureSnapshotNow} 
+                    />
+                )}
+                {panel === 'inspect' && (
+                    <ElementInspector selection={selection} isRefining={isRefining} onRefine={instruction => selection && onRefineElement(selection, instruction)} />
+                )}
             </div>
         </div>
     );
@@ -156,30 +349,58 @@ const RemixModal = ({
 const ComponentCard = React.memo(({ 
     variation, 
     component,
+    tokens,
     onPreviewClick,
     onReroll,
     onUpdateAffordances,
     onDelete,
+    onRequestAlternatives,
+    onToggleVariants,
+    variantCount,
+    isVariantsOpen,
+    queueState,
+    onCancel,
+    isVerifying,
+    onVerify,
+    onAutoRemix,
     isLoading,
+    waitingOn,
+    staleDependencies,
 }: { 
     variation: ComponentVariation, 
     component: DesignComponent, 
+    tokens?: DesignTokens,
     onPreviewClick: () => void,
     onReroll: () => void,
     onUpdateAffordances: (affs: string[]) => void,
     onDelete: () => void,
+    onRequestAlternatives: () => void,
+    onToggleVariants: () => void,
+    variantCount: number,
+    isVariantsOpen: boolean,
+    queueState?: QueueJobState,
+    onCancel: () => void,
+    isVerifying: boolean,
+    onVerify: () => void,
+    onAutoRemix: () => void,
     isLoading: boolean,
+    waitingOn: DesignComponent[], // Dependencies still generating; the module is queued once they settle
+    staleDependencies: DesignComponent[], // Dependencies regenerated since this variation was generated
 }) => {
     const isStreaming = variation.status === 'streaming';
     const isError = variation.status === 'error';
     const isPending = variation.status === 'pending';
+    const isCancelled = variation.status === 'cancelled';
+    const report = variation.verification;
+    const failedChecks = report?.checks.filter(c => !c.passed) || [];
     
     const normalizedHtml = useMemo(() => {
         if (!variation.html) return '';
         // Updated base style for strict containment and no jitter
         const baseStyle = `<style>:root{color-scheme:dark;}html,body{height:100%;margin:0;padding:0;overflow:hidden;}body{display:flex;align-items:center;justify-content:center;background:transparent;font-family:'Inter',system-ui,sans-serif;}*{box-sizing:border-box;max-width:100%;overflow-wrap:break-word;}</style>`;
-        return `${baseStyle}${variation.html}`;
-    }, [variation.html]);
+        const html = isStreaming ? repairPartialHtml(variation.html) : variation.html;
+        return `${PREVIEW_CSP}${tokensStyleTag(tokens)}${baseStyle}${html}`;
+    }, [variation.html, isStreaming, tokens]);
 
     const handleToggleAffordance = (aff: string) => {
         if (!isPending) return;
@@ -190,19 +411,23 @@ const ComponentCard = React.memo(({
     };
 
     return (
-        <div className={`artifact-card ${isStreaming ? 'generating materializing' : ''} ${isPending ? 'pending' : ''} ${isError ? 'error-state' : ''}`}>
+        <div className={`artifact-card ${isStreaming ? 'generating materializing' : ''} ${isPending ? 'pending' : ''} ${isError || isCancelled ? 'error-state' : ''} ${failedChecks.length ? 'contract-failed' : ''}`}>
             <div className="artifact-header">
                 <div className="card-title">
                     <div className="comp-id">MOD_${component.id.split('-')[1]?.toUpperCase() || 'SYS'}</div>
                     <div className="comp-name">{component.name}</div>
                 </div>
                 <div className="card-actions">
+                  {queueState && <span className={`queue-state-tag ${queueState}`}>{queueState.toUpperCase()}</span>}
+                  {!queueState && isPending && waitingOn.length > 0 && <span className="queue-state-tag waiting" title={`Waiting for: ${waitingOn.map(d => d.name).join(', ')}`}>WAITING</span>}
+                  {staleDependencies.length > 0 && <span className="queue-state-tag stale" title={`Generated against older code of: ${staleDependencies.map(d => d.name).join(', ')}. Synthesize again to pick up the changes.`}>STALE</span>}
+                  {queueState && <button className="action-btn" onClick={(e) => { e.stopPropagation(); onCancel(); }} title="Cancel"><XIcon /></button>}
                   <button className="action-btn" onClick={(e) => { e.stopPropagation(); onDelete(); }} title="Remove"><TrashIcon /></button>
                   <button className="action-btn reroll-btn" onClick={(e) => { e.stopPropagation(); onReroll(); }} disabled={isLoading || isStreaming} title="Synthesize"><RefreshIcon /></button>
                 </div>
             </div>
             <div className="artifact-card-inner">
-                {!isPending && !isStreaming && !isError && <div className="card-click-capture" onClick={onPreviewClick} />}
+                {!isPending && !isStreaming && !isError && !isCancelled && <div className="card-click-capture" onClick={onPreviewClick} />}
                 
                 {isPending && (
                     <div className="pending-overlay">
@@ -217,50 +442,117 @@ const ComponentCard = React.memo(({
                                     if (fresh) onUpdateAffordances([...component.affordances, fresh]);
                                 }}>+ TAG</button>
                             </div>
-                            <button className="btn-materialize" onClick={onReroll} disabled={isLoading}>
-                                {isLoading ? <ThinkingIcon /> : <SparklesIcon />} INITIALIZE
-                            </button>
+                            {!queueState && waitingOn.length > 0 ? (
+                                <p className="dependency-wait">WAITING FOR // {waitingOn.map(d => d.name).join(', ')}</p>
+                            ) : (
+                                <button className="btn-materialize" onClick={onReroll} disabled={isLoading || queueState === 'running'}>
+                                    {isLoading ? <ThinkingIcon /> : <SparklesIcon />} {queueState === 'queued' ? 'RUN NEXT' : 'INITIALIZE'}
+                                </button>
+                            )}
                         </div>
                     </div>
                 )}
-                {isStreaming && (
+                {isStreaming && (variation.html ? (
+                    <div className="stream-status">
+                        <span className="pulse">STREAMING // LIVE PREVIEW</span>
+                        <span>{(variation.html.length / 1024).toFixed(1)} KB</span>
+                    </div>
+                ) : (
                     <div className="generating-overlay">
                         <div className="materialize-visual-stack">
-                           <BlockLoader label="GENERATING_CODE..." />
-                           {variation.html && <pre className="code-stream-preview-overlay">{variation.html}</pre>}
+                           <BlockLoader label={queueState === 'retrying' ? 'RATE_LIMITED // RETRYING...' : 'GENERATING_CODE...'} />
                         </div>
                     </div>
-                )}
+                ))}
                 {isError && (
                     <div className="error-overlay">
                         <div className="error-content">! FAILURE <button className="retry-inline" onClick={(e) => { e.stopPropagation(); onReroll(); }}>RETRY</button></div>
                     </div>
                 )}
-                {!isError && !isPending && <iframe srcDoc={normalizedHtml} title={variation.id} sandbox="allow-scripts allow-forms allow-modals allow-popups allow-presentation allow-same-origin" className="artifact-iframe" />}
+                {isCancelled && (
+                    <div className="error-overlay">
+                        <div className="error-content">CANCELLED <button className="retry-inline" onClick={(e) => { e.stopPropagation(); onReroll(); }}>RETRY</button></div>
+                    </div>
+                )}
+                {!isError && !isPending && !isCancelled && <iframe srcDoc={normalizedHtml} title={variation.id} sandbox={PREVIEW_SANDBOX} className="artifact-iframe" />}
             </div>
             {!isPending && (
                 <div className="artifact-footer">
                     <div className="card-affordances-footer">
                         {component.affordances.map((a, i) => <span key={i} className="affordance-tag-sm">{a}</span>)}
                     </div>
-                    <button onClick={(e) => { e.stopPropagation(); onPreviewClick(); }} className="inspector-btn"><GridIcon /> COMPONENT FOCUS MODE</button>
+                    {variation.status === 'complete' && (
+                        <div className={`contract-row ${report ? (report.passed ? 'pass' : 'fail') : ''}`}>
+                            {isVerifying ? (
+                                <span className="contract-status">CONTRACT // VERIFYING...</span>
+                            ) : report ? (
+                                <span className="contract-status" title={report.checks.map(c => `${c.passed ? 'PASS' : 'FAIL'} ${c.label}: ${c.detail}`).join('\n')}>
+                                    CONTRACT // {report.passed ? 'PASS' : 'FAIL'} {report.checks.length - failedChecks.length}/{report.checks.length}
+                                </span>
+                            ) : (
+                                <span className="contract-status">CONTRACT // UNVERIFIED</span>
+                            )}
+                            {!isVerifying && (
+                                <div className="contract-actions">
+                                    <button className="contract-btn" onClick={(e) => { e.stopPropagation(); onVerify(); }}>{report ? 'RECHECK' : 'VERIFY'}</button>
+                                    {failedChecks.length > 0 && <button className="contract-btn" onClick={(e) => { e.stopPropagation(); onAutoRemix(); }} disabled={!!queueState}>AUTO-REMIX</button>}
+                                </div>
+                            )}
+                            {!isVerifying && failedChecks.length > 0 && (
+                                <ul className="contract-failures">
+                                    {failedChecks.map(c => <li key={c.id} title={c.detail}>! {c.label}{c.affordance ? ` // ${c.affordance}` : ''}</li>)}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    <div className="token-actions-row">
+                        <button onClick={(e) => { e.stopPropagation(); onPreviewClick(); }} className="inspector-btn"><GridIcon /> COMPONENT FOCUS MODE</button>
+                        {variantCount > 1 ? (
+                            <button onClick={(e) => { e.stopPropagation(); onToggleVariants(); }} className={`inspector-btn variant-toggle-btn ${isVariantsOpen ? 'active' : ''}`}>VARIANTS ({variantCount}) [{isVariantsOpen ? '-' : '+'}]</button>
+                        ) : null}
+                        <button onClick={(e) => { e.stopPropagation(); onRequestAlternatives(); }} className="inspector-btn">+ ALTERNATIVES</button>
+                    </div>
                 </div>
             )}
         </div>
     );
 });
 
+// Layout jobs share the generation queue with variations, whose ids key the rest of its jobs
+const layoutJobId = (compositionId: string) => `layout-${compositionId}`;
+
 function App() {
   const [designSessions, setDesignSessions] = useState<DesignSession[]>([]);
   const [currentSessionIndex, setCurrentSessionIndex] = useState<number>(-1);
   const [inputValue, setInputValue] = useState<string>('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [moodboardDraft, setMoodboardDraft] = useState<MoodboardImage[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [isSystemSynthesizing, setIsSystemSynthesizing] = useState<boolean>(false);
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
   const [activeRemixVariation, setActiveRemixVariation] = useState<{ id: string, componentName: string, currentHtml: string, initialAffordances: string[] } | null>(null);
   const [focusedVariationId, setFocusedVariationId] = useState<string | null>(null);
-  const [drawerState, setDrawerState] = useState<{isOpen: boolean; mode: 'code' | null; title: string; data: any; }>({ isOpen: false, mode: null, title: '', data: null });
+  const [alternativesTarget, setAlternativesTarget] = useState<DesignComponent | null>(null);
+  const [expandedVariantsId, setExpandedVariantsId] = useState<string | null>(null);
+  const [isPackageExportOpen, setIsPackageExportOpen] = useState<boolean>(false);
+  const [drawerState, setDrawerState] = useState<{isOpen: boolean; mode: 'code' | 'config' | 'library' | 'moodboard' | 'prompts' | 'stats' | null; title: string; data: any; }>({ isOpen: false, mode: null, title: '', data: null });
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const provider = useMemo(() => createModelProvider(providerConfig), [providerConfig]);
+  const [componentLibrary, setComponentLibrary] = useState<ComponentLibrary>(loadComponentLibrary);
+  const [promptProfiles, setPromptProfiles] = useState<PromptProfileStore>(loadPromptProfiles);
+  const promptProfilesRef = useRef<PromptProfileStore>(promptProfiles);
+  promptProfilesRef.current = promptProfiles;
+  const [sourceDraft, setSourceDraft] = useState<{ variationId: string, html: string } | null>(null);
+  const [livePreview, setLivePreview] = useState<{ variationId: string, html: string } | null>(null);
+  const [sessionView, setSessionView] = useState<'modules' | 'screens'>('modules');
+  const [isStoreLoaded, setIsStoreLoaded] = useState<boolean>(false);
+  const persistedSessionsRef = useRef<Map<string, DesignSession>>(new Map());
+  // Queue jobs run long after the render that enqueued them; always read the latest sessions
+  const sessionsRef = useRef<DesignSession[]>(designSessions);
+  sessionsRef.current = designSessions;
+  const [queueSnapshot, setQueueSnapshot] = useState<QueueSnapshot | null>(null);
+  const [verifyingIds, setVerifyingIds] = useState<Set<string>>(new Set());
+  const [openedSessionIds, setOpenedSessionIds] = useState<Set<string>>(new Set());
+  const queueRef = useRef<GenerationQueue | null>(null);
+  const layoutRequestsRef = useRef<Map<string, { resolve: () => void, reject: (error: unknown) => void }>>(new Map());
 
   const inputRef = useRef<HTMLInputElement>(null);
   const globalImportRef = useRef<HTMLInputElement>(null);
@@ -272,80 +564,184 @@ function App() {
     return () => clearInterval(interval);
   }, []);
 
-  const currentSession = designSessions[currentSessionIndex];
+  // Restore the session library from IndexedDB
+  useEffect(() => {
+    listSessions()
+      .then(stored => {
+          stored.forEach(s => persistedSessionsRef.current.set(s.id, s));
+          // Appended, so an index opened before the store finished loading keeps pointing at the same session
+          setDesignSessions(prev => [...prev, ...stored.filter(s => !prev.some(p => p.id === s.id))]);
+      })
+      .catch(e => console.error('Session store unavailable', e))
+      .finally(() => setIsStoreLoaded(true));
+  }, []);
 
-  // Sequential Chain Effect
+  // Autosave: debounce, then persist only sessions whose object identity changed
   useEffect(() => {
-    if (!currentSession || isSystemSynthesizing) return;
-    const firstPending = currentSession.variations.find(v => v.status === 'pending');
-    if (firstPending) {
-        handleMaterializeSpecific(firstPending.id);
-    }
-  }, [currentSession?.variations, isSystemSynthesizing]);
+    if (!isStoreLoaded) return;
+    const timeout = setTimeout(() => {
+        designSessions.forEach(s => {
+            if (persistedSessionsRef.current.get(s.id) === s) return;
+            persistedSessionsRef.current.set(s.id, s);
+            saveSession(s).catch(e => console.error('Autosave failed', e));
+        });
+    }, 600);
+    return () => clearTimeout(timeout);
+  }, [designSessions, isStoreLoaded]);
 
-  const extractCode = (raw: string): string => {
-      const match = raw.match(/```html\n?([\s\S]*?)\n?```/) || raw.match(/```\n?([\s\S]*?)\n?```/);
-      return match ? match[1].trim() : raw.replace(/^(Here is|This is|Okay|Sure|Certainly)[\s\S]*?\n\n/i, '').trim();
+  // Source edits reload the focus preview once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setLivePreview(sourceDraft), 300);
+    return () => clearTimeout(timeout);
+  }, [sourceDraft]);
+
+  const currentSession = designSessions[currentSessionIndex];
+
+  const updateVariation = (variationId: string, fn: (v: ComponentVariation) => ComponentVariation) => {
+      setDesignSessions(prev => prev.map(s => s.variations.some(v => v.id === variationId) ? {
+          ...s, variations: s.variations.map(v => v.id === variationId ? fn(v) : v)
+      } : s));
   };
 
+  if (!queueRef.current) {
+      queueRef.current = createGenerationQueue({
+          concurrency: 2,
+          onChange: setQueueSnapshot,
+          onSettled: (variationId, outcome, error) => {
+              // A layout job answers the builder that requested it; cancelling one is not an error
+              const layoutRequest = layoutRequestsRef.current.get(variationId);
+              if (layoutRequest) {
+                  layoutRequestsRef.current.delete(variationId);
+                  return outcome === 'failed' ? layoutRequest.reject(error) : layoutRequest.resolve();
+              }
+              if (outcome === 'failed') {
+                  console.error(error);
+                  updateVariation(variationId, v => ({ ...v, status: 'error' }));
+              } else if (outcome === 'cancelled') {
+                  // A cancelled remix falls back to its latest revision instead of losing the module
+                  updateVariation(variationId, v => {
+                      if (v.status === 'complete') return v;
+                      const latest = v.revisions?.[v.revisions.length - 1];
+                      return latest ? { ...v, status: 'complete', html: latest.html, notes: latest.notes } : { ...v, status: 'cancelled', html: '' };
+                  });
+              }
+          }
+      });
+  }
+  const queue = queueRef.current;
+  const queueStates = useMemo(() => new Map((queueSnapshot?.jobs || []).map(j => [j.id, j.state])), [queueSnapshot]);
+  const runningCount = queueSnapshot?.jobs.filter(j => j.state === 'running').length || 0;
+
+  // Metrics land on their session even when another session is open by the time the call settles
+  const recordMetric = (sessionId: string) => (metric: CallMetric) =>
+      setDesignSessions(prev => prev.map(s => s.id === sessionId ? appendMetric(s, metric) : s));
+
   const generateVariation = async (
     variationId: string, 
-    comp: DesignComponent, 
     sessionId: string,
-    notes: string = '',
-    currentHtml: string = '',
-    retryCount = 0
+    signal: AbortSignal,
+    attempt: number,
+    { notes = '', currentHtml = '', component }: { notes?: string, currentHtml?: string, component?: DesignComponent } = {}
   ): Promise<void> => {
-      const session = designSessions.find(s => s.id === sessionId);
-      if (!session) return;
-      
-      try {
-          const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-          const prompt = `Generate a high-fidelity HTML/CSS component for: "${comp.name}"
-PURPOSE: ${comp.description}
-THEME: "${session.styleTheme}"
-STRATEGY: ${session.designLanguage}
-AFFORDANCES: ${comp.affordances.join(', ')}
-${notes ? `REFINEMENT: "${notes}"` : ''}
-${currentHtml ? `UPDATE EXISTING: \`\`\`html\n${currentHtml}\n\`\`\`` : ''}
-RULES: ONLY output code inside \`\`\`html blocks. Responsive, polished CSS. No dead links.
-STRICT STABILITY:
-- DO NOT use "transition: all". Explicitly specify properties (e.g., opacity, color, transform).
-- NO layout resizing or floaty animations on load. Elements must have stable dimensions.
-- Use 'tabular-nums' or monospace fonts for dynamic data/numbers to prevent jitter.
-- Avoid animating width, height, margin, or padding.`;
-
-          const responseStream = await ai.models.generateContentStream({
-              model: 'gemini-flash-lite-latest',
-              contents: [{ parts: [{ text: prompt }], role: "user" }],
-          });
-
-          let acc = '';
-          for await (const chunk of responseStream) {
-              acc += chunk.text || '';
-              const processedCode = extractCode(acc);
-              setDesignSessions(prev => prev.map(s => s.id === sessionId ? {
-                  ...s, variations: s.variations.map(v => v.id === variationId ? { ...v, html: processedCode } : v)
-              } : s));
-          }
+      const session = sessionsRef.current.find(s => s.id === sessionId);
+      const variation = session?.variations.find(v => v.id === variationId);
+      const comp = component || session?.architecture.find(a => a.id === variation?.componentId);
+      // Failing settles the job as failed, so the variation shows an error instead of staying pending
+      if (!session || !variation || !comp) throw new Error(`Nothing to generate for variation ${variationId}: its session, variation or module is gone.`);
+      const divergenceHint = variation.divergenceHint;
 
-          setDesignSessions(prev => prev.map(s => s.id === sessionId ? {
-              ...s, variations: s.variations.map(v => v.id === variationId ? { 
-                  ...v, html: extractCode(acc), status: 'complete', notes: (notes === '__RETRYING__' ? '' : notes)
-              } : v)
-          } : s));
-      } catch (e: any) {
-          if (retryCount < 3 && e.message?.includes('429')) {
-              await sleep(5000);
-              return generateVariation(variationId, comp, sessionId, notes, currentHtml, retryCount + 1);
-          }
-          setDesignSessions(prev => prev.map(s => s.id === sessionId ? { ...s, variations: s.variations.map(v => v.id === variationId ? { ...v, status: 'error' } : v) } : s));
+      const profile = resolvePromptProfile(promptProfilesRef.current, session.promptProfileId);
+      const dependencies = getDependencyImplementations(session, comp);
+      const prompt = buildVariationPrompt(session, comp, { notes, currentHtml, divergenceHint, dependencies }, profile);
+
+      // Set to streaming immediately to allow visual feedback
+      updateVariation(variationId, v => ({
+          ...v, status: 'streaming', html: '', prompt, promptProfile: { id: profile.id, version: profile.version },
+          dependencyFingerprints: fingerprintDependencies(session, comp), verification: undefined, accessibility: undefined
+      }));
+
+      // The card and focus previews repair the partial code; pushes are throttled since each one reloads their frames
+      const parser = createStreamingHtmlParser();
+      let lastPush = 0;
+      const context = { stage: 'module' as const, model: providerConfig.models.module, componentId: comp.id, variationId, retries: attempt };
+      for await (const chunk of meteredStream(provider, context, prompt, recordMetric(sessionId), signal)) {
+          parser.push(chunk);
+          if (Date.now() - lastPush < STREAM_PREVIEW_INTERVAL_MS) continue;
+          lastPush = Date.now();
+          const partialCode = parser.code();
+          updateVariation(variationId, v => ({ ...v, html: partialCode }));
       }
+      signal.throwIfAborted();
+
+      const { html: finalHtml, report: security } = sanitizeHtml(parser.finish());
+      const finalNotes = notes === '__RETRYING__' ? '' : notes;
+      const revision: VariationRevision = { id: generateId(), html: finalHtml, notes: finalNotes, affordances: comp.affordances, timestamp: Date.now(), origin: 'model' };
+      updateVariation(variationId, v => ({ 
+          ...v, html: finalHtml, status: 'complete', notes: finalNotes, security, revisions: [...(v.revisions || []), revision]
+      }));
+      runVerification(variationId, finalHtml, comp.affordances, session.tokens);
+      runSnapshot(variationId, finalHtml, session.tokens, revision.id).catch(e => console.warn('Snapshot capture failed', e));
   };
 
+  // Affordance contract: probe the finished html and attach the report, unless the html changed meanwhile
+  const runVerification = (variationId: string, html: string, affordances: string[], tokens?: DesignTokens) => {
+      setVerifyingIds(prev => new Set(prev).add(variationId));
+      verifyAffordances(html, affordances, tokens)
+          .then(report => updateVariation(variationId, v => v.html === html ? { ...v, verification: report } : v))
+          .finally(() => setVerifyingIds(prev => {
+              const next = new Set(prev);
+              next.delete(variationId);
+              return next;
+          }));
+  };
+
+  // Visual baseline for every recorded revision; capture failures only cost the snapshot
+  const runSnapshot = (variationId: string, html: string, tokens?: DesignTokens, revisionId?: string) =>
+      captureSnapshot(html, tokens, revisionId).then(snapshot => updateVariation(variationId, v => ({
+          ...v, snapshots: [...(v.snapshots || []), snapshot].slice(-MAX_SNAPSHOTS_PER_VARIATION)
+      })));
+
+  const enqueueGeneration = (variationId: string, sessionId: string, options?: { notes?: string, currentHtml?: string, component?: DesignComponent }) => {
+      queue.enqueue(variationId, (signal, attempt) => generateVariation(variationId, sessionId, signal, attempt, options));
+  };
+
+  // Sessions opened during this visit; restored library sessions only start generating once opened
+  useEffect(() => {
+    if (currentSession) setOpenedSessionIds(prev => prev.has(currentSession.id) ? prev : new Set(prev).add(currentSession.id));
+  }, [currentSession?.id]);
+
+  // Generation Queue: pending variations of every opened session are queued in dependency order, each once the
+  // modules it embeds have settled, so switching sessions does not strand the rest; the queue decides when they run
+  useEffect(() => {
+    designSessions
+        .filter(session => openedSessionIds.has(session.id) && session.stage !== 'planning')
+        .forEach(session => orderByDependencies(session.architecture)
+            .filter(comp => !getUnsettledDependencies(session, comp).length)
+            .flatMap(comp => getModuleVariations(session, comp.id))
+            .filter(v => v.status === 'pending' && !queue.has(v.id))
+            .forEach(v => enqueueGeneration(v.id, session.id)));
+  }, [designSessions, openedSessionIds]);
+
+  const addMoodboardImages = useCallback(async (files: File[]) => {
+    const images = files.filter(f => f.type.startsWith('image/'));
+    const room = MAX_MOODBOARD_IMAGES - moodboardDraft.length;
+    if (!images.length) return;
+    if (images.length > room) alert(`A moodboard holds up to ${MAX_MOODBOARD_IMAGES} images; ${images.length - Math.max(0, room)} were skipped.`);
+    const read: MoodboardImage[] = [];
+    // One at a time keeps decoding and palette sampling from piling up on large drops
+    for (const file of images.slice(0, Math.max(0, room))) {
+        try {
+            read.push(await readMoodboardImage(file, file.name || 'pasted image'));
+        } catch (e) {
+            console.warn('Skipped moodboard image', e);
+        }
+    }
+    setMoodboardDraft(prev => [...prev, ...read].slice(0, MAX_MOODBOARD_IMAGES));
+  }, [moodboardDraft.length]);
+
   const handleApplyStyle = useCallback(async (manualPrompt?: string) => {
     const spice = manualPrompt || inputValue;
-    if (!spice.trim() && !selectedImage) {
+    if (!spice.trim() && !moodboardDraft.length) {
         if (isLoading) return;
         // Logic for empty submit: do nothing if no placeholder logic wanted, 
         // BUT the prompt requested "rotating text can be submitted".
@@ -353,77 +749,27 @@ STRICT STABILITY:
     }
 
     setIsLoading(true);
-    const sessionId = generateId();
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
     try {
-        let theme = spice || "Visual System";
-        let strategy = "High-fidelity industrial modernism.";
-        
-        if (selectedImage) {
-            const vision = await ai.models.generateContent({
-                model: 'gemini-flash-lite-latest',
-                contents: { parts: [{inlineData: {data: selectedImage.split(',')[1], mimeType: 'image/png'}}, { text: "Strategy and Theme for this UI vision." }] }
-            });
-            theme = vision.text?.split('\n')[0] || theme;
-            strategy = vision.text?.split('\n')[1] || strategy;
-        }
-
-        const archRes = await ai.models.generateContent({
-            model: 'gemini-flash-lite-latest',
-            contents: `Generate 4 niche UI modules for theme "${theme}". Output ONLY valid JSON array: [{"id": "mod-id", "name": "Name", "description": "Purpose", "affordances": ["Tag1", "Tag2"]}].`,
-            config: { responseMimeType: "application/json" }
-        });
-        
-        const nicheArchitecture = JSON.parse(archRes.text || "[]");
-        const combinedArchitecture = [...CORE_COMPONENT_LIBRARY, ...nicheArchitecture];
-
-        const session: DesignSession = {
-            id: sessionId,
-            styleTheme: theme,
-            designLanguage: strategy,
-            timestamp: Date.now(),
-            architecture: combinedArchitecture,
-            variations: combinedArchitecture.map((comp: any) => ({
-                id: generateId(),
-                componentId: comp.id,
-                styleName: theme,
-                html: "",
-                prompt: theme,
-                status: 'pending'
-            }))
-        };
+        const moodboard = moodboardDraft.length ? createMoodboard(moodboardDraft) : undefined;
+        const libraryModules = componentLibrary.modules.filter(m => componentLibrary.selectedIds.includes(m.id));
+        const session = await planSession(provider, providerConfig.models, { theme: spice, moodboard, libraryModules, promptProfile: resolvePromptProfile(promptProfiles) });
 
         setDesignSessions(prev => [...prev, session]);
         setCurrentSessionIndex(designSessions.length);
         setInputValue('');
-        setSelectedImage(null);
+        setMoodboardDraft([]);
     } catch (e) {
         console.error(e);
     } finally {
         setIsLoading(false);
     }
-  }, [inputValue, selectedImage, isLoading, designSessions.length]);
-
-  const handleMaterializeSpecific = async (variationId: string) => {
-      if (!currentSession || !variationId) return;
-      const variation = currentSession.variations.find(v => v.id === variationId);
-      if (!variation) return;
-
-      const arch = currentSession.architecture.find(a => a.id === variation.componentId);
-      if (!arch) return;
+  }, [inputValue, moodboardDraft, isLoading, designSessions.length, provider, providerConfig, componentLibrary, promptProfiles]);
 
-      try {
-          setIsSystemSynthesizing(true);
-          // Set to streaming immediately to allow visual feedback
-          setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? {
-            ...s, variations: s.variations.map(v => v.id === variationId ? { ...v, status: 'streaming', html: '' } : v)
-          } : s));
-
-          await generateVariation(variationId, arch, currentSession.id);
-      } finally {
-          setIsSystemSynthesizing(false);
-      }
+  const handleMaterializeSpecific = (variation: ComponentVariation) => {
+      // Pending variations are already queued; failed or cancelled ones go back to pending and get picked up again
+      if (variation.status === 'pending') queue.prioritize(variation.id);
+      else updateVariation(variation.id, v => ({ ...v, status: 'pending', html: '' }));
   };
 
   const handleUpdateAffordances = (compId: string, affs: string[]) => {
@@ -432,163 +778,404 @@ STRICT STABILITY:
       } : s));
   };
 
+  const handleUpdateModule = (compId: string, patch: Partial<DesignComponent>) => {
+      setDesignSessions(prev => prev.map(s => s.id === currentSession!.id ? {
+          ...s, architecture: s.architecture.map(a => a.id === compId ? { ...a, ...patch } : a)
+      } : s));
+  };
+
+  const handleMoveModule = (compId: string, offset: -1 | 1) => {
+      setDesignSessions(prev => prev.map(s => {
+          if (s.id !== currentSession!.id) return s;
+          const from = s.architecture.findIndex(a => a.id === compId);
+          const to = from + offset;
+          if (from === -1 || to < 0 || to >= s.architecture.length) return s;
+          const architecture = [...s.architecture];
+          [architecture[from], architecture[to]] = [architecture[to], architecture[from]];
+          return { ...s, architecture };
+      }));
+  };
+
+  const handleSuggestModules = async (count: number) => {
+      if (!currentSession) return;
+      const sessionId = currentSession.id;
+      const prompt = buildSuggestModulesPrompt(currentSession, count);
+      const model = providerConfig.models.architecture;
+      const text = await meteredCall(provider, { stage: 'suggest', model }, recordMetric(sessionId), onUsage => provider.completeJson(model, prompt, onUsage));
+      const { modules: suggested, issues } = parseArchitecture(text);
+      if (issues.length) console.warn('Skipped invalid suggested modules', issues);
+      if (!suggested.length) throw new Error('The model returned no usable modules.');
+      setDesignSessions(prev => prev.map(s => s.id === sessionId ? {
+          ...s, architecture: sanitizeDependencies([...s.architecture, ...withUniqueIds(s.architecture, suggested.slice(0, count))]).architecture
+      } : s));
+  };
+
+  const handleStartGeneration = () => {
+      if (!currentSession) return;
+      setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? {
+          ...s,
+          stage: 'generating',
+          variations: createPendingVariations(s)
+      } : s));
+  };
+
   const handleDeleteModule = (id: string) => {
+      currentSession?.variations.filter(v => v.componentId === id).forEach(v => queue.cancel(v.id));
       setDesignSessions(prev => prev.map(s => s.id === currentSession!.id ? {
           ...s, 
-          architecture: s.architecture.filter(a => a.id !== id),
+          architecture: s.architecture
+              .filter(a => a.id !== id)
+              .map(a => a.dependsOn?.includes(id) ? { ...a, dependsOn: a.dependsOn.filter(d => d !== id) } : a),
           variations: s.variations.filter(v => v.componentId !== id)
       } : s));
   };
 
+  // Sessions created before revision tracking have no history; keep their current output as the baseline
+  const withBaselineRevision = (x: ComponentVariation, arch: DesignComponent): ComponentVariation => ({
+      ...x, revisions: x.revisions?.length || !x.html ? (x.revisions || []) : [{ id: generateId(), html: x.html, notes: x.notes, affordances: arch.affordances, timestamp: Date.now() }]
+  });
+
+  const startRemix = (variationId: string, arch: DesignComponent, notes: string, currentHtml: string, affordances = arch.affordances) => {
+      if (!currentSession) return;
+      updateVariation(variationId, x => withBaselineRevision(x, arch));
+      enqueueGeneration(variationId, currentSession.id, { notes, currentHtml, component: { ...arch, affordances } });
+  };
+
+  // Element refinement: the model only sees the selected subtree as its edit target and returns a replacement for it
+  const refineElement = async (variationId: string, sessionId: string, signal: AbortSignal, attempt: number, selection: ElementSelection, instruction: string): Promise<void> => {
+      const session = sessionsRef.current.find(s => s.id === sessionId);
+      const variation = session?.variations.find(v => v.id === variationId);
+      const comp = session?.architecture.find(a => a.id === variation?.componentId);
+      if (!session || !variation || !comp) return;
+      const sourceHtml = variation.html;
+      const target = findElementSource(sourceHtml, selection.selector);
+      if (!target) {
+          alert(`ERROR // ${selection.label} was created by a script and is not part of the module source.`);
+          return;
+      }
+
+      updateVariation(variationId, v => ({ ...v, status: 'streaming' }));
+
+      const prompt = buildElementRefinePrompt(session, comp, { selector: selection.selector, sourceHtml, targetHtml: target, instruction });
+
+      const context = { stage: 'refine' as const, model: providerConfig.models.module, componentId: comp.id, variationId, retries: attempt };
+      let acc = '';
+      for await (const chunk of meteredStream(provider, context, prompt, recordMetric(sessionId), signal)) acc += chunk;
+      signal.throwIfAborted();
+
+      let finalHtml: string;
+      let security: SecurityReport;
+      try {
+          ({ html: finalHtml, report: security } = sanitizeHtml(applyElementPatch(sourceHtml, selection.selector, extractCode(acc))));
+      } catch (e) {
+          updateVariation(variationId, v => ({ ...v, status: 'complete' }));
+          alert(`ERROR // Element patch rejected. ${e instanceof Error ? e.message : ''}`);
+          return;
+      }
+      const notes = `ELEMENT // ${selection.label}: ${instruction}`;
+      const revision: VariationRevision = { id: generateId(), html: finalHtml, notes, affordances: comp.affordances, timestamp: Date.now(), origin: 'model' };
+      updateVariation(variationId, v => ({
+          ...v, html: finalHtml, status: 'complete', notes, security, verification: undefined, accessibility: undefined, revisions: [...(v.revisions || []), revision]
+      }));
+      runVerification(variationId, finalHtml, comp.affordances, session.tokens);
+      runSnapshot(variationId, finalHtml, session.tokens, revision.id).catch(e => console.warn('Snapshot capture failed', e));
+  };
+
+  const handleRefineElement = (variationId: string, selection: ElementSelection, instruction: string) => {
+      if (!currentSession || queue.has(variationId)) return;
+      const sessionId = currentSession.id;
+      const variation = currentSession.variations.find(v => v.id === variationId);
+      const arch = currentSession.architecture.find(a => a.id === variation?.componentId);
+      if (!arch) return;
+      updateVariation(variationId, x => withBaselineRevision(x, arch));
+      queue.enqueue(variationId, (signal, attempt) => refineElement(variationId, sessionId, signal, attempt, selection, instruction));
+  };
+
   const handleConfirmRemix = (notes: string, updatedAffordances: string[]) => {
       if (!activeRemixVariation || !currentSession) return;
       const compId = currentSession.variations.find(v => v.id === activeRemixVariation.id)!.componentId;
       handleUpdateAffordances(compId, updatedAffordances);
       const arch = currentSession.architecture.find(a => a.id === compId)!;
-      const updatedArch = { ...arch, affordances: updatedAffordances };
+      startRemix(activeRemixVariation.id, arch, notes, activeRemixVariation.currentHtml, updatedAffordances);
+      setActiveRemixVariation(null);
+  };
+
+  const handleAutoRemix = (variation: ComponentVariation, arch: DesignComponent) => {
+      if (!variation.verification || variation.verification.passed) return;
+      startRemix(variation.id, arch, failingChecksAsNotes(variation.verification), variation.html);
+  };
+
+  const handleSaveSource = (variationId: string, draft: string) => {
+      if (!currentSession || queue.has(variationId)) return;
+      const variation = currentSession.variations.find(v => v.id === variationId);
+      const arch = currentSession.architecture.find(a => a.id === variation?.componentId);
+      if (!arch) return;
+      // Hand edits go through the same sanitization as model output; the editor shows what was kept
+      const { html, report: security } = sanitizeHtml(draft);
+      if (html !== draft) setSourceDraft({ variationId, html });
+      const revision: VariationRevision = { id: generateId(), html, notes: 'MANUAL EDIT', affordances: arch.affordances, timestamp: Date.now(), origin: 'manual' };
+      updateVariation(variationId, x => {
+          const base = withBaselineRevision(x, arch);
+          return { ...base, html, notes: revision.notes, security, verification: undefined, accessibility: undefined, revisions: [...(base.revisions || []), revision] };
+      });
+      runVerification(variationId, html, arch.affordances, currentSession.tokens);
+      runSnapshot(variationId, html, currentSession.tokens, revision.id).catch(e => console.warn('Snapshot capture failed', e));
+  };
+
+  const openSourceEditor = (variation: ComponentVariation) => {
+      setSourceDraft({ variationId: variation.id, html: variation.html });
+      setDrawerState({ isOpen: true, mode: 'code', title: 'SOURCE // LIVE EDIT', data: null });
+  };
+
+  /** Closes the editor unless the user keeps unsaved edits; returns whether it closed. */
+  const closeSourceEditor = (): boolean => {
+      if (drawerState.mode !== 'code' || !drawerState.isOpen) return true;
+      const saved = currentSession?.variations.find(v => v.id === sourceDraft?.variationId)?.html;
+      if (sourceDraft && saved !== undefined && sourceDraft.html !== saved && !confirm("Discard unsaved source edits?")) return false;
+      setSourceDraft(null);
+      setLivePreview(null);
+      setDrawerState(s => ({ ...s, isOpen: false }));
+      return true;
+  };
+
+  const handleRequestAlternatives = (compId: string, hints: string[]) => {
+      if (!currentSession) return;
+      const fresh: ComponentVariation[] = hints.map(hint => ({
+          id: generateId(),
+          componentId: compId,
+          styleName: currentSession.styleTheme,
+          html: '',
+          prompt: '',
+          status: 'pending',
+          divergenceHint: hint || undefined
+      }));
+      setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, variations: [...s.variations, ...fresh] } : s));
+      setExpandedVariantsId(compId);
+      setAlternativesTarget(null);
+  };
+
+  const handleSetCanonical = (compId: string, variationId: string) => {
+      setDesignSessions(prev => prev.map(s => s.id === currentSession!.id ? {
+          ...s, architecture: s.architecture.map(a => a.id === compId ? { ...a, canonicalVariationId: variationId } : a)
+      } : s));
+  };
+
+  const handleDeleteVariation = (variationId: string) => {
+      queue.cancel(variationId);
+      setDesignSessions(prev => prev.map(s => s.id === currentSession!.id ? {
+          ...s, variations: s.variations.filter(v => v.id !== variationId)
+      } : s));
+  };
+
+  const handleRestoreRevision = (variationId: string, revisionId: string) => {
+      if (!currentSession) return;
+      const variation = currentSession.variations.find(v => v.id === variationId);
+      const revision = variation?.revisions?.find(r => r.id === revisionId);
+      if (!variation || !revision) return;
+      // Revisions from before sanitization are cleaned on the way back in
+      const { html, report: security } = sanitizeHtml(revision.html);
+      handleUpdateAffordances(variation.componentId, revision.affordances);
       setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? {
-          ...s, variations: s.variations.map(x => x.id === activeRemixVariation.id ? { ...x, status: 'streaming', html: '' } : x)
+          ...s, variations: s.variations.map(v => v.id === variationId ? { ...v, html, notes: revision.notes, security, verification: undefined, accessibility: undefined } : v)
+      } : s));
+      runVerification(variationId, html, revision.affordances, currentSession.tokens);
+  };
+
+  const handleCompositionsChange = (compositions: Composition[]) => {
+      if (!currentSession) return;
+      setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, compositions } : s));
+  };
+
+  // The model writes only the page around the placed modules; modules are injected into its placeholders
+  const generateLayout = async (compositionId: string, sessionId: string, signal: AbortSignal, attempt: number): Promise<void> => {
+      const session = sessionsRef.current.find(s => s.id === sessionId);
+      const composition = session?.compositions.find(c => c.id === compositionId);
+      if (!session || !composition) throw new Error(`Nothing to lay out for screen ${compositionId}: it or its session is gone.`);
+      let acc = '';
+      const context = { stage: 'layout' as const, model: providerConfig.models.module, retries: attempt };
+      for await (const chunk of meteredStream(provider, context, buildLayoutPrompt(composition, session), recordMetric(session.id), signal)) acc += chunk;
+      signal.throwIfAborted();
+      const layoutHtml = sanitizeHtml(extractCode(acc)).html;
+      if (!layoutHtml) throw new Error('The model returned an empty layout.');
+      setDesignSessions(prev => prev.map(s => s.id === session.id ? {
+          ...s, compositions: s.compositions.map(c => c.id === compositionId ? { ...c, layoutHtml, timestamp: Date.now() } : c)
       } : s));
-      generateVariation(activeRemixVariation.id, updatedArch, currentSession.id, notes, activeRemixVariation.currentHtml);
-      setActiveRemixVariation(null);
   };
 
+  // Queued like module generation, so layouts get the same concurrency limit, rate-limit backoff and cancel
+  const handleGenerateLayout = (compositionId: string) => new Promise<void>((resolve, reject) => {
+      const jobId = layoutJobId(compositionId);
+      // A request for a layout that is already generating is answered by the first one
+      if (!currentSession || queue.has(jobId)) return resolve();
+      const sessionId = currentSession.id;
+      layoutRequestsRef.current.set(jobId, { resolve, reject });
+      queue.enqueue(jobId, (signal, attempt) => generateLayout(compositionId, sessionId, signal, attempt));
+  });
+
   const handleExport = () => {
     if (!currentSession) return;
-    
-    const componentItems = currentSession.variations.filter(v => v.status === 'complete').map(v => {
-        const arch = currentSession.architecture.find(a => a.id === v.componentId);
-        const anchorId = `comp-${v.id}`;
-        const normalizedHtml = `<!DOCTYPE html><html><head><link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700;900&display=swap" rel="stylesheet"><style>:root{color-scheme:dark;}body{margin:0;padding:2rem;display:flex;align-items:center;justify-content:center;min-height:calc(100vh - 4rem);background:transparent;font-family:'Inter',sans-serif;color:#fff;}*{box-sizing:border-box;max-width:100%;overflow-wrap:break-word;}</style></head><body>${v.html}</body></html>`;
-
-        return {
-            id: anchorId,
-            name: arch?.name || 'Untitled',
-            description: arch?.description || '',
-            affordances: arch?.affordances || [],
-            html: v.html,
-            srcDoc: normalizedHtml
-        };
-    });
-
-    const doc = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <title>USUI SPEC // ${currentSession.styleTheme.toUpperCase()}</title>
-    <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700;900&family=JetBrains+Mono:wght@400;700&display=swap" rel="stylesheet">
-    <style>
-        :root { --bg: #000; --text: #fff; --border: #111; --accent: #fff; --font-sans: 'Inter', sans-serif; --font-mono: 'JetBrains Mono', monospace; }
-        * { box-sizing: border-box; margin: 0; padding: 0; }
-        html, body { background: var(--bg); color: var(--text); font-family: var(--font-sans); height: 100%; scroll-behavior: smooth; }
-        .layout { display: flex; min-height: 100vh; }
-        .sidebar { width: 300px; position: fixed; height: 100vh; border-right: 1px solid var(--border); background: #050505; padding: 40px; overflow-y: auto; z-index: 100; }
-        .main { flex: 1; margin-left: 300px; background: var(--bg); position: relative; }
-        .label { font-size: 0.6rem; color: #444; letter-spacing: 0.4em; text-transform: uppercase; margin-bottom: 8px; font-family: var(--font-mono); font-weight: 700; }
-        .sidebar-header h1 { font-size: 1.2rem; font-weight: 900; text-transform: uppercase; margin: 0 0 40px 0; border-bottom: 3px solid #fff; padding-bottom: 8px; }
-        .nav-list { list-style: none; }
-        .nav-list li { margin-bottom: 18px; }
-        .nav-list a { color: #555; text-decoration: none; font-size: 0.75rem; font-weight: 700; text-transform: uppercase; transition: 0.2s; display: block; }
-        .nav-list a:hover { color: #fff; }
-        .section-cover { min-height: 100vh; padding: 80px; display: flex; flex-direction: column; justify-content: center; border-bottom: 1px solid var(--border); }
-        .cover-title { font-size: 8vw; font-weight: 900; line-height: 0.8; margin-bottom: 40px; letter-spacing: -0.05em; text-transform: uppercase; }
-        .strategy { font-size: 1.8rem; font-weight: 300; line-height: 1.2; color: #888; margin-top: 20px; max-width: 800px; }
-        .component-section { padding: 100px 80px; border-bottom: 1px solid var(--border); }
-        .comp-header { margin-bottom: 40px; }
-        .comp-header h2 { font-size: 3rem; font-weight: 900; text-transform: uppercase; margin-bottom: 12px; }
-        .aff-chip { background: #0a0a0a; color: #666; font-size: 0.6rem; padding: 4px 12px; border-radius: 20px; text-transform: uppercase; font-weight: 700; border: 1px solid #222; margin-right: 8px; }
-        .comp-preview { border: 1px solid var(--border); background: #020202; margin-bottom: 40px; }
-        .preview-iframe { width: 100%; height: 500px; border: none; display: block; }
-        
-        /* Collapsible Source Code Styles */
-        details.code-details { border: 1px solid var(--border); background: #050505; transition: border-color 0.2s; }
-        details.code-details[open] { border-color: #333; }
-        summary.code-summary { padding: 16px 24px; background: #0a0a0a; color: #333; font-size: 0.6rem; font-weight: 900; font-family: var(--font-mono); cursor: pointer; list-style: none; outline: none; user-select: none; border-bottom: 1px solid transparent; }
-        details.code-details[open] summary.code-summary { border-bottom-color: var(--border); color: #888; }
-        summary.code-summary::-webkit-details-marker { display: none; }
-        summary.code-summary:hover { color: #fff; }
-        pre { padding: 30px; color: #fff; font-family: var(--font-mono); font-size: 0.8rem; overflow-x: auto; white-space: pre-wrap; word-break: break-all; opacity: 0.8; }
-
-        @media (max-width: 900px) { .sidebar { display: none; } .main { margin-left: 0; } }
-    </style>
-</head>
-<body>
-    <div class="layout">
-        <aside class="sidebar">
-            <div class="sidebar-header"><div class="label">ENGINEERING SPEC</div><h1>USUI STUDIO</h1></div>
-            <nav style="margin-top: 40px"><div class="label">NAVIGATION</div><ul class="nav-list"><li><a href="#cover">00 // OVERVIEW</a></li>${componentItems.map((c, i) => `<li><a href="#${c.id}">${String(i+1).padStart(2, '0')} // ${c.name}</a></li>`).join('')}</ul></nav>
-        </aside>
-        <main class="main">
-            <section id="cover" class="section-cover"><div class="label">IDENTITY // SPEC_v1.5</div><h1 class="cover-title">${currentSession.styleTheme}</h1><div class="strategy">${currentSession.designLanguage}</div></section>
-            ${componentItems.map(c => `
-            <section id="${c.id}" class="component-section">
-                <div class="comp-header"><div class="label">MODULE_ID: ${c.id.toUpperCase()}</div><h2>${c.name}</h2><p style="color:#666; margin-bottom:15px">${c.description}</p>
-                <div style="margin-top:10px">${c.affordances.map(a => `<span class="aff-chip">${a}</span>`).join('')}</div></div>
-                <div class="comp-preview"><iframe class="preview-iframe" srcdoc="${c.srcDoc.replace(/"/g, '&quot;')}" sandbox="allow-scripts allow-same-origin"></iframe></div>
-                <details class="code-details">
-                    <summary class="code-summary">VIEW SOURCE CODE [+]</summary>
-                    <pre><code>${c.html.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</code></pre>
-                </details>
-            </section>`).join('')}
-        </main>
-    </div>
-    <script id="usui-session-data" type="application/json">${JSON.stringify(currentSession).replace(/</g, '\\u003c')}</script>
-</body>
-</html>`;
+    downloadBlob(new Blob([buildStyleGuideHtml(currentSession)], { type: 'text/html' }), styleGuideFilename(currentSession));
+  };
 
-    const b = new Blob([doc], { type: 'text/html' });
-    const u = URL.createObjectURL(b);
-    const a = document.createElement('a');
-    a.href = u; a.download = `usui-spec-${currentSession.styleTheme.toLowerCase().replace(/\s+/g, '-')}.html`;
-    a.click();
+  const handleExportPackage = (target: PackageTarget) => {
+    if (!currentSession) return;
+    try {
+        const zip = buildComponentPackage(currentSession, target);
+        downloadBlob(new Blob([zip], { type: 'application/zip' }), `usui-${slugify(currentSession.styleTheme)}-${target}.zip`);
+        setIsPackageExportOpen(false);
+    } catch (e) {
+        console.error(e);
+        alert("ERROR // Package export failed.");
+    }
   };
 
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
+    e.target.value = '';
     if (!f) return;
     const r = new FileReader();
     r.onload = (ev) => {
         const raw = ev.target?.result as string;
         try {
             const htmlMatch = raw.match(/<script id="usui-session-data" type="application\/json">([\s\S]*?)<\/script>/i);
-            const data = htmlMatch ? JSON.parse(htmlMatch[1]) : JSON.parse(raw);
+            const { session, repairs } = parseSessionJson(htmlMatch ? htmlMatch[1] : raw);
+            // Importing the same file twice must not collide with the stored copy; variation ids key the queue too
+            const variationIds = new Set(session.variations.map(v => v.id));
+            const collides = designSessions.some(s => s.id === session.id || s.variations.some(v => variationIds.has(v.id)));
+            const data = collides ? withFreshSessionIds(session) : session;
+            if (repairs.length) console.info('Session repaired on import', repairs);
             
             setDesignSessions(prev => [...prev, data]);
             setCurrentSessionIndex(designSessions.length);
         } catch (err) {
-            alert("ERROR // Invalid session file.");
+            console.error(err);
+            const details = err instanceof SessionSchemaError
+                ? err.issues.slice(0, 8).map(i => `${i.path}: ${i.message}`).join('\n') + (err.issues.length > 8 ? `\n... ${err.issues.length - 8} more` : '')
+                : '';
+            alert(`ERROR // Invalid session file.${details ? `\n\n${details}` : ''}`);
         }
     };
     r.readAsText(f);
   };
 
+  const handleOpenSession = (id: string) => {
+    setCurrentSessionIndex(designSessions.findIndex(s => s.id === id));
+  };
+
+  const handleDuplicateSession = (id: string) => {
+    const source = designSessions.find(s => s.id === id);
+    if (!source) return;
+    const copy: DesignSession = {
+        ...withFreshSessionIds(source),
+        name: `${source.name ?? source.styleTheme} (COPY)`,
+        timestamp: Date.now(),
+    };
+    setDesignSessions(prev => [...prev, copy]);
+  };
+
+  const handleRenameSession = (id: string) => {
+    const source = designSessions.find(s => s.id === id);
+    // Only the label changes; the theme keeps steering generation
+    const name = source && prompt("Session name:", source.name ?? source.styleTheme);
+    if (!name?.trim()) return;
+    setDesignSessions(prev => prev.map(s => s.id === id ? { ...s, name: name.trim() } : s));
+  };
+
+  const handleDeleteSession = (id: string) => {
+    if (!confirm("Delete this session permanently?")) return;
+    const session = designSessions.find(s => s.id === id);
+    session?.variations.forEach(v => queue.cancel(v.id));
+    session?.compositions.forEach(c => queue.cancel(layoutJobId(c.id)));
+    persistedSessionsRef.current.delete(id);
+    deleteSession(id).catch(e => console.error('Delete failed', e));
+    setDesignSessions(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleLibraryChange = (library: ComponentLibrary) => {
+    saveComponentLibrary(library);
+    setComponentLibrary(library);
+  };
+
+  const handlePromptProfilesChange = (store: PromptProfileStore) => {
+    savePromptProfiles(store);
+    setPromptProfiles(store);
+  };
+
   const handleAddModule = () => {
     if (!currentSession) return;
     const newId = `mod-${generateId()}`;
     const newArch = { id: newId, name: 'Untitled Module', description: 'Custom module definition.', affordances: ['NewTag'] };
     const newVar = { id: generateId(), componentId: newId, styleName: currentSession.styleTheme, html: '', prompt: '', status: 'pending' as const };
-    setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, architecture: [...s.architecture, newArch], variations: [...s.variations, newVar] } : s));
+    // While planning, variations are only created once generation starts
+    const variations = currentSession.stage === 'planning' ? [] : [newVar];
+    setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, architecture: [...s.architecture, newArch], variations: [...s.variations, ...variations] } : s));
   };
 
+  const editedVariation = currentSession?.variations.find(v => v.id === sourceDraft?.variationId);
+  const focusedVariation = currentSession?.variations.find(v => v.id === focusedVariationId);
+
   return (
     <>
-        <div className="top-nav"><div className="brand" onClick={() => window.location.reload()}>USUI STUDIO</div></div>
-        <SideDrawer isOpen={drawerState.isOpen} onClose={() => setDrawerState(s => ({...s, isOpen: false}))} title={drawerState.title}><pre className="code-block"><code>{drawerState.data}</code></pre></SideDrawer>
+        <div className="top-nav">
+            <div className="brand" onClick={() => { if (!closeSourceEditor()) return; setFocusedVariationId(null); setCurrentSessionIndex(-1); }}>USUI STUDIO</div>
+            <div className="top-nav-actions">
+                {currentSession && <button className="synth-system-btn" onClick={() => setDrawerState({ isOpen: true, mode: 'stats', title: 'SESSION STATS', data: null })}>STATS // {currentSession.telemetry?.length || 0} CALLS</button>}
+                {currentSession?.moodboard && <button className="synth-system-btn" onClick={() => setDrawerState({ isOpen: true, mode: 'moodboard', title: 'MOODBOARD // REFERENCE', data: null })}>MOODBOARD // {currentSession.moodboard.images.length}</button>}
+                <button className="synth-system-btn" onClick={() => setDrawerState({ isOpen: true, mode: 'prompts', title: 'PROMPT PROFILES', data: null })}>PROMPTS // {resolvePromptProfile(promptProfiles).name.toUpperCase()}</button>
+                <button className="synth-system-btn" onClick={() => setDrawerState({ isOpen: true, mode: 'library', title: 'COMPONENT LIBRARY', data: null })}>LIBRARY // {componentLibrary.selectedIds.length}/{componentLibrary.modules.length}</button>
+                <button className="synth-system-btn" onClick={() => setDrawerState({ isOpen: true, mode: 'config', title: 'CONFIG', data: null })}>CONFIG // {providerConfig.kind.toUpperCase()}</button>
+            </div>
+        </div>
+        <SideDrawer isOpen={drawerState.isOpen} onClose={() => drawerState.mode === 'code' ? closeSourceEditor() : setDrawerState(s => ({...s, isOpen: false}))} title={drawerState.title} docked={drawerState.mode === 'code'}>
+            {drawerState.mode === 'config' ? (
+                <ProviderSettings config={providerConfig} onSave={config => {
+                    saveProviderConfig(config);
+                    setProviderConfig(config);
+                    setDrawerState(s => ({ ...s, isOpen: false }));
+                }} />
+            ) : drawerState.mode === 'moodboard' && currentSession?.moodboard ? (
+                <MoodboardPanel moodboard={currentSession.moodboard} />
+            ) : drawerState.mode === 'stats' && currentSession ? (
+                <SessionStatsPanel session={currentSession} />
+            ) : drawerState.mode === 'prompts' ? (
+                <PromptProfileManager store={promptProfiles} onChange={handlePromptProfilesChange} />
+            ) : drawerState.mode === 'library' ? (
+                <ComponentLibraryManager library={componentLibrary} onChange={handleLibraryChange} />
+            ) : drawerState.mode === 'code' && sourceDraft && editedVariation ? (
+                <SourceEditor
+                    value={sourceDraft.html}
+                    savedValue={editedVariation.html}
+                    isLocked={queueStates.has(editedVariation.id)}
+                    onChange={html => setSourceDraft({ variationId: editedVariation.id, html })}
+                    onSave={() => handleSaveSource(editedVariation.id, sourceDraft.html)}
+                    onRevert={() => setSourceDraft({ variationId: editedVariation.id, html: editedVariation.html })}
+                />
+            ) : null}
+        </SideDrawer>
+        <AlternativesModal isOpen={!!alternativesTarget} componentName={alternativesTarget?.name || ''} onClose={() => setAlternativesTarget(null)} onConfirm={hints => handleRequestAlternatives(alternativesTarget!.id, hints)} />
+        <PackageExportModal isOpen={isPackageExportOpen} moduleCount={currentSession ? getExportableModules(currentSession).length : 0} onClose={() => setIsPackageExportOpen(false)} onConfirm={handleExportPackage} />
         <RemixModal isOpen={!!activeRemixVariation} onClose={() => setActiveRemixVariation(null)} componentName={activeRemixVariation?.componentName || ''} initialAffordances={activeRemixVariation?.initialAffordances || []} onConfirm={handleConfirmRemix} />
         
         <input type="file" ref={globalImportRef} hidden accept=".json,.html" onChange={handleImport} />
-        <input type="file" ref={imageInputRef} hidden accept="image/*" onChange={e => {
-            const f = e.target.files?.[0]; if (!f) return;
-            const r = new FileReader(); r.onload = ev => setSelectedImage(ev.target?.result as string); r.readAsDataURL(f);
+        <input type="file" ref={imageInputRef} hidden multiple accept="image/*" onChange={e => {
+            addMoodboardImages(Array.from(e.target.files || []));
+            e.target.value = '';
         }} />
 
-        {focusedVariationId && currentSession && (
+        {focusedVariationId && focusedVariation && currentSession && (
             <FocusStage 
-                variation={currentSession.variations.find(v => v.id === focusedVariationId)!} 
-                component={currentSession.architecture.find(a => a.id === currentSession.variations.find(v => v.id === focusedVariationId)!.componentId)!} 
-                onClose={() => setFocusedVariationId(null)} 
-                onViewSource={() => setDrawerState({isOpen: true, mode: 'code', title: 'SOURCE', data: currentSession.variations.find(v => v.id === focusedVariationId)!.html})} 
+                variation={livePreview?.variationId === focusedVariationId ? { ...focusedVariation, html: livePreview.html } : focusedVariation} 
+                component={currentSession.architecture.find(a => a.id === focusedVariation.componentId)!} 
+                tokens={currentSession.tokens}
+                isSourceDocked={drawerState.isOpen && drawerState.mode === 'code'}
+                onClose={() => closeSourceEditor() && setFocusedVariationId(null)} 
+                onViewSource={() => openSourceEditor(focusedVariation)} 
+                onRestoreRevision={revisionId => handleRestoreRevision(focusedVariationId, revisionId)}
+                onAuditComplete={(report, html) => updateVariation(focusedVariationId, v => v.html === html ? { ...v, accessibility: report } : v)}
+                isRefining={queueStates.has(focusedVariationId)}
+                onRefineElement={(selection, instruction) => handleRefineElement(focusedVariationId, selection, instruction)}
+                snapshots={getModuleSnapshots(currentSession, focusedVariation.componentId)}
+                onCaptureSnapshot={() => runSnapshot(focusedVariation.id, focusedVariation.html, currentSession.tokens, [...(focusedVariation.revisions || [])].reverse().find(r => r.html === focusedVariation.html)?.id)}
             />
         )}
 
@@ -603,6 +1190,13 @@ STRICT STABILITY:
                                <button className="main-btn" onClick={() => handleApplyStyle(INITIAL_PLACEHOLDERS[placeholderIndex])}>RANDOM THEME</button>
                                <button className="main-btn ghost" onClick={() => globalImportRef.current?.click()}>IMPORT SESSION</button>
                             </div>
+                            <SessionLibrary 
+                                sessions={designSessions} 
+                                onOpen={handleOpenSession} 
+                                onDuplicate={handleDuplicateSession} 
+                                onRename={handleRenameSession} 
+                                onDelete={handleDeleteSession} 
+                            />
                         </div>
                     </div>
                 ) : (
@@ -613,48 +1207,122 @@ STRICT STABILITY:
                                     <div className="context-label">SYSTEM_CONFIG</div>
                                     <div className="token-actions-row">
                                         <input className="context-theme-input" value={currentSession.styleTheme} onChange={(e) => setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, styleTheme: e.target.value } : s))} />
-                                        <div className="synth-system-btn-group">
-                                            {isSystemSynthesizing && <span className="active-loader-tag pulse">BATCH_GENERATION_ACTIVE...</span>}
-                                            <button className="synth-system-btn" onClick={handleAddModule}>+ ADD MODULE</button>
-                                        </div>
+                                        {currentSession.stage === 'planning' ? (
+                                            <span className="active-loader-tag">STAGE // PLANNING</span>
+                                        ) : (
+                                            <div className="synth-system-btn-group">
+                                                {runningCount > 0 && <span className="active-loader-tag pulse">BATCH_GENERATION_ACTIVE // {runningCount} RUNNING</span>}
+                                                {!!queueSnapshot?.backoffUntil && <span className="active-loader-tag warn pulse">RATE_LIMITED // BACKING OFF</span>}
+                                                <div className="segmented-control" title="Max parallel generations">
+                                                    {[1, 2, 3, 4].map(n => (
+                                                        <button key={n} className={queueSnapshot?.concurrency === n || (!queueSnapshot && n === 2) ? 'active' : ''} onClick={() => queue.setConcurrency(n)}>{n}X</button>
+                                                    ))}
+                                                </div>
+                                                <button className="synth-system-btn" onClick={() => queueSnapshot?.paused ? queue.resume() : queue.pause()}>{queueSnapshot?.paused ? 'RESUME' : 'PAUSE'}</button>
+                                                <button className="synth-system-btn" onClick={handleAddModule}>+ ADD MODULE</button>
+                                                <button className={`synth-system-btn ${sessionView === 'screens' ? 'active' : ''}`} onClick={() => setSessionView(v => v === 'screens' ? 'modules' : 'screens')}>{sessionView === 'screens' ? 'BACK TO MODULES' : `SCREENS // ${currentSession.compositions.length}`}</button>
+                                            </div>
+                                        )}
                                     </div>
                                     <div className="context-label">DESIGN_STRATEGY</div>
                                     <textarea className="context-strategy-textarea" value={currentSession.designLanguage} onChange={(e) => setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, designLanguage: e.target.value } : s))} />
+                                    <div className="context-label">PROMPT_PROFILE</div>
+                                    <select className="settings-input prompt-profile-select" value={resolvePromptProfile(promptProfiles, currentSession.promptProfileId).id} onChange={e => setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, promptProfileId: e.target.value } : s))}>
+                                        {promptProfiles.profiles.map(p => <option key={p.id} value={p.id}>{p.name.toUpperCase()} // V{p.version}</option>)}
+                                    </select>
+                                    <TokenEditor tokens={currentSession.tokens} onChange={tokens => setDesignSessions(prev => prev.map(s => s.id === currentSession.id ? { ...s, tokens } : s))} />
                                 </div>
                             </div>
                         </div>
-                        <div className="artifact-grid">
-                            {currentSession.variations.map(v => {
-                                const arch = currentSession.architecture.find(a => a.id === v.componentId)!;
-                                return <ComponentCard 
-                                    key={v.id} 
-                                    variation={v} 
-                                    component={arch} 
-                                    onPreviewClick={() => setFocusedVariationId(v.id)} 
-                                    onUpdateAffordances={affs => handleUpdateAffordances(arch.id, affs)} 
-                                    onDelete={() => handleDeleteModule(arch.id)} 
-                                    onReroll={() => {
-                                        if (v.status === 'pending') handleMaterializeSpecific(v.id);
-                                        else setActiveRemixVariation({ id: v.id, componentName: arch.name, currentHtml: v.html, initialAffordances: arch.affordances });
-                                    }} 
-                                    isLoading={isLoading}
-                                />;
+                        {currentSession.stage === 'planning' ? (
+                            <ArchitecturePlanner 
+                                architecture={currentSession.architecture} 
+                                onUpdateModule={handleUpdateModule} 
+                                onMove={handleMoveModule} 
+                                onDrop={handleDeleteModule} 
+                                onAddModule={handleAddModule} 
+                                onSuggest={handleSuggestModules} 
+                                onStart={handleStartGeneration} 
+                            />
+                        ) : sessionView === 'screens' ? (
+                            <CompositionBuilder session={currentSession} layoutState={compositionId => queueStates.get(layoutJobId(compositionId))} onChange={handleCompositionsChange} onGenerateLayout={handleGenerateLayout} onCancelLayout={compositionId => queue.cancel(layoutJobId(compositionId))} />
+                        ) : (
+                            <div className="artifact-grid">
+                                {currentSession.architecture.map(arch => {
+                                    const v = getCanonicalVariation(currentSession, arch);
+                                    if (!v) return null;
+                                    const moduleVariations = getModuleVariations(currentSession, arch.id);
+                                    const isVariantsOpen = expandedVariantsId === arch.id && moduleVariations.length > 1;
+                                    return (
+                                        <React.Fragment key={arch.id}>
+                                            <ComponentCard 
+                                                variation={v} 
+                                                component={arch} 
+                                                tokens={currentSession.tokens}
+                                                onPreviewClick={() => setFocusedVariationId(v.id)} 
+                                                onUpdateAffordances={affs => handleUpdateAffordances(arch.id, affs)} 
+                                                onDelete={() => handleDeleteModule(arch.id)} 
+                                                onReroll={() => {
+                                                    if (v.status === 'pending' || v.status === 'error' || v.status === 'cancelled') handleMaterializeSpecific(v);
+                                                    else setActiveRemixVariation({ id: v.id, componentName: arch.name, currentHtml: v.html, initialAffordances: arch.affordances });
+                                                }} 
+                                                onRequestAlternatives={() => setAlternativesTarget(arch)}
+                                                onToggleVariants={() => setExpandedVariantsId(isVariantsOpen ? null : arch.id)}
+                                                variantCount={moduleVariations.length}
+                                                isVariantsOpen={isVariantsOpen}
+                                                queueState={queueStates.get(v.id)}
+                                                onCancel={() => queue.cancel(v.id)}
+                                                isVerifying={verifyingIds.has(v.id)}
+                                                onVerify={() => runVerification(v.id, v.html, arch.affordances, currentSession.tokens)}
+                                                onAutoRemix={() => handleAutoRemix(v, arch)}
+                                                isLoading={isLoading}
+                                                waitingOn={getUnsettledDependencies(currentSession, arch)}
+                                                staleDependencies={getStaleDependencies(currentSession, v)}
+                                            />
+                                            {isVariantsOpen && (
+                                                <VariantStrip 
+                                                    component={arch} 
+                                                    variations={moduleVariations} 
+                                                    canonicalId={v.id} 
+                                                    tokens={currentSession.tokens}
+                                                    onSetCanonical={id => handleSetCanonical(arch.id, id)} 
+                                                    onFocus={id => setFocusedVariationId(id)} 
+                                                    onDelete={handleDeleteVariation} 
+                                                />
+                                        )}
+                                    </React.Fragment>
+                                );
                             })}
                         </div>
+                        )}
                     </div>
                 )}
             </div>
             
-            <div className={`bottom-controls ${currentSession ? 'visible' : ''}`}>
+            <div className={`bottom-controls ${currentSession && currentSession.stage !== 'planning' ? 'visible' : ''}`}>
                  <div className="control-btns">
                     <button onClick={() => globalImportRef.current?.click()}><ArrowUpIcon /> IMPORT</button>
                     <button onClick={handleExport} className="export-btn"><DownloadIcon /> EXPORT STYLE GUIDE</button>
+                    <button onClick={() => setIsPackageExportOpen(true)} className="export-btn"><CodeIcon /> EXPORT PACKAGE</button>
                  </div>
             </div>
 
             <div className="floating-input-container">
-                <div className={`input-wrapper ${isLoading ? 'loading' : ''}`}>
-                    {selectedImage && <div className="img-chip"><img src={selectedImage} alt="seed" /><button onClick={() => setSelectedImage(null)}><XIcon /></button></div>}
+                <div className={`input-wrapper ${isLoading ? 'loading' : ''}`} onDragOver={e => e.preventDefault()} onDrop={e => {
+                    e.preventDefault();
+                    if (!isLoading) addMoodboardImages(Array.from(e.dataTransfer.files));
+                }}>
+                    {moodboardDraft.length > 0 && (
+                        <div className="moodboard-tray">
+                            {moodboardDraft.map(img => (
+                                <div key={img.id} className="img-chip" title={img.name}>
+                                    <img src={img.dataUrl} alt={img.name} />
+                                    <div className="token-swatch-row">{img.palette.slice(0, 4).map(c => <span key={c} className="token-swatch" style={{ background: c }} />)}</div>
+                                    <button onClick={() => setMoodboardDraft(prev => prev.filter(i => i.id !== img.id))}><XIcon /></button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                     {!isLoading ? (
                         <div style={{ display: 'flex', flex: 1, alignItems: 'center' }}>
                           <input 
@@ -663,10 +1331,10 @@ STRICT STABILITY:
                             onChange={e => setInputValue(e.target.value)} 
                             placeholder={INITIAL_PLACEHOLDERS[placeholderIndex]}
                             onPaste={e => {
-                              const item = e.clipboardData?.items[0];
-                              if (item?.type.includes('image')) {
-                                  const r = new FileReader(); r.onload = ev => setSelectedImage(ev.target?.result as string); r.readAsDataURL(item.getAsFile()!);
-                              }
+                              const files = Array.from(e.clipboardData.files).filter((f: File) => f.type.startsWith('image/'));
+                              if (!files.length) return;
+                              e.preventDefault();
+                              addMoodboardImages(files);
                           }} onKeyDown={e => {
                               if (e.key === 'Enter') handleApplyStyle(inputValue || INITIAL_PLACEHOLDERS[placeholderIndex]);
                           }} />
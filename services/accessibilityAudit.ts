@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AccessibilityReport, AuditCategory } from '../types';
+import { generateId } from '../utils';
+import { agentScript, awaitFrameMessage } from './frameAgent';
+
+export const AUDIT_CATEGORIES: { id: AuditCategory, label: string }[] = [
+  { id: 'contrast', label: 'Contrast' },
+  { id: 'name', label: 'Accessible names' },
+  { id: 'focus-order', label: 'Focus order' },
+  { id: 'aria', label: 'ARIA' },
+  { id: 'tap-target', label: 'Tap targets' },
+];
+
+/**
+ * Installed in the preview document as a frame agent (see frameAgent.ts) and
+ * answers audit requests from the parent. `canvas` is the backdrop color behind
+ * transparent pages.
+ */
+const auditAgent = (canvas: string) => {
+  type Rgba = [number, number, number, number];
+  const MAX_PER_CATEGORY = 25;
+
+  const parseColor = (value: string): Rgba | null => {
+    const m = value.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/);
+    if (!m) return null;
+    const alpha = m[4] === undefined ? 1 : m[4].endsWith('%') ? parseFloat(m[4]) / 100 : parseFloat(m[4]);
+    return [+m[1], +m[2], +m[3], alpha];
+  };
+
+  // Source-over compositing of `top` onto an opaque `bottom`
+  const blend = (top: Rgba, bottom: Rgba): Rgba => [
+    top[0] * top[3] + bottom[0] * (1 - top[3]),
+    top[1] * top[3] + bottom[1] * (1 - top[3]),
+    top[2] * top[3] + bottom[2] * (1 - top[3]),
+    1,
+  ];
+
+  const luminance = ([r, g, b]: Rgba) => {
+    const channel = (c: number) => {
+      const s = c / 255;
+      return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  };
+
+  const contrastRatio = (a: Rgba, b: Rgba) => {
+    const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+    return (hi + 0.05) / (lo + 0.05);
+  };
+
+  const hex = ([r, g, b]: Rgba) => `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+  const describe = (el: Element) => {
+    if (el === document.body) return '<body>';
+    const id = el.id ? `#${el.id}` : '';
+    const cls = typeof el.className === 'string' && el.className.trim() ? `.${el.className.trim().split(/\s+/).slice(0, 2).join('.')}` : '';
+    const text = (el.textContent || '').trim().replace(/\s+/g, ' ').slice(0, 30);
+    return `<${el.tagName.toLowerCase()}${id}${cls}>${text ? ` "${text}"` : ''}`;
+  };
+
+  const isVisible = (el: Element) => {
+    const style = getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && parseFloat(style.opacity) > 0.05 && rect.width > 0 && rect.height > 0;
+  };
+
+  const INTERACTIVE = 'a[href], button, input:not([type="hidden"]), select, textarea, summary, [role="button"], [role="link"], [role="checkbox"], [role="radio"], [role="switch"], [role="tab"], [role="menuitem"], [role="slider"], [role="option"], [tabindex]:not([tabindex="-1"])';
+  const FOCUSABLE = 'a[href], button:not([disabled]), input:not([type="hidden"]):not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [tabindex]:not([tabindex="-1"]), [contenteditable="true"]';
+
+  const VALID_ROLES = new Set(('alert alertdialog application article banner button cell checkbox columnheader combobox complementary contentinfo definition dialog directory document feed figure form grid gridcell group heading img link list listbox listitem log main marquee math menu menubar menuitem menuitemcheckbox menuitemradio meter navigation none note option presentation progressbar radio radiogroup region row rowgroup rowheader scrollbar search searchbox separator slider spinbutton status switch tab table tablist tabpanel term textbox timer toolbar tooltip tree treegrid treeitem').split(' '));
+  const VALID_ARIA = new Set(('activedescendant atomic autocomplete busy checked colcount colindex colspan controls current describedby description details disabled errormessage expanded flowto haspopup hidden invalid keyshortcuts label labelledby level live modal multiline multiselectable orientation owns placeholder posinset pressed readonly relevant required roledescription rowcount rowindex rowspan selected setsize sort valuemax valuemin valuenow valuetext').split(' '));
+
+  const accessibleName = (el: Element): string => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' ').trim();
+      if (text) return text;
+    }
+    const aria = el.getAttribute('aria-label')?.trim();
+    if (aria) return aria;
+    if (el instanceof HTMLInputElement || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) {
+      const labels = Array.from(el.labels || []).map(l => l.textContent || '').join(' ').trim();
+      if (labels) return labels;
+      if (el instanceof HTMLInputElement && ['submit', 'button', 'reset'].includes(el.type) && el.value) return el.value;
+    }
+    if (el instanceof HTMLImageElement) return el.alt.trim();
+    const text = (el.textContent || '').trim();
+    if (text) return text;
+    const img = el.querySelector('img[alt], svg[aria-label], svg title');
+    if (img) return (img.getAttribute('alt') || img.getAttribute('aria-label') || img.textContent || '').trim();
+    return el.getAttribute('title')?.trim() || '';
+  };
+
+  const audit = () => {
+    const findings: { category: string, severity: 'error' | 'warning', element: string, message: string }[] = [];
+    const counts: Record<string, number> = {};
+    const report = (category: string, severity: 'error' | 'warning', el: Element, message: string) => {
+      counts[category] = (counts[category] || 0) + 1;
+      if (counts[category] <= MAX_PER_CATEGORY) findings.push({ category, severity, element: describe(el), message });
+    };
+    const all = Array.from(document.body.querySelectorAll('*')).filter(el => !['SCRIPT', 'STYLE', 'TEMPLATE'].includes(el.tagName));
+    const backdrop = parseColor(canvas) || [5, 5, 5, 1];
+
+    // Contrast: every visible element that owns text, against its composited backdrop
+    for (const el of all) {
+      const ownsText = Array.from(el.childNodes).some(n => n.nodeType === Node.TEXT_NODE && (n.textContent || '').trim());
+      if (!ownsText || !isVisible(el)) continue;
+      const layers: Rgba[] = [];
+      let hasImage = false;
+      for (let node: Element | null = el; node; node = node.parentElement) {
+        const style = getComputedStyle(node);
+        if (style.backgroundImage && style.backgroundImage !== 'none') { hasImage = true; break; }
+        const bg = parseColor(style.backgroundColor);
+        if (bg && bg[3] > 0) layers.push(bg);
+        if (bg && bg[3] >= 1) break;
+      }
+      if (hasImage) {
+        report('contrast', 'warning', el, 'Text sits on a background image or gradient; contrast could not be computed.');
+        continue;
+      }
+      const background = layers.reverse().reduce((acc, layer) => blend(layer, acc), backdrop);
+      const fg = parseColor(getComputedStyle(el).color);
+      if (!fg) continue;
+      const foreground = blend(fg, background);
+      const ratio = contrastRatio(foreground, background);
+      const style = getComputedStyle(el);
+      const size = parseFloat(style.fontSize);
+      const large = size >= 24 || (size >= 18.66 && parseInt(style.fontWeight, 10) >= 700);
+      const required = large ? 3 : 4.5;
+      if (ratio < required) {
+        report('contrast', ratio < required - 1.5 ? 'error' : 'warning', el, `Contrast ${ratio.toFixed(2)}:1 (${hex(foreground)} on ${hex(background)}); needs ${required}:1 for ${large ? 'large' : 'body'} text.`);
+      }
+    }
+
+    // Accessible names
+    for (const el of Array.from(document.querySelectorAll(INTERACTIVE))) {
+      if (!isVisible(el)) continue;
+      if (!accessibleName(el)) report('name', 'error', el, 'Interactive element has no accessible name (text, aria-label, aria-labelledby or <label>).');
+      else if (el instanceof HTMLInputElement && !el.labels?.length && !el.getAttribute('aria-label') && !el.getAttribute('aria-labelledby') && el.placeholder) {
+        report('name', 'warning', el, 'Input relies on its placeholder as a label.');
+      }
+    }
+    for (const img of Array.from(document.querySelectorAll('img'))) {
+      if (!img.hasAttribute('alt')) report('name', 'error', img, 'Image has no alt attribute (use alt="" if decorative).');
+    }
+
+    // Focus order: positive tabindex first, then document order
+    const focusables = (Array.from(document.querySelectorAll(FOCUSABLE)) as HTMLElement[]).filter(isVisible);
+    const ordered = [
+      ...focusables.filter(el => el.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex),
+      ...focusables.filter(el => el.tabIndex <= 0),
+    ];
+    for (const el of focusables.filter(el => el.tabIndex > 0)) report('focus-order', 'warning', el, `Positive tabindex (${el.tabIndex}) overrides the natural focus order.`);
+    for (let i = 1; i < ordered.length; i++) {
+      const prev = ordered[i - 1].getBoundingClientRect();
+      const next = ordered[i].getBoundingClientRect();
+      // Moving to an element clearly above the previous one breaks the reading order
+      if (next.bottom < prev.top - 8) report('focus-order', 'warning', ordered[i], `Focus jumps upward from ${describe(ordered[i - 1])}; focus order diverges from visual order.`);
+    }
+    for (const el of all) {
+      // cursor is inherited; only the outermost pointer element counts
+      const pointer = getComputedStyle(el).cursor === 'pointer' && (!el.parentElement || getComputedStyle(el.parentElement).cursor !== 'pointer');
+      if ((el.hasAttribute('onclick') || pointer) && !el.matches(FOCUSABLE) && !el.closest(FOCUSABLE) && !el.querySelector(FOCUSABLE) && isVisible(el)) {
+        report('focus-order', 'error', el, 'Looks clickable but cannot be reached with the keyboard.');
+      }
+    }
+    if (!focusables.length && all.some(el => el.matches(INTERACTIVE))) {
+      report('focus-order', 'error', document.body, 'No keyboard path: nothing in the module can receive focus.');
+    }
+
+    // ARIA misuse
+    for (const el of all) {
+      const role = el.getAttribute('role');
+      if (role && !role.split(/\s+/).some(r => VALID_ROLES.has(r))) report('aria', 'error', el, `Unknown role "${role}".`);
+      for (const attr of Array.from(el.attributes)) {
+        if (!attr.name.startsWith('aria-')) continue;
+        if (!VALID_ARIA.has(attr.name.slice(5))) report('aria', 'warning', el, `Unknown attribute ${attr.name}.`);
+        if (['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant'].includes(attr.name)) {
+          const missing = attr.value.split(/\s+/).filter(id => id && !document.getElementById(id));
+          if (missing.length) report('aria', 'error', el, `${attr.name} references missing id(s): ${missing.join(', ')}.`);
+        }
+      }
+      if (el.getAttribute('aria-hidden') === 'true' && (el.matches(FOCUSABLE) || el.querySelector(FOCUSABLE))) {
+        report('aria', 'error', el, 'aria-hidden="true" hides focusable content from assistive technology.');
+      }
+      if (role && ['button', 'link', 'checkbox', 'switch', 'tab', 'menuitem', 'slider'].includes(role) && !el.matches(FOCUSABLE)) {
+        report('aria', 'error', el, `role="${role}" on an element that cannot receive focus.`);
+      }
+      if (el.matches('a[href], button') && el.parentElement?.closest('a[href], button')) {
+        report('aria', 'error', el, 'Interactive element nested inside another interactive element.');
+      }
+    }
+
+    // Tap targets: WCAG 2.2 minimum is 24px, comfortable touch targets are 44px
+    for (const el of Array.from(document.querySelectorAll(INTERACTIVE))) {
+      if (!isVisible(el)) continue;
+      const rect = el.getBoundingClientRect();
+      const min = Math.min(rect.width, rect.height);
+      if (min < 24) report('tap-target', 'error', el, `Target is ${Math.round(rect.width)}x${Math.round(rect.height)}px; minimum is 24x24px.`);
+      else if (min < 44) report('tap-target', 'warning', el, `Target is ${Math.round(rect.width)}x${Math.round(rect.height)}px; 44x44px is recommended for touch.`);
+    }
+
+    return {
+      auditedAt: Date.now(),
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      findings,
+      truncated: Object.values(counts).some(c => c > MAX_PER_CATEGORY),
+      focusOrder: ordered.map(describe),
+    };
+  };
+
+  window.addEventListener('message', event => {
+    if (event.source !== parent || event.data?.type !== 'usui-audit-request') return;
+    let result;
+    try {
+      result = { report: audit() };
+    } catch (e) {
+      result = { error: e instanceof Error ? e.message : String(e) };
+    }
+    parent.postMessage({ type: 'usui-audit', nonce: event.data.nonce, ...result }, '*');
+  });
+};
+
+/** Script tag that lets a preview document answer `requestAccessibilityAudit`. */
+export const auditAgentScript = (canvas = '#050505') =>
+  agentScript(auditAgent, canvas);
+
+const AUDIT_TIMEOUT_MS = 5000;
+
+/** Audits the rendered DOM of a preview iframe that includes `auditAgentScript`. */
+export const requestAccessibilityAudit = (iframe: HTMLIFrameElement): Promise<AccessibilityReport> => {
+  const target = iframe.contentWindow;
+  if (!target) return Promise.reject(new Error('Preview is not loaded.'));
+  const nonce = generateId();
+  const answer = awaitFrameMessage<{ report?: AccessibilityReport, error?: string }>(() => target, nonce, AUDIT_TIMEOUT_MS, 'Accessibility audit timed out.');
+  target.postMessage({ type: 'usui-audit-request', nonce }, '*');
+  return answer.then(({ report, error }) => {
+    if (error || !report) throw new Error(error || 'Accessibility audit returned no report.');
+    return report;
+  });
+};
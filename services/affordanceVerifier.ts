@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignTokens, VerificationCheck, VerificationReport } from '../types';
+import { FOCUS_PREVIEW_STYLE, PREVIEW_CSP } from '../constants';
+import { tokensStyleTag } from './designTokens';
+import { runInHiddenFrame } from './frameAgent';
+
+export type CheckId = 'focus-ring' | 'close-on-esc' | 'hover-transform' | 'active-state' | 'no-transition-all';
+
+interface CheckDefinition {
+  id: CheckId;
+  label: string;
+  // Affordances this check verifies; checks without a matcher run for every module
+  matches?: RegExp;
+}
+
+export const AFFORDANCE_CHECKS: CheckDefinition[] = [
+  { id: 'focus-ring', label: 'Focus ring present', matches: /focus/i },
+  { id: 'close-on-esc', label: 'Escape closes overlay', matches: /\besc(ape)?\b/i },
+  { id: 'hover-transform', label: 'Hover changes transform', matches: /hover/i },
+  { id: 'active-state', label: 'Active state changes appearance', matches: /active state|press|depress/i },
+  { id: 'no-transition-all', label: '"transition: all" absent' },
+];
+
+interface ProbeResult {
+  id: CheckId;
+  passed: boolean;
+  detail: string;
+}
+
+/** Runs inside the sandboxed preview document as a frame agent (see frameAgent.ts). */
+const probe = (nonce: string, checkIds: string[]) => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const styleRules = (): CSSStyleRule[] => {
+    const out: CSSStyleRule[] = [];
+    const walk = (rules: CSSRuleList) => {
+      for (const rule of Array.from(rules)) {
+        if (rule instanceof CSSStyleRule) out.push(rule);
+        else if ('cssRules' in rule) walk((rule as CSSGroupingRule).cssRules);
+      }
+    };
+    for (const sheet of Array.from(document.styleSheets)) {
+      try { walk(sheet.cssRules); } catch { /* cross-origin sheet */ }
+    }
+    return out;
+  };
+
+  const isVisible = (el: Element) => {
+    if (!el.isConnected) return false;
+    const style = getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && parseFloat(style.opacity) > 0.05 && rect.width > 0 && rect.height > 0;
+  };
+
+  const focusSnapshot = (el: Element) => {
+    const s = getComputedStyle(el);
+    return [s.outlineStyle, s.outlineWidth, s.outlineColor, s.boxShadow, s.borderColor, s.backgroundColor].join('|');
+  };
+
+  const checks: Record<string, () => Promise<{ passed: boolean, detail: string }>> = {
+    'focus-ring': async () => {
+      const focusables = Array.from(document.querySelectorAll('a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])')).filter(isVisible).slice(0, 12) as HTMLElement[];
+      if (!focusables.length) return { passed: false, detail: 'No visible focusable elements.' };
+      const missing: string[] = [];
+      for (const el of focusables) {
+        const before = focusSnapshot(el);
+        el.focus();
+        await wait(50);
+        const after = focusSnapshot(el);
+        const outline = getComputedStyle(el).outlineStyle;
+        if (before === after && outline === 'none') missing.push(`<${el.tagName.toLowerCase()}>${(el.textContent || '').trim().slice(0, 24)}`);
+        el.blur();
+      }
+      return missing.length
+        ? { passed: false, detail: `${missing.length}/${focusables.length} focusable elements show no focus indicator: ${missing.join(', ')}` }
+        : { passed: true, detail: `${focusables.length} focusable elements show a focus indicator.` };
+    },
+
+    'close-on-esc': async () => {
+      const overlaySelector = 'dialog, [role="dialog"], [role="alertdialog"], [aria-modal="true"], [class*="modal"], [class*="dialog"], [class*="overlay"]';
+      let overlay = Array.from(document.querySelectorAll(overlaySelector)).find(isVisible);
+      if (!overlay) {
+        const trigger = Array.from(document.querySelectorAll('button, [role="button"], a')).find(b => /open|show|launch|view|modal|dialog/i.test(`${b.textContent} ${b.getAttribute('aria-label') || ''}`)) as HTMLElement | undefined;
+        trigger?.click();
+        await wait(500);
+        overlay = Array.from(document.querySelectorAll(overlaySelector)).find(isVisible);
+      }
+      if (!overlay) return { passed: false, detail: 'No visible overlay found (looked for dialog roles and modal/overlay classes).' };
+      const esc = () => new KeyboardEvent('keydown', { key: 'Escape', code: 'Escape', keyCode: 27, bubbles: true, cancelable: true });
+      (document.activeElement || document.body).dispatchEvent(esc());
+      document.dispatchEvent(esc());
+      window.dispatchEvent(esc());
+      await wait(700);
+      const stillOpen = isVisible(overlay) && !(overlay instanceof HTMLDialogElement && !overlay.open) && overlay.getAttribute('aria-hidden') !== 'true';
+      return stillOpen
+        ? { passed: false, detail: 'Overlay is still visible after Escape.' }
+        : { passed: true, detail: 'Overlay closed after Escape.' };
+    },
+
+    'hover-transform': async () => {
+      const rules = styleRules().filter(r => r.selectorText.includes(':hover') && (r.style.transform || r.style.getPropertyValue('translate') || r.style.getPropertyValue('scale') || r.style.getPropertyValue('rotate')));
+      return rules.length
+        ? { passed: true, detail: `:hover transform declared on ${rules.map(r => r.selectorText).join(', ')}` }
+        : { passed: false, detail: 'No :hover rule changes transform.' };
+    },
+
+    'active-state': async () => {
+      const rules = styleRules().filter(r => r.selectorText.includes(':active') && r.style.length > 0);
+      return rules.length
+        ? { passed: true, detail: `:active styles declared on ${rules.map(r => r.selectorText).join(', ')}` }
+        : { passed: false, detail: 'No :active rule found.' };
+    },
+
+    'no-transition-all': async () => {
+      // The shorthand without a property (e.g. "transition: 0.2s") also expands to "all"
+      const offenders = styleRules().filter(r => {
+        const props = r.style.transitionProperty.split(',').map(p => p.trim());
+        const durations = r.style.transitionDuration.split(',').map(d => parseFloat(d) || 0);
+        return props.some((p, i) => p === 'all' && (durations[i % durations.length] || 0) > 0);
+      });
+      return offenders.length
+        ? { passed: false, detail: `"transition: all" used by ${offenders.map(r => r.selectorText).join(', ')}` }
+        : { passed: true, detail: 'All transitions list explicit properties.' };
+    },
+  };
+
+  const run = async () => {
+    if (document.readyState !== 'complete') await new Promise(resolve => window.addEventListener('load', resolve, { once: true }));
+    await wait(300); // Let entrance animations settle
+    const results = [];
+    for (const id of checkIds) {
+      try {
+        results.push({ id, ...(await checks[id]()) });
+      } catch (e) {
+        results.push({ id, passed: false, detail: `Probe error: ${e instanceof Error ? e.message : String(e)}` });
+      }
+    }
+    return results;
+  };
+
+  run().then(results => parent.postMessage({ type: 'usui-verification', nonce, results }, '*'));
+};
+
+const VERIFY_TIMEOUT_MS = 10000;
+
+/**
+ * Loads the module in a hidden, opaque-origin iframe and probes it with the
+ * checks that apply to its affordances. Resolves with a pass/fail report.
+ */
+export const verifyAffordances = async (html: string, affordances: string[], tokens?: DesignTokens): Promise<VerificationReport> => {
+  const applicable = AFFORDANCE_CHECKS.filter(c => !c.matches || affordances.some(a => c.matches!.test(a)));
+  // Probing moves focus into the iframe; hand it back afterwards
+  const previousFocus = document.activeElement as HTMLElement | null;
+
+  let results: ProbeResult[] | null = null;
+  let error: string | undefined;
+  try {
+    ({ results } = await runInHiddenFrame<{ results: ProbeResult[] }, [string[]]>(
+      `${PREVIEW_CSP}${tokensStyleTag(tokens)}${FOCUS_PREVIEW_STYLE}${html}`, probe, [applicable.map(c => c.id)],
+      { width: 800, height: 600, timeoutMs: VERIFY_TIMEOUT_MS, timeoutMessage: 'Verification timed out.' },
+    ));
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  } finally {
+    previousFocus?.focus?.();
+  }
+
+  const checks: VerificationCheck[] = applicable.map(def => {
+    const result = results?.find(r => r.id === def.id);
+    return {
+      id: def.id,
+      label: def.label,
+      affordance: def.matches ? affordances.find(a => def.matches!.test(a)) : undefined,
+      passed: !!result?.passed,
+      detail: result?.detail || error || 'No result.',
+    };
+  });
+  return { checkedAt: Date.now(), passed: checks.every(c => c.passed), checks };
+};
+
+export const failingChecksAsNotes = (report: VerificationReport): string =>
+  `Fix these failed affordance checks without changing anything else:\n${report.checks.filter(c => !c.passed).map(c => `- ${c.label}${c.affordance ? ` (${c.affordance})` : ''}: ${c.detail}`).join('\n')}`;
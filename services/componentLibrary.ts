@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignComponent } from '../types';
+import { CORE_COMPONENT_LIBRARY } from '../constants';
+import { slugify } from '../utils';
+
+export interface ComponentLibrary {
+  modules: DesignComponent[];
+  selectedIds: string[]; // Modules included when a new session is seeded
+}
+
+const LIBRARY_KEY = 'usui-component-library';
+const LIBRARY_FILE_KIND = 'usui-component-library';
+
+export const DEFAULT_COMPONENT_LIBRARY: ComponentLibrary = {
+  modules: CORE_COMPONENT_LIBRARY,
+  selectedIds: CORE_COMPONENT_LIBRARY.map(m => m.id),
+};
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/** Keeps only well-formed module definitions; ids are derived from the name when missing. */
+const normalizeModules = (raw: unknown): DesignComponent[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((m): m is Record<string, unknown> => !!m && typeof m === 'object' && isString(m.name) && !!m.name.trim())
+    .map(m => ({
+      id: isString(m.id) && m.id.trim() ? m.id.trim() : slugify(m.name as string),
+      name: (m.name as string).trim(),
+      category: isString(m.category) && m.category.trim() ? m.category.trim() : undefined,
+      description: isString(m.description) ? m.description : '',
+      affordances: Array.isArray(m.affordances) ? m.affordances.filter(isString).map(a => a.trim()).filter(Boolean) : [],
+    }));
+};
+
+export const loadComponentLibrary = (): ComponentLibrary => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_KEY);
+    if (!stored) return DEFAULT_COMPONENT_LIBRARY;
+    const parsed = JSON.parse(stored) as Partial<ComponentLibrary>;
+    const modules = normalizeModules(parsed.modules);
+    const selectedIds = Array.isArray(parsed.selectedIds) ? parsed.selectedIds.filter(id => modules.some(m => m.id === id)) : modules.map(m => m.id);
+    return { modules, selectedIds };
+  } catch {
+    return DEFAULT_COMPONENT_LIBRARY;
+  }
+};
+
+export const saveComponentLibrary = (library: ComponentLibrary) => {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+};
+
+/** Adds or replaces modules by id; merged modules are selected for seeding. */
+export const mergeModules = (library: ComponentLibrary, incoming: DesignComponent[]): ComponentLibrary => {
+  const byId = new Map(library.modules.map(m => [m.id, m]));
+  incoming.forEach(m => byId.set(m.id, m));
+  return {
+    modules: [...byId.values()],
+    selectedIds: [...new Set([...library.selectedIds, ...incoming.map(m => m.id)])],
+  };
+};
+
+export const serializeLibrary = (modules: DesignComponent[]) =>
+  JSON.stringify({ kind: LIBRARY_FILE_KIND, version: 1, modules }, null, 2);
+
+/** Accepts an exported library file or a bare array of module definitions. */
+export const parseLibraryFile = (text: string): DesignComponent[] => {
+  const data = JSON.parse(text);
+  const modules = normalizeModules(Array.isArray(data) ? data : data?.modules);
+  if (!modules.length) throw new Error('No module definitions found.');
+  return modules;
+};
+
+export const groupByCategory = (modules: DesignComponent[]) => {
+  const groups = new Map<string, DesignComponent[]>();
+  modules.forEach(m => {
+    const key = m.category || UNCATEGORIZED;
+    groups.set(key, [...(groups.get(key) || []), m]);
+  });
+  return [...groups.entries()].sort(([a], [b]) => a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b));
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComponentVariation, Composition, CompositionPlacement, CompositionSlot, DesignComponent, DesignSession, DesignTokens } from '../types';
+import { PREVIEW_CSP } from '../constants';
+import { generateId } from '../utils';
+import { isolateModuleHtml } from './packageExport';
+import { tokensPromptBlock, tokensStyleTag } from './designTokens';
+
+export const COMPOSITION_SLOTS: { id: CompositionSlot, label: string, hint: string }[] = [
+  { id: 'header', label: 'Header', hint: 'Navigation across the top of the screen' },
+  { id: 'aside', label: 'Sidebar', hint: 'Secondary column beside the main grid' },
+  { id: 'main', label: 'Main grid', hint: 'Cards and content in a responsive grid' },
+  { id: 'footer', label: 'Footer', hint: 'Closing band below the content' },
+  { id: 'overlay', label: 'Modal overlay', hint: 'Dialog layered above the page with a dimmed backdrop' },
+];
+
+const PLACEHOLDER_ATTRIBUTE = 'data-usui-slot';
+
+const placeholder = (p: CompositionPlacement) => `<div ${PLACEHOLDER_ATTRIBUTE}="${p.id}"></div>`;
+
+export interface ResolvedPlacement {
+  placement: CompositionPlacement;
+  variation: ComponentVariation;
+  component: DesignComponent;
+}
+
+/** Placements whose variation is complete; the rest are skipped when rendering. */
+export const resolvePlacements = (composition: Composition, session: DesignSession): ResolvedPlacement[] =>
+  composition.placements.flatMap(placement => {
+    const variation = session.variations.find(v => v.id === placement.variationId && v.status === 'complete' && v.html);
+    const component = variation && session.architecture.find(a => a.id === variation.componentId);
+    return variation && component ? [{ placement, variation, component }] : [];
+  });
+
+export const createComposition = (name: string): Composition => ({ id: generateId(), name, placements: [], timestamp: Date.now() });
+
+/** Moves or inserts `placement` before `beforeId`, or to the end of its slot. */
+export const placeInSlot = (composition: Composition, placement: CompositionPlacement, beforeId?: string): Composition => {
+  const rest = composition.placements.filter(p => p.id !== placement.id);
+  const index = beforeId ? rest.findIndex(p => p.id === beforeId) : -1;
+  const placements = index === -1 ? [...rest, placement] : [...rest.slice(0, index), placement, ...rest.slice(index)];
+  return { ...composition, placements, timestamp: Date.now() };
+};
+
+export const compositionHead = (tokens?: DesignTokens) =>
+  `${PREVIEW_CSP}<link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700;900&display=swap" rel="stylesheet">${tokensStyleTag(tokens)}<style>:root{color-scheme:dark;}body{margin:0;background:#050505;color:#fff;font-family:'Inter',system-ui,sans-serif;}*{box-sizing:border-box;}</style>`;
+
+/** The default glue: fixed grid areas, a responsive card grid in main, and a dismissible overlay. */
+const slotTemplate = (composition: Composition): string => {
+  const bySlot = (slot: CompositionSlot) => composition.placements.filter(p => p.slot === slot).map(placeholder).join('');
+  const hasAside = composition.placements.some(p => p.slot === 'aside');
+  const overlay = bySlot('overlay');
+  return `<style>
+.usui-page { min-height: 100vh; display: grid; grid-template-rows: auto 1fr auto; grid-template-columns: ${hasAside ? 'minmax(220px, 280px) minmax(0, 1fr)' : 'minmax(0, 1fr)'}; grid-template-areas: ${hasAside ? '"header header" "aside main" "footer footer"' : '"header" "main" "footer"'}; }
+.usui-header { grid-area: header; }
+.usui-aside { grid-area: aside; display: flex; flex-direction: column; gap: 16px; padding: 24px; border-right: 1px solid rgba(127, 127, 127, 0.2); }
+.usui-main { grid-area: main; display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 24px; padding: 24px; align-content: start; }
+.usui-footer { grid-area: footer; }
+.usui-overlay { position: fixed; inset: 0; z-index: 1000; display: flex; align-items: center; justify-content: center; padding: 24px; background: rgba(0, 0, 0, 0.6); }
+.usui-overlay[hidden] { display: none; }
+.usui-dialog { width: min(560px, 100%); max-height: 100%; overflow: auto; }
+@media (max-width: 720px) { .usui-page { grid-template-columns: minmax(0, 1fr); grid-template-areas: "header" "aside" "main" "footer"; } .usui-aside { border-right: none; } }
+</style>
+<div class="usui-page">
+<header class="usui-header">${bySlot('header')}</header>
+${hasAside ? `<aside class="usui-aside">${bySlot('aside')}</aside>` : ''}
+<main class="usui-main">${bySlot('main')}</main>
+<footer class="usui-footer">${bySlot('footer')}</footer>
+</div>
+${overlay ? `<div class="usui-overlay"><div class="usui-dialog" role="dialog" aria-modal="true">${overlay}</div></div>
+<script>document.querySelector('.usui-overlay').addEventListener('click', function (e) { if (e.target === e.currentTarget) e.currentTarget.hidden = true; });</script>` : ''}`;
+};
+
+/** Placements the model-written layout forgot; they are appended below the layout. */
+export const missingPlaceholders = (composition: Composition): CompositionPlacement[] => {
+  if (!composition.layoutHtml) return [];
+  const doc = new DOMParser().parseFromString(composition.layoutHtml, 'text/html');
+  return composition.placements.filter(p => !doc.querySelector(`[${PLACEHOLDER_ATTRIBUTE}="${p.id}"]`));
+};
+
+/** Renders a screen as one document: the layout with every module isolated inside its placeholder. */
+export const buildCompositionDocument = (composition: Composition, session: DesignSession, head: string): string => {
+  const doc = new DOMParser().parseFromString(composition.layoutHtml || slotTemplate(composition), 'text/html');
+  const unplaced: string[] = [];
+  resolvePlacements(composition, session).forEach(({ placement, variation }) => {
+    const fragment = isolateModuleHtml(variation.html, placement.id);
+    const target = doc.querySelector(`[${PLACEHOLDER_ATTRIBUTE}="${placement.id}"]`);
+    if (target) target.innerHTML = fragment;
+    else unplaced.push(fragment);
+  });
+  // Placeholders of removed or unfinished placements would leave gaps
+  doc.querySelectorAll(`[${PLACEHOLDER_ATTRIBUTE}]`).forEach(el => { if (!el.childNodes.length) el.remove(); });
+  if (unplaced.length) doc.body.insertAdjacentHTML('beforeend', `<div class="usui-unplaced" style="display:grid;gap:24px;padding:24px">${unplaced.join('')}</div>`);
+  doc.head.insertAdjacentHTML('afterbegin', head);
+  return `<!DOCTYPE html>${doc.documentElement.outerHTML}`;
+};
+
+/** Asks the model for the glue page around the placed modules, never the modules themselves. */
+export const buildLayoutPrompt = (composition: Composition, session: DesignSession): string => {
+  const placed = resolvePlacements(composition, session);
+  const slotLines = COMPOSITION_SLOTS
+    .filter(slot => placed.some(p => p.placement.slot === slot.id))
+    .map(slot => `- ${slot.id.toUpperCase()} (${slot.hint}): ${placed.filter(p => p.placement.slot === slot.id).map(p => `${placeholder(p.placement)} = "${p.component.name}" (${p.component.description})`).join('; ')}`);
+  return `Write the page layout ("glue") for a screen named "${composition.name}" that composes existing UI modules.
+THEME: "${session.styleTheme}"
+STRATEGY: ${session.designLanguage}
+${session.tokens ? tokensPromptBlock(session.tokens) : ''}
+MODULES BY SLOT, in order. Each module is rendered into its placeholder; do not recreate or restyle it:
+${slotLines.join('\n')}
+RULES: ONLY output code inside \`\`\`html blocks.
+- Output every placeholder above exactly once, empty, with its ${PLACEHOLDER_ATTRIBUTE} attribute unchanged.
+- Write the page structure and its CSS: landmarks, grid, spacing, section headings, backgrounds. Use the design tokens via var(--...).
+- Put OVERLAY modules in a fixed, centered dialog above the page with a dimmed backdrop.
+- Do not target the modules' own classes. No external assets. DO NOT use "transition: all".`;
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignTokens, TokenGroup } from '../types';
+import { DEFAULT_DESIGN_TOKENS } from '../constants';
+
+// CSS custom property prefix for each token group, e.g. colors.primary -> --color-primary
+export const TOKEN_GROUPS: { group: TokenGroup, label: string, prefix: string }[] = [
+  { group: 'colors', label: 'COLOR PALETTE', prefix: 'color' },
+  { group: 'fonts', label: 'FONT FAMILIES', prefix: 'font' },
+  { group: 'typeScale', label: 'TYPE SCALE', prefix: 'text' },
+  { group: 'spacing', label: 'SPACING', prefix: 'space' },
+  { group: 'radii', label: 'RADII', prefix: 'radius' },
+  { group: 'shadows', label: 'SHADOWS', prefix: 'shadow' },
+  { group: 'motion', label: 'MOTION DURATIONS', prefix: 'duration' },
+];
+
+const toKebab = (name: string) => name.trim().replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[^a-zA-Z0-9-]+/g, '-').toLowerCase();
+
+export const tokenVarName = (group: TokenGroup, name: string) =>
+  `--${TOKEN_GROUPS.find(g => g.group === group)!.prefix}-${toKebab(name)}`;
+
+export const buildTokensPrompt = (theme: string, strategy: string) => `Derive design tokens for a UI system.
+THEME: "${theme}"
+STRATEGY: ${strategy}
+Output ONLY a JSON object with string values: {"colors": {"background": "#hex", "surface": "#hex", "text": "#hex", "muted": "#hex", "primary": "#hex", "accent": "#hex", "error": "#hex"}, "fonts": {"body": "CSS font stack", "heading": "CSS font stack", "mono": "CSS font stack"}, "typeScale": {"xs": "rem", "sm": "rem", "md": "rem", "lg": "rem", "xl": "rem"}, "spacing": {"xs": "px", "sm": "px", "md": "px", "lg": "px", "xl": "px"}, "radii": {"none": "px", "sm": "px", "md": "px", "pill": "px"}, "shadows": {"sm": "box-shadow", "md": "box-shadow"}, "motion": {"fast": "ms", "base": "ms", "slow": "ms"}}.`;
+
+/**
+ * Coerces model output into a complete token set. Unknown groups and
+ * non-string values are dropped; missing groups fall back to the defaults.
+ */
+export const normalizeTokens = (raw: unknown): DesignTokens => {
+  const source = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  const result = {} as DesignTokens;
+  for (const { group } of TOKEN_GROUPS) {
+    const entries = Object.entries((source[group] as Record<string, unknown>) || {})
+      .filter((e): e is [string, string] => typeof e[1] === 'string' && e[1].trim() !== '');
+    result[group] = entries.length ? Object.fromEntries(entries) : { ...DEFAULT_DESIGN_TOKENS[group] };
+  }
+  return result;
+};
+
+export const tokenDeclarations = (tokens: DesignTokens): string[] =>
+  TOKEN_GROUPS.flatMap(({ group }) =>
+    Object.entries(tokens[group] || {}).map(([name, value]) => `${tokenVarName(group, name)}: ${value.replace(/[;{}<>]/g, '')};`)
+  );
+
+export const tokensToCss = (tokens: DesignTokens): string => `:root{${tokenDeclarations(tokens).join('')}}`;
+
+// Prepended to every preview srcDoc so generated modules resolve var(--token) references
+export const tokensStyleTag = (tokens?: DesignTokens): string =>
+  tokens ? `<style data-usui-tokens>${tokensToCss(tokens)}</style>` : '';
+
+export const tokensPromptBlock = (tokens: DesignTokens): string => {
+  const lines = TOKEN_GROUPS.flatMap(({ group }) =>
+    Object.entries(tokens[group] || {}).map(([name, value]) => `${tokenVarName(group, name)}: ${value}`)
+  );
+  return `DESIGN TOKENS (HARD CONSTRAINT): These CSS custom properties are already defined on :root. Use var(--...) for every color, font, font-size, spacing, radius, shadow and transition duration. Do NOT introduce raw values outside this set and do NOT redefine them.
+${lines.join('\n')}`;
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { agentScript } from './frameAgent';
+
+export interface ElementSelection {
+  selector: string; // Structural nth-of-type path from <body>, stable between the preview and the module source
+  label: string;
+  domPath: string[];
+  outerHtml: string; // As rendered, which may include changes made by the module's scripts
+  styles: Record<string, string>;
+  size: { width: number, height: number };
+}
+
+/**
+ * Installed in the focus preview. While enabled by the parent it highlights the
+ * hovered element and reports the clicked one instead of letting the page handle
+ * the click. A frame agent: see frameAgent.ts.
+ */
+const inspectAgent = () => {
+  const STYLE_PROPS = ['display', 'position', 'width', 'height', 'margin', 'padding', 'gap', 'color', 'background-color', 'font-family', 'font-size', 'font-weight', 'line-height', 'border', 'border-radius', 'box-shadow', 'opacity', 'transform', 'transition'];
+  const MAX_HTML = 12000;
+  let enabled = false;
+  let selected: Element | null = null;
+
+  const makeOverlay = (border: string) => {
+    const el = document.createElement('div');
+    el.setAttribute('aria-hidden', 'true');
+    el.style.cssText = `position:fixed;pointer-events:none;z-index:2147483647;box-sizing:border-box;display:none;border:${border};background:rgba(56,189,248,0.08);`;
+    // Outside <body>, so nth-of-type paths match the module source
+    document.documentElement.appendChild(el);
+    return el;
+  };
+  const hoverBox = makeOverlay('1px solid #38bdf8');
+  const selectedBox = makeOverlay('2px dashed #38bdf8');
+
+  const place = (box: HTMLElement, el: Element | null) => {
+    if (!enabled || !el || !el.isConnected) {
+      box.style.display = 'none';
+      return;
+    }
+    const rect = el.getBoundingClientRect();
+    Object.assign(box.style, { display: 'block', top: `${rect.top}px`, left: `${rect.left}px`, width: `${rect.width}px`, height: `${rect.height}px` });
+  };
+
+  const label = (el: Element) => {
+    const id = el.id ? `#${el.id}` : '';
+    const cls = typeof el.className === 'string' && el.className.trim() ? `.${el.className.trim().split(/\s+/).slice(0, 3).join('.')}` : '';
+    return `${el.tagName.toLowerCase()}${id}${cls}`;
+  };
+
+  const ancestry = (el: Element) => {
+    const chain: Element[] = [];
+    for (let node: Element | null = el; node && node !== document.body; node = node.parentElement) chain.unshift(node);
+    return chain;
+  };
+
+  const selectorFor = (el: Element) => ['body', ...ancestry(el).map(node => {
+    const siblings = Array.from(node.parentElement?.children || [node]).filter(c => c.tagName === node.tagName);
+    return `${node.tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(node) + 1})`;
+  })].join(' > ');
+
+  const inspectable = (target: EventTarget | null): target is Element =>
+    target instanceof Element && target !== document.body && target !== document.documentElement && document.body.contains(target);
+
+  const select = (el: Element) => {
+    selected = el;
+    place(selectedBox, el);
+    const style = getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    parent.postMessage({
+      type: 'usui-inspect-select',
+      selection: {
+        selector: selectorFor(el),
+        label: label(el),
+        domPath: ancestry(el).map(label),
+        outerHtml: el.outerHTML.slice(0, MAX_HTML),
+        styles: Object.fromEntries(STYLE_PROPS.map(p => [p, style.getPropertyValue(p)]).filter(([, v]) => v)),
+        size: { width: Math.round(rect.width), height: Math.round(rect.height) },
+      },
+    }, '*');
+  };
+
+  document.addEventListener('mousemove', e => { if (enabled) place(hoverBox, inspectable(e.target) ? e.target : null); }, true);
+  window.addEventListener('scroll', () => { place(selectedBox, selected); hoverBox.style.display = 'none'; }, true);
+
+  // Swallow the whole pointer sequence so widgets do not react while inspecting
+  ['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'click', 'dblclick'].forEach(type => {
+    window.addEventListener(type, e => {
+      if (!enabled) return;
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (type === 'click' && inspectable(e.target)) select(e.target);
+    }, true);
+  });
+
+  window.addEventListener('keydown', e => {
+    if (enabled && e.key === 'Escape') parent.postMessage({ type: 'usui-inspect-cancel' }, '*');
+  }, true);
+
+  window.addEventListener('message', event => {
+    if (event.source !== parent || event.data?.type !== 'usui-inspect-mode') return;
+    enabled = !!event.data.enabled;
+    if (!enabled) selected = null;
+    place(hoverBox, null);
+    place(selectedBox, selected);
+  });
+};
+
+/** Script tag that lets a preview document answer `setInspectMode`. */
+export const inspectAgentScript = () => agentScript(inspectAgent);
+
+export const setInspectMode = (iframe: HTMLIFrameElement, enabled: boolean) => {
+  iframe.contentWindow?.postMessage({ type: 'usui-inspect-mode', enabled }, '*');
+};
+
+const parseModule = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const locate = (doc: Document, selector: string) => {
+  try {
+    return doc.querySelector(selector);
+  } catch {
+    return null;
+  }
+};
+
+/** Outer HTML of the selected element as written in the module source, or null when a script created it. */
+export const findElementSource = (html: string, selector: string): string | null =>
+  locate(parseModule(html), selector)?.outerHTML ?? null;
+
+/**
+ * Replaces the element at `selector` with the single root element in `replacement`.
+ * When the element's markup occurs exactly once in the source it is swapped in place,
+ * so every byte outside the subtree is preserved; otherwise the module is re-serialized.
+ */
+export const applyElementPatch = (html: string, selector: string, replacement: string): string => {
+  const doc = parseModule(html);
+  const target = locate(doc, selector);
+  if (!target) throw new Error('The selected element is not part of the module source.');
+
+  const template = doc.createElement('template');
+  template.innerHTML = replacement.trim();
+  const roots = Array.from(template.content.childNodes).filter(n => n.nodeType === Node.ELEMENT_NODE || (n.nodeType === Node.TEXT_NODE && n.textContent!.trim()));
+  if (roots.length !== 1 || roots[0].nodeType !== Node.ELEMENT_NODE) {
+    throw new Error(`Expected exactly one replacement element, received ${roots.length} top-level nodes.`);
+  }
+  const root = roots[0] as Element;
+
+  const original = target.outerHTML;
+  const at = html.indexOf(original);
+  if (at !== -1 && html.indexOf(original, at + 1) === -1) {
+    return `${html.slice(0, at)}${root.outerHTML}${html.slice(at + original.length)}`;
+  }
+  target.replaceWith(root);
+  return `${Array.from(doc.head.children).map(el => el.outerHTML).join('')}${doc.body.innerHTML}`;
+};
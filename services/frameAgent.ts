@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateId } from '../utils';
+
+/**
+ * Frame agents are functions that run inside sandboxed preview documents. They
+ * are serialized with Function.prototype.toString and called with JSON
+ * arguments, so an agent must be self-contained: no imports, closures or
+ * references to anything outside its own body.
+ */
+
+/** Script tag that runs `agent` with `args` when the document loads. */
+export const agentScript = <A extends unknown[]>(agent: (...args: A) => void, ...args: A) =>
+  `<script>(${agent.toString()})(${args.map(arg => JSON.stringify(arg)).join(', ')});</script>`;
+
+/**
+ * Resolves with the data of the first message from `source` that carries
+ * `nonce`, or rejects with `timeoutMessage` after `timeoutMs`.
+ */
+export const awaitFrameMessage = <T>(source: () => Window | null, nonce: string, timeoutMs: number, timeoutMessage: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearTimeout(timeout);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== source() || event.data?.nonce !== nonce) return;
+      cleanup();
+      resolve(event.data);
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(timeoutMessage));
+    }, timeoutMs);
+    window.addEventListener('message', onMessage);
+  });
+
+export interface HiddenFrameOptions {
+  width: number;
+  height: number;
+  timeoutMs: number;
+  timeoutMessage: string;
+}
+
+/**
+ * Loads `documentHtml` in a hidden, opaque-origin iframe and runs `agent` in it
+ * with a fresh nonce followed by `args`. The agent answers once with
+ * `parent.postMessage({ nonce, ... }, '*')`; the frame is removed when that
+ * answer arrives or the timeout fires.
+ */
+export const runInHiddenFrame = <T, A extends unknown[]>(
+  documentHtml: string,
+  agent: (nonce: string, ...args: A) => void,
+  args: A,
+  { width, height, timeoutMs, timeoutMessage }: HiddenFrameOptions,
+): Promise<T> => {
+  const nonce = generateId();
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.tabIndex = -1;
+  iframe.style.cssText = `position:fixed;left:-10000px;top:0;width:${width}px;height:${height}px;opacity:0;pointer-events:none;border:none;`;
+  iframe.srcdoc = `${documentHtml}${agentScript(agent, nonce, ...args)}`;
+
+  const answer = awaitFrameMessage<T>(() => iframe.contentWindow, nonce, timeoutMs, timeoutMessage);
+  document.body.appendChild(iframe);
+  return answer.finally(() => iframe.remove());
+};
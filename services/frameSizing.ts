@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { agentScript } from './frameAgent';
+
+// Opaque-origin previews cannot be measured from outside, so they report their own height
+export const FRAME_SIZE_MESSAGE = 'usui-frame-size';
+export const MAX_FRAME_HEIGHT = 4000;
+
+/** Runs inside a preview as a frame agent (see frameAgent.ts). */
+const frameSizeAgent = (type: string) => {
+  let last = 0;
+  const post = () => {
+    const height = Math.ceil(Math.max(document.documentElement.scrollHeight, document.body ? document.body.scrollHeight : 0));
+    if (height === last) return;
+    last = height;
+    parent.postMessage({ type, height }, '*');
+  };
+  const observe = () => {
+    const observer = new ResizeObserver(post);
+    observer.observe(document.documentElement);
+    if (document.body) observer.observe(document.body);
+    post();
+  };
+  if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', observe);
+  else observe();
+  window.addEventListener('load', post);
+};
+
+export const frameSizeAgentScript = () => agentScript(frameSizeAgent, FRAME_SIZE_MESSAGE);
+
+/** Height to apply for a size report, or null when the message is not one. */
+export const readFrameSize = (data: unknown, minHeight: number): number | null => {
+  const message = data as { type?: unknown, height?: unknown } | null;
+  if (message?.type !== FRAME_SIZE_MESSAGE || typeof message.height !== 'number' || !Number.isFinite(message.height)) return null;
+  return Math.max(minHeight, Math.min(MAX_FRAME_HEIGHT, Math.ceil(message.height)));
+};
+
+/**
+ * Parent-side listener for standalone documents such as the exported style guide:
+ * resizes every `iframe[data-autosize]` that reports, never below its data-min-height.
+ */
+export const frameSizeListenerScript = () => `<script>
+window.addEventListener('message', function (e) {
+  if (!e.data || e.data.type !== ${JSON.stringify(FRAME_SIZE_MESSAGE)} || typeof e.data.height !== 'number') return;
+  document.querySelectorAll('iframe[data-autosize]').forEach(function (frame) {
+    if (frame.contentWindow !== e.source) return;
+    frame.style.height = Math.max(Number(frame.dataset.minHeight) || 0, Math.min(${MAX_FRAME_HEIGHT}, Math.ceil(e.data.height))) + 'px';
+  });
+});
+</script>`;
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import type { ModelProvider, UsageListener } from './modelProvider';
+
+// Stream chunks each carry the running usage, so the last report holds the totals
+const reportUsage = (res: GenerateContentResponse, onUsage?: UsageListener) => {
+  if (res.usageMetadata) onUsage?.({ promptTokens: res.usageMetadata.promptTokenCount, responseTokens: res.usageMetadata.candidatesTokenCount });
+};
+
+export const createGeminiProvider = (apiKey: string): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+
+    async *streamText(model, prompt, signal, onUsage) {
+      const responseStream = await ai.models.generateContentStream({
+        model,
+        contents: [{ parts: [{ text: prompt }], role: 'user' }],
+        config: { abortSignal: signal },
+      });
+      // Aborting cancels the request; the check also covers a chunk that was already buffered
+      for await (const chunk of responseStream) {
+        signal?.throwIfAborted();
+        reportUsage(chunk, onUsage);
+        yield chunk.text || '';
+      }
+    },
+
+    async completeJson(model, prompt, onUsage) {
+      const res = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { responseMimeType: 'application/json' },
+      });
+      reportUsage(res, onUsage);
+      return res.text || '';
+    },
+
+    async describeImages(model, prompt, images, onUsage) {
+      const res = await ai.models.generateContent({
+        model,
+        contents: { parts: [...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })), { text: prompt }] },
+      });
+      reportUsage(res, onUsage);
+      return res.text || '';
+    },
+  };
+};
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type QueueJobState = 'queued' | 'running' | 'retrying';
+export type QueueOutcome = 'done' | 'failed' | 'cancelled';
+
+export interface QueueJobSnapshot {
+  id: string;
+  state: QueueJobState;
+  attempt: number;
+}
+
+export interface QueueSnapshot {
+  paused: boolean;
+  concurrency: number;
+  backoffUntil: number; // Epoch ms; 0 when the queue is not backing off
+  jobs: QueueJobSnapshot[];
+}
+
+export interface GenerationQueueOptions {
+  concurrency: number;
+  maxRetries?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  isRetryable?: (error: unknown) => boolean;
+  onChange?: (snapshot: QueueSnapshot) => void;
+  onSettled?: (id: string, outcome: QueueOutcome, error?: unknown) => void;
+}
+
+export interface GenerationQueue {
+  enqueue: (id: string, run: (signal: AbortSignal, attempt: number) => Promise<void>) => void;
+  cancel: (id: string) => void;
+  prioritize: (id: string) => void;
+  has: (id: string) => boolean;
+  pause: () => void;
+  resume: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getSnapshot: () => QueueSnapshot;
+}
+
+interface Job {
+  id: string;
+  run: (signal: AbortSignal, attempt: number) => Promise<void>; // attempt is 0 on the first run
+  state: QueueJobState;
+  attempt: number;
+  controller?: AbortController;
+}
+
+export const isRateLimitError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('429') || message.includes('RESOURCE_EXHAUSTED');
+};
+
+/**
+ * Runs generation jobs with bounded concurrency. Rate-limit failures put the
+ * whole queue into exponential backoff with jitter (the limit is shared by
+ * every job), and the failed job is retried first once the backoff expires.
+ */
+export const createGenerationQueue = ({
+  concurrency: initialConcurrency,
+  maxRetries = 3,
+  baseBackoffMs = 2000,
+  maxBackoffMs = 30000,
+  isRetryable = isRateLimitError,
+  onChange,
+  onSettled,
+}: GenerationQueueOptions): GenerationQueue => {
+  const jobs: Job[] = [];
+  let concurrency = Math.max(1, initialConcurrency);
+  let paused = false;
+  let backoffUntil = 0;
+  let backoffTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const getSnapshot = (): QueueSnapshot => ({
+    paused,
+    concurrency,
+    backoffUntil,
+    jobs: jobs.map(({ id, state, attempt }) => ({ id, state, attempt })),
+  });
+
+  const emit = () => onChange?.(getSnapshot());
+
+  const settle = (job: Job, outcome: QueueOutcome, error?: unknown) => {
+    const index = jobs.indexOf(job);
+    if (index !== -1) jobs.splice(index, 1);
+    onSettled?.(job.id, outcome, error);
+  };
+
+  // Equal jitter: never retry sooner than half the exponential step
+  const backoffDelay = (attempt: number) => {
+    const cap = Math.min(maxBackoffMs, baseBackoffMs * 2 ** attempt);
+    return cap / 2 + Math.random() * (cap / 2);
+  };
+
+  const start = (job: Job) => {
+    const controller = new AbortController();
+    job.controller = controller;
+    job.state = 'running';
+
+    job.run(controller.signal, job.attempt)
+      .then(() => settle(job, controller.signal.aborted ? 'cancelled' : 'done'))
+      .catch(error => {
+        if (controller.signal.aborted) return settle(job, 'cancelled');
+        if (job.attempt < maxRetries && isRetryable(error)) {
+          job.state = 'retrying';
+          job.controller = undefined;
+          backoffUntil = Math.max(backoffUntil, Date.now() + backoffDelay(job.attempt));
+          job.attempt++;
+          return;
+        }
+        settle(job, 'failed', error);
+      })
+      .finally(() => {
+        pump();
+        emit();
+      });
+  };
+
+  const pump = () => {
+    if (paused) return;
+
+    const remaining = backoffUntil - Date.now();
+    if (remaining > 0) {
+      if (!backoffTimer) {
+        backoffTimer = setTimeout(() => {
+          backoffTimer = null;
+          pump();
+          emit();
+        }, remaining);
+      }
+      return;
+    }
+    backoffUntil = 0;
+
+    let running = jobs.filter(j => j.state === 'running').length;
+    // Retries go first so a rate-limited job is not starved by newer work
+    const waiting = [...jobs.filter(j => j.state === 'retrying'), ...jobs.filter(j => j.state === 'queued')];
+    for (const job of waiting) {
+      if (running >= concurrency) break;
+      start(job);
+      running++;
+    }
+  };
+
+  const update = (fn: () => void) => {
+    fn();
+    pump();
+    emit();
+  };
+
+  return {
+    enqueue: (id, run) => update(() => {
+      if (jobs.some(j => j.id === id)) return;
+      jobs.push({ id, run, state: 'queued', attempt: 0 });
+    }),
+
+    cancel: (id) => update(() => {
+      const job = jobs.find(j => j.id === id);
+      if (!job) return;
+      if (job.state === 'running') job.controller?.abort();
+      else settle(job, 'cancelled');
+    }),
+
+    prioritize: (id) => update(() => {
+      const index = jobs.findIndex(j => j.id === id && j.state === 'queued');
+      if (index > 0) jobs.unshift(...jobs.splice(index, 1));
+    }),
+
+    has: (id) => jobs.some(j => j.id === id),
+
+    pause: () => update(() => { paused = true; }),
+
+    resume: () => update(() => { paused = false; }),
+
+    setConcurrency: (next) => update(() => { concurrency = Math.max(1, next); }),
+
+    getSnapshot,
+  };
+};
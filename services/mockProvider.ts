@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ModelProvider } from './modelProvider';
+import { hashString, sleep } from '../utils';
+import { DEFAULT_DESIGN_TOKENS } from '../constants';
+
+export interface MockFixtures {
+  text: (prompt: string) => string;
+  json: (prompt: string) => string;
+  vision: (prompt: string) => string;
+}
+
+const MOCK_ARCHITECTURE = [
+  { id: 'mod-meter', name: 'Signal Meter', description: 'Segmented level indicator for live values.', affordances: ['Tabular numerals', 'Peak hold marker'] },
+  { id: 'mod-toggle', name: 'Mode Toggle', description: 'Binary switch for system modes.', affordances: ['Focus ring', 'Active state depression'] },
+  { id: 'mod-table', name: 'Data Ledger', description: 'Compact table for tabular records.', affordances: ['Row hover highlight', 'Sticky header'] },
+  { id: 'mod-toast', name: 'Notice Toast', description: 'Transient confirmation message.', affordances: ['Close-on-ESC', 'Entrance fade'] },
+];
+
+const MOCK_MOODBOARD_ANALYSIS = {
+  theme: 'Offline Mock Theme',
+  strategy: 'Deterministic fixture output for development without a model backend.',
+  typography: ['Condensed grotesk headings', 'Monospaced data'],
+  texture: ['Matte surfaces', 'Hairline rules'],
+  mood: ['Calm', 'Technical'],
+};
+
+const mockTokens = (prompt: string) => {
+  const hue = hashString(prompt) % 360;
+  return JSON.stringify({
+    ...DEFAULT_DESIGN_TOKENS,
+    colors: { ...DEFAULT_DESIGN_TOKENS.colors, primary: `hsl(${hue} 70% 60%)`, accent: `hsl(${(hue + 150) % 360} 70% 55%)` },
+  });
+};
+
+// Rough 4-characters-per-token estimate so usage panels have numbers offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  text: (prompt) => {
+    const name = prompt.match(/for: "([^"]+)"/)?.[1] || 'Mock Module';
+    const hue = hashString(prompt) % 360;
+    return `\`\`\`html
+<style>
+  .mock-module { border: 1px solid hsl(${hue} 70% 60%); padding: 24px 32px; font-family: 'Inter', system-ui, sans-serif; color: #fff; background: #0a0a0a; }
+  .mock-module button { background: hsl(${hue} 70% 60%); color: #000; border: none; padding: 8px 16px; font-weight: 700; cursor: pointer; transition: opacity 0.2s; }
+  .mock-module button:hover { opacity: 0.8; }
+  .mock-module button:focus-visible { outline: 2px solid #fff; outline-offset: 2px; }
+</style>
+<div class="mock-module">
+  <p>${name.toUpperCase()} // MOCK_${hue}</p>
+  <button type="button">Action</button>
+</div>
+\`\`\``;
+  },
+  json: (prompt) => /design tokens/i.test(prompt) ? mockTokens(prompt) : JSON.stringify(MOCK_ARCHITECTURE),
+  vision: (prompt) => /design tokens/i.test(prompt) ? mockTokens(prompt) : JSON.stringify(MOCK_MOODBOARD_ANALYSIS),
+};
+
+/**
+ * Deterministic offline backend for air-gapped machines and tests.
+ * Output depends only on the prompt; streaming is split into fixed-size chunks.
+ */
+export const createMockProvider = (fixtures: Partial<MockFixtures> = {}, chunkDelayMs = 30): ModelProvider => {
+  const resolved = { ...DEFAULT_MOCK_FIXTURES, ...fixtures };
+
+  return {
+    kind: 'mock',
+
+    async *streamText(_model, prompt, signal, onUsage) {
+      const text = resolved.text(prompt);
+      for (let i = 0; i < text.length; i += 64) {
+        if (chunkDelayMs) await sleep(chunkDelayMs);
+        signal?.throwIfAborted();
+        yield text.slice(i, i + 64);
+      }
+      onUsage?.({ promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(text) });
+    },
+
+    async completeJson(_model, prompt, onUsage) {
+      const text = resolved.json(prompt);
+      onUsage?.({ promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(text) });
+      return text;
+    },
+
+    async describeImages(_model, prompt, _images, onUsage) {
+      const text = resolved.vision(prompt);
+      onUsage?.({ promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(text) });
+      return text;
+    },
+  };
+};
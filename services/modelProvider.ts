@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type ModelStage = 'vision' | 'architecture' | 'module';
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  apiKey: string;
+  baseUrl: string; // Only used by OpenAI-compatible servers
+  models: Record<ModelStage, string>;
+}
+
+// Token counts as reported by the backend; either side is missing when it reports none
+export interface TokenUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+}
+
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface ImageInput {
+  data: string; // Base64 payload without the data URL prefix
+  mimeType: string;
+}
+
+/**
+ * Backend-agnostic surface used by every generation stage.
+ * Implementations must throw an Error whose message contains the HTTP status
+ * (e.g. "429") so callers can recognise rate limiting, and must stop streaming
+ * with the signal's abort reason once `signal` is aborted. `onUsage` is called
+ * with the call's token usage once the backend reports it.
+ */
+export interface ModelProvider {
+  readonly kind: ProviderKind;
+  streamText(model: string, prompt: string, signal?: AbortSignal, onUsage?: UsageListener): AsyncIterable<string>;
+  completeJson(model: string, prompt: string, onUsage?: UsageListener): Promise<string>;
+  describeImages(model: string, prompt: string, images: ImageInput[], onUsage?: UsageListener): Promise<string>;
+}
+
+const PROVIDER_CONFIG_KEY = 'usui-provider-config';
+
+// OpenAI-compatible servers host whatever the user pulled, so their model names must be configured
+const KIND_DEFAULT_MODEL: Record<ProviderKind, string> = { gemini: 'gemini-flash-lite-latest', openai: '', mock: 'mock' };
+
+/** Per-stage models for a provider kind: the USUI_MODEL_* variables, else the kind's default. */
+export const defaultModels = (kind: ProviderKind): Record<ModelStage, string> => ({
+  vision: process.env.USUI_MODEL_VISION || KIND_DEFAULT_MODEL[kind],
+  architecture: process.env.USUI_MODEL_ARCHITECTURE || KIND_DEFAULT_MODEL[kind],
+  module: process.env.USUI_MODEL_MODULE || KIND_DEFAULT_MODEL[kind],
+});
+
+/** The key configured at build time for a provider kind, so switching kinds never carries one backend's key to another. */
+export const defaultApiKey = (kind: ProviderKind): string =>
+  kind === 'gemini' ? (process.env.API_KEY || '') : kind === 'openai' ? (process.env.USUI_OPENAI_API_KEY || '') : '';
+
+const DEFAULT_KIND: ProviderKind = (process.env.USUI_PROVIDER as ProviderKind) || (process.env.API_KEY ? 'gemini' : 'mock');
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  kind: DEFAULT_KIND,
+  apiKey: defaultApiKey(DEFAULT_KIND),
+  baseUrl: process.env.USUI_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  models: defaultModels(DEFAULT_KIND),
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_CONFIG_KEY);
+    if (!stored) return DEFAULT_PROVIDER_CONFIG;
+    const parsed = JSON.parse(stored) as Partial<ProviderConfig>;
+    return { ...DEFAULT_PROVIDER_CONFIG, ...parsed, models: { ...defaultModels(parsed.kind || DEFAULT_PROVIDER_CONFIG.kind), ...parsed.models } };
+  } catch {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(config));
+};
+
+export const createModelProvider = (config: ProviderConfig): ModelProvider => {
+  switch (config.kind) {
+    case 'gemini': return createGeminiProvider(config.apiKey);
+    case 'openai': return createOpenAiProvider(config.baseUrl, config.apiKey);
+    case 'mock': return createMockProvider();
+  }
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComponentVariation, DesignComponent, DesignSession } from '../types';
+import { getCanonicalVariation, hashString } from '../utils';
+
+export interface DependencyImplementation {
+  component: DesignComponent;
+  html: string;
+}
+
+/** Declared dependencies that exist in the plan, in declaration order. */
+export const getDependencies = (architecture: DesignComponent[], component: DesignComponent): DesignComponent[] =>
+  (component.dependsOn || []).flatMap(id => id === component.id ? [] : architecture.filter(a => a.id === id));
+
+/** True when making `componentId` depend on `dependencyId` would close a loop. */
+export const wouldCreateCycle = (architecture: DesignComponent[], componentId: string, dependencyId: string): boolean => {
+  const seen = new Set<string>();
+  const stack = [dependencyId];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === componentId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(architecture.find(a => a.id === id)?.dependsOn || []));
+  }
+  return false;
+};
+
+/**
+ * Drops repeated dependencies and those on missing modules, on the module
+ * itself or closing a cycle (the later edge in plan order loses). Returns the
+ * cleaned plan and a note per dropped dependency.
+ */
+export const sanitizeDependencies = (architecture: DesignComponent[]): { architecture: DesignComponent[], dropped: string[] } => {
+  const ids = new Set(architecture.map(a => a.id));
+  const dropped: string[] = [];
+  let cleaned = architecture.map(a => a.dependsOn ? { ...a, dependsOn: [] as string[] } : a);
+  architecture.forEach(a => a.dependsOn?.forEach(id => {
+    if (cleaned.find(c => c.id === a.id)!.dependsOn!.includes(id)) return;
+    const problem = !ids.has(id) ? 'a missing module' : id === a.id ? 'itself' : wouldCreateCycle(cleaned, a.id, id) ? `"${id}", which closes a cycle` : '';
+    if (problem) {
+      dropped.push(`Module "${a.id}" depended on ${problem}; the dependency has been dropped.`);
+      return;
+    }
+    cleaned = cleaned.map(c => c.id === a.id ? { ...c, dependsOn: [...c.dependsOn!, id] } : c);
+  }));
+  return { architecture: cleaned, dropped };
+};
+
+/** Plan order, except that every module comes after the modules it depends on. */
+export const orderByDependencies = (architecture: DesignComponent[]): DesignComponent[] => {
+  const ordered: DesignComponent[] = [];
+  const visited = new Set<string>(); // Marked on entry, so a cycle that slipped through falls back to plan order
+  const visit = (component: DesignComponent) => {
+    if (visited.has(component.id)) return;
+    visited.add(component.id);
+    getDependencies(architecture, component).forEach(visit);
+    ordered.push(component);
+  };
+  architecture.forEach(visit);
+  return ordered;
+};
+
+/**
+ * Dependencies whose canonical variation is still waiting or streaming. A
+ * module waits for these; failed, cancelled or missing dependencies do not
+ * block it, it is generated without their code instead. Edges inside a cycle
+ * are ignored so the modules on it cannot wait on each other forever.
+ */
+export const getUnsettledDependencies = (session: DesignSession, component: DesignComponent): DesignComponent[] =>
+  getDependencies(session.architecture, component).filter(dep => {
+    const status = getCanonicalVariation(session, dep)?.status;
+    return (status === 'pending' || status === 'streaming') && !wouldCreateCycle(session.architecture, component.id, dep.id);
+  });
+
+/** Completed canonical code of each dependency, as sent to the module prompt. */
+export const getDependencyImplementations = (session: DesignSession, component: DesignComponent): DependencyImplementation[] =>
+  getDependencies(session.architecture, component).flatMap(dep => {
+    const variation = getCanonicalVariation(session, dep);
+    return variation?.status === 'complete' && variation.html ? [{ component: dep, html: variation.html }] : [];
+  });
+
+// Recorded for a dependency that had no completed code, so its later completion still reads as a change
+const NO_CODE_FINGERPRINT = 0;
+
+const fingerprintCode = (variation: ComponentVariation | undefined) =>
+  variation?.status === 'complete' && variation.html ? hashString(variation.html) : NO_CODE_FINGERPRINT;
+
+/** Fingerprint of every declared dependency's canonical code, taken when a variation is generated. */
+export const fingerprintDependencies = (session: DesignSession, component: DesignComponent): Record<string, number> | undefined => {
+  const dependencies = getDependencies(session.architecture, component);
+  return dependencies.length ? Object.fromEntries(dependencies.map(dep => [dep.id, fingerprintCode(getCanonicalVariation(session, dep))])) : undefined;
+};
+
+/** Dependencies whose canonical code changed since the variation was generated against it. */
+export const getStaleDependencies = (session: DesignSession, variation: ComponentVariation): DesignComponent[] => {
+  if (variation.status !== 'complete' || !variation.dependencyFingerprints) return [];
+  return Object.entries(variation.dependencyFingerprints).flatMap(([id, fingerprint]) => {
+    const dep = session.architecture.find(a => a.id === id);
+    const current = dep && getCanonicalVariation(session, dep);
+    // A dependency being regenerated is judged once it completes
+    return dep && current?.status === 'complete' && fingerprintCode(current) !== fingerprint ? [dep] : [];
+  });
+};
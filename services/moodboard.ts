@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Moodboard, MoodboardAnalysis, MoodboardImage } from '../types';
+import { generateId, stripJsonFences } from '../utils';
+import { ImageInput } from './modelProvider';
+
+export const MAX_MOODBOARD_IMAGES = 6;
+
+const IMAGE_EDGE = 768; // Longest edge of the stored copy sent to the model
+const SAMPLE_EDGE = 64; // Longest edge of the copy the palette is sampled from
+const IMAGE_PALETTE_SIZE = 6;
+const MERGED_PALETTE_SIZE = 8;
+const MAX_CUES = 6;
+
+interface Swatch {
+  r: number;
+  g: number;
+  b: number;
+  weight: number;
+}
+
+type Channel = 'r' | 'g' | 'b';
+const CHANNELS: Channel[] = ['r', 'g', 'b'];
+
+const toHex = ({ r, g, b }: { r: number, g: number, b: number }) =>
+  `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+};
+
+const totalWeight = (box: Swatch[]) => box.reduce((sum, s) => sum + s.weight, 0);
+
+/**
+ * Weighted median cut. Always splits the box with the widest channel range at
+ * its weighted median, so the result depends only on the input order and values.
+ */
+const medianCut = (points: Swatch[], size: number): Swatch[] => {
+  const boxes: Swatch[][] = points.length ? [points] : [];
+  while (boxes.length < size) {
+    let target = -1;
+    let channel: Channel = 'r';
+    let widest = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      CHANNELS.forEach(ch => {
+        const values = box.map(s => s[ch]);
+        const range = Math.max(...values) - Math.min(...values);
+        if (range > widest) {
+          widest = range;
+          target = i;
+          channel = ch;
+        }
+      });
+    });
+    if (target === -1) break;
+
+    const box = [...boxes[target]].sort((a, b) => a[channel] - b[channel] || a.r - b.r || a.g - b.g || a.b - b.b);
+    const half = totalWeight(box) / 2;
+    let acc = 0;
+    let cut = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      acc += box[i].weight;
+      cut = i + 1;
+      if (acc >= half) break;
+    }
+    boxes.splice(target, 1, box.slice(0, cut), box.slice(cut));
+  }
+
+  return boxes
+    .map(box => {
+      const weight = totalWeight(box);
+      const mean = (ch: Channel) => box.reduce((sum, s) => sum + s[ch] * s.weight, 0) / weight;
+      return { r: mean('r'), g: mean('g'), b: mean('b'), weight };
+    })
+    .sort((a, b) => b.weight - a.weight || toHex(a).localeCompare(toHex(b)));
+};
+
+/** Quantizes RGBA pixel data to at most `size` hex colors, most common first. Transparent pixels are ignored. */
+export const quantizePalette = (pixels: Uint8ClampedArray, size = IMAGE_PALETTE_SIZE): string[] => {
+  // 5 bits per channel keeps the histogram small without visibly shifting colors
+  const histogram = new Map<number, Swatch>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    const key = ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+    const swatch = histogram.get(key);
+    if (swatch) {
+      swatch.r += pixels[i];
+      swatch.g += pixels[i + 1];
+      swatch.b += pixels[i + 2];
+      swatch.weight++;
+    } else {
+      histogram.set(key, { r: pixels[i], g: pixels[i + 1], b: pixels[i + 2], weight: 1 });
+    }
+  }
+  const points = [...histogram.keys()]
+    .sort((a, b) => a - b)
+    .map(key => {
+      const s = histogram.get(key)!;
+      return { r: s.r / s.weight, g: s.g / s.weight, b: s.b / s.weight, weight: s.weight };
+    });
+  return medianCut(points, size).map(toHex);
+};
+
+/** Combines per-image palettes into one; earlier swatches of each image weigh more. */
+export const mergePalettes = (palettes: string[][], size = MERGED_PALETTE_SIZE): string[] =>
+  medianCut(palettes.flatMap(palette => palette.map((hex, rank) => ({ ...fromHex(hex), weight: palette.length - rank }))), size).map(toHex);
+
+export const createMoodboard = (images: MoodboardImage[]): Moodboard => ({
+  images,
+  palette: mergePalettes(images.map(image => image.palette)),
+});
+
+export const moodboardImageInput = (image: MoodboardImage): ImageInput => ({
+  data: image.dataUrl.slice(image.dataUrl.indexOf(',') + 1),
+  mimeType: image.mimeType,
+});
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error || new Error('The image could not be read.'));
+  reader.readAsDataURL(file);
+});
+
+const decode = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('The image could not be decoded.'));
+  img.src = src;
+});
+
+const drawScaled = (img: HTMLImageElement, edge: number) => {
+  const scale = Math.min(1, edge / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+};
+
+/**
+ * Decodes a pasted, dropped or picked image, stores a downscaled copy and
+ * samples its palette. PNGs stay PNG to keep transparency; everything else
+ * is re-encoded as JPEG, so the recorded mime type always matches the data.
+ */
+export const readMoodboardImage = async (file: Blob, name = 'image'): Promise<MoodboardImage> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${name} is not an image.`);
+  const img = await decode(await readAsDataUrl(file));
+  const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  const stored = drawScaled(img, IMAGE_EDGE);
+  const sample = drawScaled(img, SAMPLE_EDGE);
+  return {
+    id: generateId(),
+    name,
+    dataUrl: stored.canvas.toDataURL(mimeType, 0.85),
+    mimeType,
+    palette: quantizePalette(sample.ctx.getImageData(0, 0, sample.canvas.width, sample.canvas.height).data),
+  };
+};
+
+const cues = (value: unknown) => Array.isArray(value)
+  ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map(v => v.trim()).slice(0, MAX_CUES)
+  : [];
+
+/** Reads the structured moodboard analysis. Throws when the answer is not usable JSON. */
+export const parseMoodboardAnalysis = (text: string): MoodboardAnalysis => {
+  const raw = JSON.parse(stripJsonFences(text)) as Record<string, unknown>;
+  if (!raw || typeof raw !== 'object' || typeof raw.theme !== 'string' || !raw.theme.trim() || typeof raw.strategy !== 'string' || !raw.strategy.trim()) {
+    throw new Error('The moodboard analysis is missing a theme or strategy.');
+  }
+  return {
+    theme: raw.theme.trim(),
+    strategy: raw.strategy.trim(),
+    typography: cues(raw.typography),
+    texture: cues(raw.texture),
+    mood: cues(raw.mood),
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ModelProvider, UsageListener } from './modelProvider';
+import { stripJsonFences } from '../utils';
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const reportUsage = (usage: ChatUsage | undefined, onUsage?: UsageListener) => {
+  if (usage) onUsage?.({ promptTokens: usage.prompt_tokens, responseTokens: usage.completion_tokens });
+};
+
+// Servers report failures mid-stream as {"error": {...}}; keep the status code in the message for rate-limit detection
+const streamError = (error: unknown) => {
+  const { code, message } = (error && typeof error === 'object' ? error : { message: String(error) }) as { code?: unknown, message?: unknown };
+  return new Error([code, typeof message === 'string' ? message : JSON.stringify(error)].filter(Boolean).join(' '));
+};
+
+/** One SSE line; anything that is not a JSON data event (comments, keep-alives, [DONE]) yields nothing. */
+export const parseEvent = (line: string): { error?: unknown, usage?: ChatUsage, choices?: { delta?: { content?: string } }[] } | null => {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice(5).trim();
+  if (!data || data === '[DONE]') return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn('Skipped malformed stream event', data);
+    return null;
+  }
+};
+
+type ChatContent = string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` endpoint
+ * (llama.cpp, Ollama, vLLM, LM Studio...). Streaming uses server-sent events.
+ */
+export const createOpenAiProvider = (baseUrl: string, apiKey: string): ModelProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (model: string, content: ChatContent, stream: boolean, signal?: AbortSignal) => {
+    // Local servers have no sensible default model
+    if (!model.trim()) throw new Error('No model name configured for the OpenAI-compatible provider; set one per stage in the provider settings.');
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      // include_usage adds a final chunk with the token counts to streamed responses
+      body: JSON.stringify({ model, stream, messages: [{ role: 'user', content }], ...(stream && { stream_options: { include_usage: true } }) }),
+    });
+    if (!res.ok) throw new Error(`${res.status} ${res.statusText}: ${await res.text()}`);
+    return res;
+  };
+
+  const complete = async (model: string, content: ChatContent, onUsage?: UsageListener): Promise<string> => {
+    const res = await post(model, content, false);
+    const json = await res.json();
+    if (json.error) throw streamError(json.error);
+    reportUsage(json.usage, onUsage);
+    return json.choices?.[0]?.message?.content || '';
+  };
+
+  return {
+    kind: 'openai',
+
+    async *streamText(model, prompt, signal, onUsage) {
+      const res = await post(model, prompt, true, signal);
+      if (!res.body) throw new Error('Streaming response has no body.');
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let done = false;
+      while (!done) {
+        const read = await reader.read();
+        done = read.done;
+        // The last event may arrive without a trailing newline; flush it once the body ends
+        buffer += done ? decoder.decode() : decoder.decode(read.value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+          const event = parseEvent(line.trim());
+          if (!event) continue;
+          if (event.error) throw streamError(event.error);
+          reportUsage(event.usage, onUsage);
+          yield event.choices?.[0]?.delta?.content || '';
+        }
+      }
+    },
+
+    async completeJson(model, prompt, onUsage) {
+      return stripJsonFences(await complete(model, prompt, onUsage));
+    },
+
+    async describeImages(model, prompt, images, onUsage) {
+      return complete(model, [
+        ...images.map(image => ({ type: 'image_url' as const, image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+        { type: 'text', text: prompt },
+      ], onUsage);
+    },
+  };
+};
@@ -0,0 +1,435 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignComponent, DesignSession } from '../types';
+import { getExportableModules, slugify } from '../utils';
+import { tokenDeclarations } from './designTokens';
+import { createZip, ZipEntry } from './zip';
+
+export type PackageTarget = 'react' | 'vue' | 'web-components';
+
+export const PACKAGE_TARGETS: { target: PackageTarget, label: string }[] = [
+  { target: 'react', label: 'REACT (TSX + CSS MODULE)' },
+  { target: 'vue', label: 'VUE (SFC)' },
+  { target: 'web-components', label: 'WEB COMPONENTS (SHADOW DOM)' },
+];
+
+interface InlineHandler {
+  index: number;
+  event: string;
+  code: string;
+}
+
+interface ModuleParts {
+  css: string;
+  script: string;
+  nodes: Node[];
+  handlers: InlineHandler[];
+  warnings: string[];
+}
+
+interface PackagedModule {
+  component: DesignComponent;
+  files: string[];
+  warnings: string[];
+}
+
+// --- Source splitting ---
+
+const splitModuleHtml = (html: string): ModuleParts => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const warnings: string[] = [];
+
+  const css = Array.from(doc.querySelectorAll('style')).map(s => {
+    s.remove();
+    return s.textContent || '';
+  }).join('\n');
+
+  const script = Array.from(doc.querySelectorAll('script')).map(s => {
+    s.remove();
+    if (s.src) warnings.push(`External script dropped: ${s.src}`);
+    return s.src ? '' : s.textContent || '';
+  }).filter(Boolean).join('\n');
+
+  doc.querySelectorAll('link[rel="stylesheet"]').forEach(l => {
+    warnings.push(`External stylesheet dropped: ${(l as HTMLLinkElement).href}`);
+    l.remove();
+  });
+
+  // Inline on* attributes cannot survive JSX or shadow roots; re-attach them as listeners at mount.
+  const handlers: InlineHandler[] = [];
+  doc.body.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes).filter(a => /^on[a-z]+$/i.test(a.name)).forEach(a => {
+      const index = handlers.length;
+      handlers.push({ index, event: a.name.slice(2).toLowerCase(), code: a.value });
+      el.removeAttribute(a.name);
+      el.setAttribute('data-usui-handler', String(index));
+    });
+  });
+
+  return { css, script, nodes: Array.from(doc.body.childNodes), handlers, warnings };
+};
+
+// Queries against `document` are rebased onto the component root so instances stay isolated.
+// Any string is a valid id but not a valid selector, so lookups by id go through CSS.escape
+const SCOPED_BY_ID = `const usuiById = (id) => root.querySelector('#' + CSS.escape(id));`;
+
+const rebaseScript = (code: string) => {
+  const rebased = code
+    .replace(/document\.addEventListener\(\s*(['"])DOMContentLoaded\1\s*,/g, '((run) => run())(')
+    .replace(/document\.querySelectorAll\(/g, 'root.querySelectorAll(')
+    .replace(/document\.querySelector\(/g, 'root.querySelector(')
+    .replace(/document\.getElementById\(/g, 'usuiById(')
+    .replace(/document\.body\b/g, 'root');
+  return rebased.includes('usuiById(') ? `${SCOPED_BY_ID}\n${rebased}` : rebased;
+};
+
+const buildMountBody = (parts: ModuleParts): string => {
+  const wiring = parts.handlers.map(h =>
+    `root.querySelectorAll('[data-usui-handler="${h.index}"]').forEach((el) => el.addEventListener('${h.event}', function (event) {\n  ${h.code}\n}));`
+  );
+  return [rebaseScript(parts.script).trim(), ...wiring].filter(Boolean).join('\n\n');
+};
+
+const indent = (code: string, depth: number) => code.split('\n').map(l => (l.trim() ? ' '.repeat(depth) + l : l)).join('\n');
+
+// --- CSS scoping ---
+
+const splitSelectors = (prelude: string): string[] => {
+  const out: string[] = [];
+  let depth = 0, current = '';
+  for (const ch of prelude) {
+    if (ch === '(' || ch === '[') depth++;
+    if (ch === ')' || ch === ']') depth--;
+    if (ch === ',' && depth === 0) { out.push(current.trim()); current = ''; }
+    else current += ch;
+  }
+  if (current.trim()) out.push(current.trim());
+  return out;
+};
+
+/**
+ * Rewrites every style rule selector with `mapSelector`, recursing into
+ * grouping at-rules. Keyframes, font faces and statements are kept verbatim.
+ */
+export const scopeCss = (css: string, mapSelector: (selector: string) => string): string => {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let out = '', i = 0;
+  while (i < source.length) {
+    const open = source.indexOf('{', i);
+    const semi = source.indexOf(';', i);
+    if (open === -1) { out += source.slice(i).trim(); break; }
+    if (semi !== -1 && semi < open) { out += source.slice(i, semi + 1).trim() + '\n'; i = semi + 1; continue; }
+
+    let depth = 1, close = open + 1;
+    while (close < source.length && depth > 0) {
+      if (source[close] === '{') depth++;
+      if (source[close] === '}') depth--;
+      close++;
+    }
+    const prelude = source.slice(i, open).trim();
+    const body = source.slice(open + 1, close - 1);
+    if (/^@(media|supports|container|layer)\b/.test(prelude)) {
+      out += `${prelude} {\n${indent(scopeCss(body, mapSelector), 2)}\n}\n`;
+    } else if (prelude.startsWith('@')) {
+      out += `${prelude} {${body}}\n`;
+    } else if (prelude) {
+      out += `${splitSelectors(prelude).map(mapSelector).join(', ')} {${body}}\n`;
+    }
+    i = close;
+  }
+  return out.trim();
+};
+
+const DOCUMENT_ROOT_SELECTOR = /^\s*(?:(?::root|html|body)(?![\w-])\s*)+/;
+
+interface HostScope {
+  host: string;
+  wrap: (selector: string) => string; // CSS modules use it to keep inner class names global
+  nestUnrooted: boolean; // Selectors that do not start at the document root become host descendants
+  attach?: (compound: string) => string; // Compound attached to the root, e.g. `body.dark`
+}
+
+/** Maps :root/html/body onto the component host according to `scope`. */
+const hostSelector = ({ host, wrap, nestUnrooted, attach }: HostScope) => (selector: string) => {
+  const descendant = (rest: string) => {
+    const combinator = rest.match(/^([>+~])\s*/);
+    return combinator ? `${host} ${combinator[1]} ${wrap(rest.slice(combinator[0].length))}` : `${host} ${wrap(rest)}`;
+  };
+  const match = selector.match(DOCUMENT_ROOT_SELECTOR);
+  if (!match) return nestUnrooted ? descendant(selector) : selector;
+  const rest = selector.slice(match[0].length).trim();
+  if (!rest) return host;
+  if (/^[:[.#]/.test(rest) && !/\s$/.test(match[0])) {
+    if (!attach) return `${host}${wrap(rest)}`;
+    const [, compound, tail] = rest.match(/^([^\s>+~]+)(.*)$/)!;
+    return `${attach(compound)}${tail}`;
+  }
+  return descendant(rest);
+};
+
+const identity = (selector: string) => selector;
+
+// --- HTML to JSX ---
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const BOOLEAN_ATTRIBUTES = new Set(['disabled', 'checked', 'selected', 'readonly', 'required', 'multiple', 'autofocus', 'hidden', 'open', 'novalidate', 'allowfullscreen']);
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className', for: 'htmlFor', tabindex: 'tabIndex', readonly: 'readOnly', maxlength: 'maxLength', minlength: 'minLength',
+  colspan: 'colSpan', rowspan: 'rowSpan', autocomplete: 'autoComplete', autofocus: 'autoFocus', contenteditable: 'contentEditable',
+  crossorigin: 'crossOrigin', enctype: 'encType', novalidate: 'noValidate', srcset: 'srcSet', spellcheck: 'spellCheck',
+  accesskey: 'accessKey', inputmode: 'inputMode', datetime: 'dateTime', allowfullscreen: 'allowFullScreen', frameborder: 'frameBorder',
+  value: 'defaultValue', checked: 'defaultChecked', 'xlink:href': 'xlinkHref', 'xmlns:xlink': 'xmlnsXlink', 'xml:space': 'xmlSpace',
+};
+
+const camelCase = (name: string) => name.replace(/-([a-z])/g, (_, c) => c.toUpperCase());
+
+const styleToJsx = (style: string): string => {
+  const entries = style.split(';').map(d => d.trim()).filter(Boolean).map(d => {
+    const colon = d.indexOf(':');
+    const prop = d.slice(0, colon).trim();
+    const value = d.slice(colon + 1).trim();
+    const key = prop.startsWith('--') ? JSON.stringify(prop) : camelCase(prop.toLowerCase());
+    return `${key}: ${JSON.stringify(value)}`;
+  });
+  return `{{ ${entries.join(', ')} }}`;
+};
+
+const attributeToJsx = (el: Element, attr: Attr): string => {
+  const isSvg = el.namespaceURI === 'http://www.w3.org/2000/svg';
+  let name = JSX_ATTRIBUTE_NAMES[attr.name] || attr.name;
+  if (isSvg && !name.startsWith('data-') && !name.startsWith('aria-')) name = camelCase(name);
+  // Only form controls take uncontrolled defaults; elsewhere value/checked are plain attributes
+  if (name === 'defaultValue' && !['input', 'textarea', 'select'].includes(el.localName)) name = 'value';
+  if (name === 'defaultChecked' && el.localName !== 'input') name = 'checked';
+  if (attr.name === 'style') return `style=${styleToJsx(attr.value)}`;
+  if (BOOLEAN_ATTRIBUTES.has(attr.name) && (attr.value === '' || attr.value === attr.name)) return name;
+  return /["\n{}]/.test(attr.value) ? `${name}={${JSON.stringify(attr.value)}}` : `${name}="${attr.value}"`;
+};
+
+const nodeToJsx = (node: Node, depth: number): string => {
+  const pad = ' '.repeat(depth);
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ');
+    if (!text.trim()) return '';
+    // JSX drops whitespace at line edges; keep spacing between inline siblings explicit
+    const body = /[{}<>]/.test(text) ? `{${JSON.stringify(text.trim())}}` : text.trim();
+    return pad + (text.startsWith(' ') && node.previousSibling ? "{' '}" : '') + body + (text.endsWith(' ') && node.nextSibling ? "{' '}" : '');
+  }
+  if (node.nodeType === Node.COMMENT_NODE) return `${pad}{/* ${(node.textContent || '').trim().replace(/\*\//g, '* /')} */}`;
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.localName;
+  const attrs = Array.from(el.attributes).map(a => attributeToJsx(el, a));
+  if (tag === 'textarea' && el.textContent) attrs.push(`defaultValue={${JSON.stringify(el.textContent)}}`);
+  const open = [tag, ...attrs].join(' ');
+
+  const children = tag === 'textarea' ? [] : Array.from(el.childNodes).map(c => nodeToJsx(c, depth + 2)).filter(Boolean);
+  if (VOID_ELEMENTS.has(tag) || children.length === 0) return `${pad}<${open} />`;
+  return `${pad}<${open}>\n${children.join('\n')}\n${pad}</${tag}>`;
+};
+
+// --- Targets ---
+
+const toPascalCase = (name: string) => {
+  const pascal = name.replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+  return /^[A-Z]/.test(pascal) ? pascal : `Module${pascal}`;
+};
+
+const docComment = (component: DesignComponent, prefix = ' *') => [
+  `${prefix} ${component.name} — ${component.description}`,
+  `${prefix}`,
+  `${prefix} Affordances:`,
+  ...component.affordances.map(a => `${prefix} - ${a}`),
+].join('\n');
+
+const serializeNodes = (nodes: Node[]) => nodes.map(n => n.nodeType === Node.ELEMENT_NODE ? (n as Element).outerHTML : n.nodeType === Node.TEXT_NODE ? n.textContent : '').join('').trim();
+
+const buildReactModule = (component: DesignComponent, name: string, parts: ModuleParts): ZipEntry[] => {
+  const mountBody = buildMountBody(parts);
+  const css = scopeCss(parts.css, hostSelector({ host: '.root', wrap: rest => `:global(${rest})`, nestUnrooted: true }));
+  const jsx = parts.nodes.map(n => nodeToJsx(n, 6)).filter(Boolean).join('\n');
+  const tsx = `import React${mountBody ? ', { useEffect, useRef }' : ''} from 'react';
+import styles from './${name}.module.css';${mountBody ? `\nimport { mount } from './${name}.behavior';` : ''}
+
+/**
+${docComment(component)}
+ */
+export default function ${name}() {${mountBody ? `
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (rootRef.current) mount(rootRef.current);
+  }, []);
+` : ''}
+  return (
+    <div${mountBody ? ' ref={rootRef}' : ''} className={styles.root}>
+${jsx}
+    </div>
+  );
+}
+`;
+  const entries: ZipEntry[] = [
+    { path: `${name}/${name}.tsx`, content: tsx },
+    { path: `${name}/${name}.module.css`, content: `.root {}\n\n${css}\n` },
+  ];
+  if (mountBody) {
+    // The ported script is plain JavaScript; the declaration file types its one entry point
+    entries.push(
+      { path: `${name}/${name}.behavior.js`, content: `/**\n * Behavior ported from the generated module's inline script.\n * @param {HTMLElement} root\n */\nexport function mount(root) {\n${indent(mountBody, 2)}\n}\n` },
+      { path: `${name}/${name}.behavior.d.ts`, content: `export function mount(root: HTMLElement): void;\n` },
+    );
+  }
+  return entries;
+};
+
+// The markup is static: v-pre keeps "{{ }}" in its text and "@"/":" attributes from being compiled as Vue syntax
+const buildVueModule = (component: DesignComponent, name: string, parts: ModuleParts): ZipEntry[] => {
+  const mountBody = buildMountBody(parts);
+  const css = scopeCss(parts.css, hostSelector({ host: '.usui-root', wrap: identity, nestUnrooted: false }));
+  const script = mountBody ? `<script setup>
+import { onMounted, ref } from 'vue';
+
+const rootRef = ref(null);
+
+onMounted(() => {
+  const root = rootRef.value;
+  if (!root) return;
+${indent(mountBody, 2)}
+});
+</script>
+` : '';
+  const sfc = `<!--
+${docComment(component, '')}
+-->
+${script}
+<template>
+  <div v-pre${mountBody ? ' ref="rootRef"' : ''} class="usui-root">
+${indent(serializeNodes(parts.nodes), 4)}
+  </div>
+</template>
+
+<style scoped>
+${css}
+</style>
+`;
+  return [{ path: `${name}.vue`, content: sfc }];
+};
+
+const escapeTemplateLiteral = (value: string) => value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+
+const buildWebComponent = (component: DesignComponent, name: string, tag: string, parts: ModuleParts): ZipEntry[] => {
+  const mountBody = buildMountBody(parts);
+  const css = scopeCss(parts.css, hostSelector({ host: ':host', wrap: identity, nestUnrooted: false, attach: compound => `:host(${compound})` }));
+  const js = `/**
+${docComment(component)}
+ */
+const template = document.createElement('template');
+template.innerHTML = \`<style>
+${escapeTemplateLiteral(css)}
+</style>
+${escapeTemplateLiteral(serializeNodes(parts.nodes))}\`;
+
+export class ${name}Element extends HTMLElement {
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' }).appendChild(template.content.cloneNode(true));
+  }
+${mountBody ? `
+  connectedCallback() {
+    if (this.mounted) return;
+    this.mounted = true;
+    const root = this.shadowRoot;
+${indent(mountBody, 4)}
+  }
+` : ''}}
+
+if (!customElements.get('${tag}')) customElements.define('${tag}', ${name}Element);
+`;
+  return [{ path: `${tag}.js`, content: js }];
+};
+
+const buildReadme = (session: DesignSession, target: PackageTarget, modules: PackagedModule[]) => {
+  const usage: Record<PackageTarget, string> = {
+    'react': "Import components from `index.ts`. Each module ships a scoped CSS module; `tokens.css` is imported once by the index.",
+    'vue': "Import components from `index.ts`. Each module is a single-file component with scoped styles; `tokens.css` is imported once by the index.",
+    'web-components': "Load `index.js` as an ES module and link `tokens.css` in the host page. Custom properties inherit into each shadow root.",
+  };
+  return `# ${session.styleTheme}
+
+${session.designLanguage}
+
+Target: **${PACKAGE_TARGETS.find(t => t.target === target)!.label}**
+
+${usage[target]}
+
+## Modules
+
+${modules.map(m => `### ${m.component.name}
+
+${m.component.description}
+
+Files: ${m.files.map(f => `\`${f}\``).join(', ')}
+
+Affordances:
+${m.component.affordances.map(a => `- ${a}`).join('\n') || '- None defined'}
+${m.warnings.length ? `\nPort notes:\n${m.warnings.map(w => `- ${w}`).join('\n')}\n` : ''}`).join('\n')}
+`;
+};
+
+/** Converts each completed canonical variation into framework source and zips the result. */
+export const buildComponentPackage = (session: DesignSession, target: PackageTarget): Uint8Array => {
+  const root = `usui-${slugify(session.styleTheme)}-${target}`;
+  const entries: ZipEntry[] = [];
+  const modules: PackagedModule[] = [];
+  const usedNames = new Set<string>();
+
+  for (const { component, variation } of getExportableModules(session)) {
+    let name = toPascalCase(component.name);
+    for (let n = 2; usedNames.has(name); n++) name = `${toPascalCase(component.name)}${n}`;
+    usedNames.add(name);
+
+    const parts = splitModuleHtml(variation.html);
+    const tag = `usui-${slugify(name.replace(/([a-z0-9])([A-Z])/g, '$1-$2'))}`;
+    const files = target === 'react' ? buildReactModule(component, name, parts)
+      : target === 'vue' ? buildVueModule(component, name, parts)
+      : buildWebComponent(component, name, tag, parts);
+
+    entries.push(...files);
+    modules.push({ component, files: files.map(f => f.path), warnings: parts.warnings });
+  }
+
+  const names = Array.from(usedNames);
+  const index = target === 'react'
+    ? { path: 'index.ts', content: `import './tokens.css';\n\n${names.map(n => `export { default as ${n} } from './${n}/${n}';`).join('\n')}\n` }
+    : target === 'vue'
+      ? { path: 'index.ts', content: `import './tokens.css';\n\n${names.map(n => `export { default as ${n} } from './${n}.vue';`).join('\n')}\n` }
+      : { path: 'index.js', content: `${modules.map(m => `import './${m.files[0]}';`).join('\n')}\n` };
+
+  entries.push(
+    index,
+    { path: 'tokens.css', content: `:root {\n${(session.tokens ? tokenDeclarations(session.tokens) : []).map(d => `  ${d}`).join('\n')}\n}\n` },
+    { path: 'README.md', content: buildReadme(session, target, modules) },
+  );
+
+  return createZip(entries.map(e => ({ ...e, path: `${root}/${e.path}` })));
+};
+
+/**
+ * Rewrites a module so several can share one document: styles are scoped to a
+ * `data-usui-module` host and scripts run against that host instead of `document`.
+ */
+export const isolateModuleHtml = (html: string, hostId: string): string => {
+  const parts = splitModuleHtml(html);
+  const host = `[data-usui-module="${hostId}"]`;
+  const css = scopeCss(parts.css, hostSelector({ host, wrap: identity, nestUnrooted: true }));
+  const mountBody = buildMountBody(parts);
+  return [
+    css ? `<style>\n${css}\n</style>` : '',
+    `<div data-usui-module="${hostId}">${serializeNodes(parts.nodes)}</div>`,
+    mountBody ? `<script>\n(function (root) {\n${indent(mountBody, 2)}\n})(document.querySelector('${host}'));\n</script>` : '',
+  ].join('');
+};
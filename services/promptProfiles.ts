@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PromptProfile, PromptProfileVersion, PromptTemplateKind } from '../types';
+import { generateId } from '../utils';
+
+export interface PromptPlaceholder {
+  key: string;
+  type: 'text' | 'list' | 'block'; // Lists are joined with commas; blocks are whole lines and vanish when empty
+  required?: boolean;
+  description: string;
+}
+
+export type PromptValues = Record<string, string | string[]>;
+
+export interface PromptProfileStore {
+  profiles: PromptProfile[]; // Built-in profiles first
+  defaultId: string; // Profile new sessions start with
+}
+
+export const PROMPT_TEMPLATE_KINDS: { id: PromptTemplateKind, label: string }[] = [
+  { id: 'module', label: 'Module' },
+  { id: 'architecture', label: 'Architecture' },
+];
+
+export const PROMPT_PLACEHOLDERS: Record<PromptTemplateKind, PromptPlaceholder[]> = {
+  module: [
+    { key: 'component.name', type: 'text', required: true, description: 'Module name' },
+    { key: 'component.description', type: 'text', description: 'Module purpose' },
+    { key: 'theme', type: 'text', description: 'Session theme' },
+    { key: 'strategy', type: 'text', description: 'Design strategy' },
+    { key: 'affordances', type: 'list', description: 'Affordance contract of the module' },
+    { key: 'tokens', type: 'block', description: 'Design token constraint, empty without tokens' },
+    { key: 'moodboard', type: 'block', description: 'Moodboard cues, empty without an analysis' },
+    { key: 'dependencies', type: 'block', description: 'Canonical code of the modules this one embeds; appended when the template leaves it out' },
+    { key: 'divergence', type: 'block', description: 'Direction of an alternative variation' },
+    { key: 'refinement', type: 'block', description: 'Remix or retry instructions' },
+    { key: 'currentHtml', type: 'block', description: 'Existing markup to update' },
+  ],
+  architecture: [
+    { key: 'theme', type: 'text', required: true, description: 'Session theme' },
+    { key: 'strategy', type: 'text', description: 'Design strategy' },
+    { key: 'moduleShape', type: 'text', required: true, description: 'JSON shape the planner parses' },
+  ],
+};
+
+const MAX_PROFILE_HISTORY = 20;
+const PROFILES_KEY = 'usui-prompt-profiles';
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const STANDARD_MODULE_TEMPLATE = `Generate a high-fidelity HTML/CSS component for: "{{component.name}}"
+PURPOSE: {{component.description}}
+THEME: "{{theme}}"
+STRATEGY: {{strategy}}
+{{tokens}}
+{{moodboard}}
+AFFORDANCES: {{affordances}}
+{{dependencies}}
+{{divergence}}
+{{refinement}}
+{{currentHtml}}
+RULES: ONLY output code inside \`\`\`html blocks. Responsive, polished CSS. No dead links.
+STRICT STABILITY:
+- DO NOT use "transition: all". Explicitly specify properties (e.g., opacity, color, transform).
+- NO layout resizing or floaty animations on load. Elements must have stable dimensions.
+- Use 'tabular-nums' or monospace fonts for dynamic data/numbers to prevent jitter.
+- Avoid animating width, height, margin, or padding.`;
+
+const PRODUCTION_MODULE_TEMPLATE = `Generate a production-ready HTML/CSS component for: "{{component.name}}"
+PURPOSE: {{component.description}}
+THEME: "{{theme}}"
+STRATEGY: {{strategy}}
+{{tokens}}
+{{moodboard}}
+AFFORDANCES: {{affordances}}
+{{dependencies}}
+{{divergence}}
+{{refinement}}
+{{currentHtml}}
+RULES: ONLY output code inside \`\`\`html blocks. Self-contained: no external scripts, stylesheets or images; use inline SVG for icons.
+PRODUCTION SAFETY:
+- Semantic elements first (button, nav, label, table). Every control has an accessible name and a visible :focus-visible style.
+- Interactive targets are at least 44x44px. Text meets WCAG AA contrast against its background.
+- Wrap every animation and transition in @media (prefers-reduced-motion: no-preference).
+- No inline event handler attributes. Scripts attach listeners with addEventListener and never touch storage, cookies or the network.
+- DO NOT use "transition: all". Never animate width, height, margin or padding. Elements keep stable dimensions on load.
+- Use 'tabular-nums' for dynamic data/numbers.`;
+
+const builtIn = (id: string, name: string, templates: Record<PromptTemplateKind, string>): PromptProfile =>
+  ({ id, name, builtIn: true, version: 1, templates, savedAt: 0, history: [] });
+
+export const STANDARD_PROMPT_PROFILE = builtIn('standard', 'Standard', {
+  module: STANDARD_MODULE_TEMPLATE,
+  architecture: 'Generate 4 niche UI modules for theme "{{theme}}". Output ONLY valid JSON array: {{moduleShape}}.',
+});
+
+export const BUILT_IN_PROMPT_PROFILES: PromptProfile[] = [
+  STANDARD_PROMPT_PROFILE,
+  builtIn('production-safe', 'Production-safe', {
+    module: PRODUCTION_MODULE_TEMPLATE,
+    architecture: 'Generate 4 niche UI modules for theme "{{theme}}" ({{strategy}}). Favor modules a production app would ship, and give each at least one accessibility affordance. Output ONLY valid JSON array: {{moduleShape}}.',
+  }),
+];
+
+/** Fills placeholders. Lines whose placeholders all resolve empty are dropped, so optional blocks leave no gaps. */
+export const renderPromptTemplate = (template: string, values: PromptValues): string =>
+  template.split('\n').flatMap(line => {
+    let hasPlaceholder = false;
+    const rendered = line.replace(PLACEHOLDER, (_, key: string) => {
+      hasPlaceholder = true;
+      const value = values[key];
+      return Array.isArray(value) ? value.join(', ') : value ?? '';
+    });
+    return hasPlaceholder && !rendered.trim() ? [] : [rendered];
+  }).join('\n');
+
+export const usesPlaceholder = (template: string, key: string): boolean =>
+  Array.from(template.matchAll(PLACEHOLDER)).some(([, k]) => k === key);
+
+/** Problems that would make a template unusable; empty when it can be saved. */
+export const validatePromptTemplate = (kind: PromptTemplateKind, template: string): string[] => {
+  const specs = PROMPT_PLACEHOLDERS[kind];
+  const issues: string[] = [];
+  const used = new Set<string>();
+  template.split('\n').forEach((line, i) => {
+    for (const [token, key] of line.matchAll(PLACEHOLDER)) {
+      used.add(key);
+      const spec = specs.find(s => s.key === key);
+      if (!spec) issues.push(`Line ${i + 1}: unknown placeholder {{${key}}}.`);
+      else if (spec.type === 'block' && line.trim() !== token) issues.push(`Line ${i + 1}: {{${key}}} is a block and must sit on its own line.`);
+    }
+  });
+  specs.filter(s => s.required && !used.has(s.key)).forEach(s => issues.push(`Missing required placeholder {{${s.key}}}.`));
+  return issues;
+};
+
+const isTemplates = (value: unknown): value is Record<PromptTemplateKind, string> =>
+  !!value && typeof value === 'object' && PROMPT_TEMPLATE_KINDS.every(k => typeof (value as Record<string, unknown>)[k.id] === 'string');
+
+const normalizeVersion = (raw: Record<string, unknown>): PromptProfileVersion | null =>
+  typeof raw.version === 'number' && isTemplates(raw.templates)
+    ? { version: raw.version, templates: raw.templates, savedAt: typeof raw.savedAt === 'number' ? raw.savedAt : 0 }
+    : null;
+
+/** Keeps only well-formed custom profiles; built-ins always come from the code. */
+const normalizeProfiles = (raw: unknown): PromptProfile[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(p => {
+    if (!p || typeof p !== 'object' || typeof p.id !== 'string' || typeof p.name !== 'string') return [];
+    if (BUILT_IN_PROMPT_PROFILES.some(b => b.id === p.id)) return [];
+    const current = normalizeVersion(p);
+    if (!current) return [];
+    const history = Array.isArray(p.history) ? p.history.map(normalizeVersion).filter((v: PromptProfileVersion | null): v is PromptProfileVersion => !!v) : [];
+    return [{ ...current, id: p.id, name: p.name, history }];
+  });
+};
+
+export const loadPromptProfiles = (): PromptProfileStore => {
+  const fallback = { profiles: BUILT_IN_PROMPT_PROFILES, defaultId: STANDARD_PROMPT_PROFILE.id };
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    if (!stored) return fallback;
+    const parsed = JSON.parse(stored) as { profiles?: unknown, defaultId?: unknown };
+    const profiles = [...BUILT_IN_PROMPT_PROFILES, ...normalizeProfiles(parsed.profiles)];
+    const defaultId = profiles.find(p => p.id === parsed.defaultId)?.id || STANDARD_PROMPT_PROFILE.id;
+    return { profiles, defaultId };
+  } catch {
+    return fallback;
+  }
+};
+
+export const savePromptProfiles = (store: PromptProfileStore) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify({ profiles: store.profiles.filter(p => !p.builtIn), defaultId: store.defaultId }));
+};
+
+/** The session's profile, else the store default, else Standard. */
+export const resolvePromptProfile = (store: PromptProfileStore, id?: string): PromptProfile =>
+  store.profiles.find(p => p.id === id) || store.profiles.find(p => p.id === store.defaultId) || STANDARD_PROMPT_PROFILE;
+
+/** Editable copy starting a fresh version line. */
+export const duplicatePromptProfile = (profile: PromptProfile): PromptProfile => ({
+  id: generateId(),
+  name: `${profile.name} copy`,
+  version: 1,
+  templates: { ...profile.templates },
+  savedAt: Date.now(),
+  history: [],
+});
+
+/** Records new templates as the next version; the replaced version moves into the history. */
+export const commitPromptProfileVersion = (profile: PromptProfile, name: string, templates: Record<PromptTemplateKind, string>): PromptProfile => {
+  const { version, templates: previous, savedAt } = profile;
+  return {
+    ...profile,
+    name,
+    version: version + 1,
+    templates,
+    savedAt: Date.now(),
+    history: [...profile.history, { version, templates: previous, savedAt }].slice(-MAX_PROFILE_HISTORY),
+  };
+};
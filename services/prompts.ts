@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignComponent, DesignSession, Moodboard, MoodboardAnalysis, PromptProfile } from '../types';
+import { tokensPromptBlock } from './designTokens';
+import { DependencyImplementation } from './moduleDependencies';
+import { renderPromptTemplate, STANDARD_PROMPT_PROFILE, usesPlaceholder } from './promptProfiles';
+import { createStreamingHtmlParser } from './streamingHtml';
+
+export const DEFAULT_THEME = 'Visual System';
+export const DEFAULT_STRATEGY = 'High-fidelity industrial modernism.';
+
+
+const MODULE_JSON_SHAPE = '[{"id": "mod-id", "name": "Name", "description": "Purpose", "affordances": ["Tag1", "Tag2"]}]';
+
+/** Pulls the html code block out of a complete model response, or strips a chatty preamble line. */
+export const extractCode = (raw: string): string => {
+  const parser = createStreamingHtmlParser();
+  parser.push(raw);
+  return parser.finish();
+};
+
+/** The vision model answers with the theme on its first line and the strategy on its second. */
+export const parseVisionResponse = (text: string, fallback: { theme: string, strategy: string }) => {
+  const [theme, strategy] = text.split('\n');
+  return { theme: theme || fallback.theme, strategy: strategy || fallback.strategy };
+};
+
+const paletteLine = (moodboard: Moodboard) =>
+  moodboard.palette.length ? `MEASURED PALETTE (most common first): ${moodboard.palette.join(', ')}` : '';
+
+export const buildMoodboardPrompt = (moodboard: Moodboard) =>
+  `Analyze this moodboard of ${moodboard.images.length} reference image(s) as the seed for one UI design system.
+${paletteLine(moodboard)}
+Output ONLY valid JSON: {"theme": "Short evocative theme name", "strategy": "One or two sentences of visual strategy", "typography": ["Type cue"], "texture": ["Surface or material cue"], "mood": ["Mood word"]}.`;
+
+/** Appended to the tokens prompt for moodboard seeds, so tokens are sampled from the images. */
+export const buildMoodboardTokensHint = (moodboard: Moodboard) =>
+  `Sample the palette, type and texture cues from these images.
+${paletteLine(moodboard)}`;
+
+const moodboardPromptBlock = ({ typography, texture, mood }: MoodboardAnalysis) =>
+  `MOODBOARD: typography ${typography.join(', ') || 'n/a'}; texture ${texture.join(', ') || 'n/a'}; mood ${mood.join(', ') || 'n/a'}`;
+
+export const buildArchitecturePrompt = (theme: string, strategy: string, profile: PromptProfile = STANDARD_PROMPT_PROFILE) =>
+  renderPromptTemplate(profile.templates.architecture, { theme, strategy, moduleShape: MODULE_JSON_SHAPE });
+
+export const buildSuggestModulesPrompt = (session: DesignSession, count: number) => {
+  const existing = session.architecture.map(a => a.name).join(', ');
+  return `Suggest ${count} additional niche UI modules for theme "${session.styleTheme}" (${session.designLanguage}). The plan already has: ${existing || 'nothing'}. Do not repeat them. Output ONLY valid JSON array: ${MODULE_JSON_SHAPE}.`;
+};
+
+const dependenciesPromptBlock = (dependencies: DependencyImplementation[]) =>
+  `REUSE: this module embeds the modules below. Their code is canonical: include their markup and CSS as given, keep their class names, and only style what is new.
+${dependencies.map(({ component, html }) => `"${component.name}" (${component.id}): \`\`\`html\n${html}\n\`\`\``).join('\n')}`;
+
+export interface VariationPromptOptions {
+  notes?: string;
+  currentHtml?: string;
+  divergenceHint?: string;
+  dependencies?: DependencyImplementation[]; // Completed code of the modules this one embeds
+}
+
+export const buildVariationPrompt = (session: DesignSession, comp: DesignComponent, { notes = '', currentHtml = '', divergenceHint, dependencies = [] }: VariationPromptOptions = {}, profile: PromptProfile = STANDARD_PROMPT_PROFILE) => {
+  const template = profile.templates.module;
+  const reuse = dependencies.length ? dependenciesPromptBlock(dependencies) : '';
+  const prompt = renderPromptTemplate(template, {
+    'component.name': comp.name,
+    'component.description': comp.description,
+    theme: session.styleTheme,
+    strategy: session.designLanguage,
+    affordances: comp.affordances,
+    tokens: session.tokens ? tokensPromptBlock(session.tokens) : '',
+    moodboard: session.moodboard?.analysis ? moodboardPromptBlock(session.moodboard.analysis) : '',
+    dependencies: reuse,
+    divergence: divergenceHint ? `DIVERGENCE: "${divergenceHint}" (this is an alternative exploration; differ clearly from other takes)` : '',
+    refinement: notes ? `REFINEMENT: "${notes}"` : '',
+    currentHtml: currentHtml ? `UPDATE EXISTING: \`\`\`html\n${currentHtml}\n\`\`\`` : '',
+  });
+  // Profiles saved before dependencies existed have no slot for them; the code must still reach the model
+  return reuse && !usesPlaceholder(template, 'dependencies') ? `${prompt}\n${reuse}` : prompt;
+};
+
+export interface ElementRefineTarget {
+  selector: string;
+  sourceHtml: string; // The whole module, sent as context only
+  targetHtml: string;
+  instruction: string;
+}
+
+export const buildElementRefinePrompt = (session: DesignSession, comp: DesignComponent, { selector, sourceHtml, targetHtml, instruction }: ElementRefineTarget) =>
+  `Refine ONE element of an existing HTML/CSS component for: "${comp.name}"
+THEME: "${session.styleTheme}"
+STRATEGY: ${session.designLanguage}
+${session.tokens ? tokensPromptBlock(session.tokens) : ''}
+FULL COMPONENT (context only, do not output it): \`\`\`html\n${sourceHtml}\n\`\`\`
+TARGET SELECTOR: ${selector}
+TARGET ELEMENT: \`\`\`html\n${targetHtml}\n\`\`\`
+INSTRUCTION: "${instruction}"
+RULES: ONLY output the replacement for the target element inside one \`\`\`html block. It must be a single root element that takes the target's place.
+- Do not output or change anything outside the target element.
+- Keep classes, ids and data attributes that the component's styles or scripts rely on unless the instruction requires otherwise.
+- Express new styling with inline style attributes or classes the component already defines. No <style> or <script> elements.
+- DO NOT use "transition: all".`;
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SecurityCategory, SecurityFinding, SecurityReport } from '../types';
+
+export const SECURITY_CATEGORIES: { id: SecurityCategory, label: string }[] = [
+  { id: 'network', label: 'External network' },
+  { id: 'navigation', label: 'Top navigation' },
+  { id: 'storage', label: 'Storage access' },
+];
+
+// Stylesheets the preview policy already allows; everything else external is removed or blocked
+const ALLOWED_STYLESHEET_HOSTS = ['fonts.googleapis.com'];
+
+const EMBEDDING_TAGS = ['iframe', 'frame', 'object', 'embed', 'portal'];
+const MEDIA_URL_ATTRIBUTES = ['src', 'srcset', 'poster'];
+
+// Script patterns per category; matched in inline scripts and on* handlers
+const SCRIPT_PATTERNS: Record<SecurityCategory, RegExp> = {
+  network: /\b(?:fetch|XMLHttpRequest|WebSocket|EventSource|sendBeacon|importScripts)\b|\bimport\s*\(/,
+  navigation: /\b(?:top|parent)\s*\.\s*location\b|\bwindow\s*\.\s*(?:top|parent|open)\b|\blocation\s*\.\s*(?:href\s*=|assign|replace)|\blocation\s*=[^=]/,
+  storage: /\b(?:localStorage|sessionStorage|indexedDB|caches)\b|\bdocument\s*\.\s*cookie\b/,
+};
+
+const SCRIPT_MESSAGES: Record<SecurityCategory, string> = {
+  network: 'Script makes network requests; the preview policy blocks them.',
+  navigation: 'Script navigates or reaches outside its frame; the sandbox blocks it.',
+  storage: 'Script uses browser storage, which throws in the opaque-origin preview.',
+};
+
+const EXTERNAL_CSS_URL = /url\(\s*['"]?\s*(?:https?:)?\/\//i;
+const EXTERNAL_CSS_IMPORT = /@import\s+(?:url\(\s*)?['"]?\s*(?:https?:)?\/\//i;
+
+const isExternal = (url: string) => /^\s*(?:https?:)?\/\//i.test(url);
+const isScriptUrl = (url: string) => /^\s*javascript:/i.test(url);
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url, 'https://invalid.local').host;
+  } catch {
+    return '';
+  }
+};
+
+/** `<tag attr="value">`, shortened for the report. */
+const describe = (el: Element, attribute?: string) => {
+  const value = attribute ? el.getAttribute(attribute) || '' : '';
+  const shown = value.length > 60 ? `${value.slice(0, 57)}...` : value;
+  return `<${el.tagName.toLowerCase()}${attribute ? ` ${attribute}="${shown}"` : ''}>`;
+};
+
+const FULL_DOCUMENT = /^\s*(?:<!--[\s\S]*?-->\s*)*<(?:!doctype|html|head|body)[\s>]/i;
+
+/**
+ * Strips what generated markup must never do inside a preview (load remote
+ * scripts, embed other documents, navigate the top window) and flags what the
+ * preview sandbox and content policy block at runtime but cannot safely be cut
+ * out of a script. Returns the input string untouched when nothing is removed.
+ */
+export const sanitizeHtml = (html: string): { html: string, report: SecurityReport } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const findings: SecurityFinding[] = [];
+  const removed = (category: SecurityCategory, element: string, message: string) => findings.push({ category, action: 'removed', element, message });
+  const flagged = (category: SecurityCategory, element: string, message: string) => findings.push({ category, action: 'flagged', element, message });
+
+  doc.querySelectorAll('script[src]').forEach(el => {
+    removed('network', describe(el, 'src'), 'Remote script removed.');
+    el.remove();
+  });
+  doc.querySelectorAll(EMBEDDING_TAGS.join(',')).forEach(el => {
+    removed('network', describe(el, el.hasAttribute('data') ? 'data' : 'src'), 'Embedded document removed.');
+    el.remove();
+  });
+  doc.querySelectorAll('base').forEach(el => {
+    removed('navigation', describe(el, 'href'), 'Base URL removed; it retargets every link.');
+    el.remove();
+  });
+  doc.querySelectorAll('meta[http-equiv]').forEach(el => {
+    if (el.getAttribute('http-equiv')!.toLowerCase() !== 'refresh') return;
+    removed('navigation', describe(el, 'content'), 'Meta refresh removed.');
+    el.remove();
+  });
+  doc.querySelectorAll('link[href]').forEach(el => {
+    const href = el.getAttribute('href')!;
+    const rel = (el.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+    if (!isExternal(href) || (rel.includes('stylesheet') && ALLOWED_STYLESHEET_HOSTS.includes(hostOf(href)))) return;
+    removed('network', describe(el, 'href'), 'External link element removed.');
+    el.remove();
+  });
+
+  doc.querySelectorAll('*').forEach(el => {
+    for (const attr of ['href', 'src', 'action', 'formaction']) {
+      const value = el.getAttribute(attr);
+      if (value === null) continue;
+      if (isScriptUrl(value)) {
+        removed('navigation', describe(el, attr), `javascript: URL removed from ${attr}.`);
+        el.removeAttribute(attr);
+      } else if ((attr === 'action' || attr === 'formaction') && isExternal(value)) {
+        removed('network', describe(el, attr), 'External form target removed.');
+        el.removeAttribute(attr);
+      }
+    }
+    if (el.hasAttribute('ping')) {
+      removed('network', describe(el, 'ping'), 'Link ping removed.');
+      el.removeAttribute('ping');
+    }
+    const target = el.getAttribute('target')?.toLowerCase();
+    if (target === '_top' || target === '_parent') {
+      removed('navigation', describe(el, 'target'), 'Link target that escapes the frame removed.');
+      el.removeAttribute('target');
+    }
+
+    MEDIA_URL_ATTRIBUTES.forEach(attr => {
+      const value = el.getAttribute(attr);
+      if (value && value.split(',').some(candidate => isExternal(candidate))) flagged('network', describe(el, attr), 'External asset; blocked by the preview policy.');
+    });
+    const style = el.getAttribute('style');
+    if (style && EXTERNAL_CSS_URL.test(style)) flagged('network', describe(el, 'style'), 'External CSS url(); blocked by the preview policy.');
+
+    Array.from(el.attributes).filter(a => a.name.startsWith('on')).forEach(a => {
+      (Object.keys(SCRIPT_PATTERNS) as SecurityCategory[])
+        .filter(category => SCRIPT_PATTERNS[category].test(a.value))
+        .forEach(category => flagged(category, describe(el, a.name), SCRIPT_MESSAGES[category]));
+    });
+  });
+
+  doc.querySelectorAll('style').forEach(el => {
+    const css = el.textContent || '';
+    if (EXTERNAL_CSS_IMPORT.test(css)) flagged('network', '<style> @import', 'External stylesheet import; blocked by the preview policy.');
+    else if (EXTERNAL_CSS_URL.test(css)) flagged('network', '<style> url()', 'External CSS url(); blocked by the preview policy.');
+  });
+  doc.querySelectorAll('script').forEach(el => {
+    const code = el.textContent || '';
+    (Object.keys(SCRIPT_PATTERNS) as SecurityCategory[])
+      .filter(category => SCRIPT_PATTERNS[category].test(code))
+      .forEach(category => flagged(category, '<script>', SCRIPT_MESSAGES[category]));
+  });
+
+  const report: SecurityReport = { checkedAt: Date.now(), findings };
+  if (!findings.some(f => f.action === 'removed')) return { html, report };
+  // Full documents keep their shell (doctype, attributes on <html> and <body>); fragments stay fragments
+  if (FULL_DOCUMENT.test(html)) return { html: `${doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : ''}${doc.documentElement.outerHTML}`, report };
+  return { html: `${Array.from(doc.head.children).map(el => el.outerHTML).join('')}${doc.body.innerHTML}`, report };
+};
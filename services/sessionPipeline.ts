@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CallMetric, ComponentVariation, DesignComponent, DesignSession, DesignTokens, Moodboard, PromptProfile } from '../types';
+import { DEFAULT_DESIGN_TOKENS, SESSION_SCHEMA_VERSION } from '../constants';
+import { generateId, stripJsonFences, withUniqueIds } from '../utils';
+import { ModelProvider, ModelStage } from './modelProvider';
+import { buildTokensPrompt, normalizeTokens } from './designTokens';
+import { parseArchitecture } from './sessionSchema';
+import { DEFAULT_STRATEGY, DEFAULT_THEME, buildArchitecturePrompt, buildMoodboardPrompt, buildMoodboardTokensHint, parseVisionResponse } from './prompts';
+import { moodboardImageInput, parseMoodboardAnalysis } from './moodboard';
+import { STANDARD_PROMPT_PROFILE } from './promptProfiles';
+import { meteredCall } from './telemetry';
+import { sanitizeDependencies } from './moduleDependencies';
+
+export interface SessionSeed {
+  theme: string; // May be empty when a moodboard is given
+  moodboard?: Moodboard; // Any analysis on it is replaced
+  libraryModules?: DesignComponent[]; // Planned ahead of the model's niche modules
+  promptProfile?: PromptProfile; // Writes the architecture prompt and is recorded on the session
+}
+
+/**
+ * Turns a theme or moodboard into a session in the planning stage: theme and
+ * strategy, design tokens, and the module architecture. Token extraction is
+ * best effort and falls back to the defaults. Every call is recorded in the
+ * session's telemetry.
+ */
+export const planSession = async (provider: ModelProvider, models: Record<ModelStage, string>, { theme: seedTheme, moodboard: seedMoodboard, libraryModules = [], promptProfile = STANDARD_PROMPT_PROFILE }: SessionSeed): Promise<DesignSession> => {
+  let theme = seedTheme || DEFAULT_THEME;
+  let strategy = DEFAULT_STRATEGY;
+  const moodboard: Moodboard | undefined = seedMoodboard?.images.length ? { images: seedMoodboard.images, palette: seedMoodboard.palette } : undefined;
+  const images = moodboard?.images.map(moodboardImageInput) || [];
+  const telemetry: CallMetric[] = [];
+  const record = (metric: CallMetric) => telemetry.push(metric);
+
+  if (moodboard) {
+    const prompt = buildMoodboardPrompt(moodboard);
+    const text = await meteredCall(provider, { stage: 'vision', model: models.vision }, record, onUsage => provider.describeImages(models.vision, prompt, images, onUsage));
+    try {
+      moodboard.analysis = parseMoodboardAnalysis(text);
+      ({ theme, strategy } = moodboard.analysis);
+    } catch (e) {
+      // Models that ignore the JSON instruction still tend to lead with theme and strategy
+      console.warn('Moodboard analysis was not valid JSON, reading it as plain text', e);
+      ({ theme, strategy } = parseVisionResponse(text, { theme, strategy }));
+    }
+  }
+
+  // Moodboard seeds sample tokens from the images themselves; text seeds derive them from theme + strategy
+  const tokensPrompt = buildTokensPrompt(theme, strategy);
+  let tokens: DesignTokens = DEFAULT_DESIGN_TOKENS;
+  try {
+    const tokensText = moodboard
+      ? stripJsonFences(await meteredCall(provider, { stage: 'tokens', model: models.vision }, record,
+          onUsage => provider.describeImages(models.vision, `${tokensPrompt}\n${buildMoodboardTokensHint(moodboard)}`, images, onUsage)))
+      : await meteredCall(provider, { stage: 'tokens', model: models.architecture }, record, onUsage => provider.completeJson(models.architecture, tokensPrompt, onUsage));
+    tokens = normalizeTokens(JSON.parse(tokensText));
+  } catch (e) {
+    console.error('Token extraction failed, using defaults', e);
+  }
+
+  const archPrompt = buildArchitecturePrompt(theme, strategy, promptProfile);
+  const archText = await meteredCall(provider, { stage: 'architecture', model: models.architecture }, record, onUsage => provider.completeJson(models.architecture, archPrompt, onUsage));
+  const { modules: nicheArchitecture, issues } = parseArchitecture(archText);
+  if (issues.length) console.warn('Skipped invalid modules from the architecture response', issues);
+  const { architecture, dropped } = sanitizeDependencies([...libraryModules, ...withUniqueIds(libraryModules, nicheArchitecture)]);
+  if (dropped.length) console.warn('Dropped unusable module dependencies', dropped);
+
+  // Variations are created when the planned architecture is confirmed
+  return {
+    id: generateId(),
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    styleTheme: theme,
+    designLanguage: strategy,
+    tokens,
+    stage: 'planning',
+    timestamp: Date.now(),
+    architecture,
+    variations: [],
+    compositions: [],
+    promptProfileId: promptProfile.id,
+    telemetry,
+    ...(moodboard && { moodboard })
+  };
+};
+
+/** One pending variation per planned module; generation picks them up and records the resolved prompt. */
+export const createPendingVariations = (session: DesignSession): ComponentVariation[] =>
+  session.architecture.map(comp => ({
+    id: generateId(),
+    componentId: comp.id,
+    styleName: session.styleTheme,
+    html: '',
+    prompt: '',
+    status: 'pending'
+  }));
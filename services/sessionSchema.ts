@@ -0,0 +1,394 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComponentVariation, Composition, CompositionPlacement, CompositionSlot, DesignComponent, DesignSession, Moodboard, RevisionOrigin, SessionStage, VariationRevision } from '../types';
+import { SESSION_SCHEMA_VERSION } from '../constants';
+import { slugify, stripJsonFences } from '../utils';
+import { normalizeTokens } from './designTokens';
+import { sanitizeDependencies } from './moduleDependencies';
+
+export interface SchemaIssue {
+  path: string; // JSON path of the offending value, e.g. "$.variations[2].status"
+  message: string;
+}
+
+export class SessionSchemaError extends Error {
+  constructor(public issues: SchemaIssue[]) {
+    super(`Invalid session: ${issues.slice(0, 3).map(i => `${i.path} ${i.message}`).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'SessionSchemaError';
+  }
+}
+
+export interface ParsedSession {
+  session: DesignSession;
+  repairs: string[]; // Human-readable notes about values that were fixed up rather than rejected
+}
+
+type Raw = Record<string, unknown>;
+
+const VARIATION_STATUSES: ComponentVariation['status'][] = ['pending', 'streaming', 'complete', 'error', 'cancelled'];
+const SESSION_STAGES: SessionStage[] = ['planning', 'generating'];
+const REVISION_ORIGINS: RevisionOrigin[] = ['model', 'manual'];
+const COMPOSITION_SLOTS: CompositionSlot[] = ['header', 'aside', 'main', 'footer', 'overlay'];
+
+const isObject = (value: unknown): value is Raw => !!value && typeof value === 'object' && !Array.isArray(value);
+const typeOf = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/** Collects issues while reading fields, so one pass reports every problem in the file. */
+class Reader {
+  issues: SchemaIssue[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push({ path, message });
+    return undefined;
+  }
+
+  object(value: unknown, path: string): Raw | undefined {
+    return isObject(value) ? value : this.fail(path, `expected an object, got ${typeOf(value)}`);
+  }
+
+  string(obj: Raw, key: string, path: string): string {
+    const value = obj[key];
+    if (typeof value === 'string') return value;
+    this.fail(`${path}.${key}`, `expected a string, got ${typeOf(value)}`);
+    return '';
+  }
+
+  nonEmptyString(obj: Raw, key: string, path: string): string {
+    const value = this.string(obj, key, path);
+    if (typeof obj[key] === 'string' && !value.trim()) this.fail(`${path}.${key}`, 'must not be empty');
+    return value;
+  }
+
+  optionalString(obj: Raw, key: string, path: string): string | undefined {
+    const value = obj[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'string') return value;
+    return this.fail(`${path}.${key}`, `expected a string, got ${typeOf(value)}`);
+  }
+
+  number(obj: Raw, key: string, path: string): number {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    this.fail(`${path}.${key}`, `expected a number, got ${typeOf(value)}`);
+    return 0;
+  }
+
+  stringArray(obj: Raw, key: string, path: string): string[] {
+    const value = obj[key];
+    if (!Array.isArray(value)) {
+      this.fail(`${path}.${key}`, `expected an array of strings, got ${typeOf(value)}`);
+      return [];
+    }
+    value.forEach((v, i) => typeof v !== 'string' && this.fail(`${path}.${key}[${i}]`, `expected a string, got ${typeOf(v)}`));
+    return value.filter((v): v is string => typeof v === 'string');
+  }
+
+  array(obj: Raw, key: string, path: string): unknown[] {
+    const value = obj[key];
+    if (Array.isArray(value)) return value;
+    this.fail(`${path}.${key}`, `expected an array, got ${typeOf(value)}`);
+    return [];
+  }
+
+  oneOf<T extends string>(obj: Raw, key: string, allowed: T[], path: string): T {
+    const value = obj[key];
+    if (allowed.includes(value as T)) return value as T;
+    this.fail(`${path}.${key}`, `expected one of ${allowed.join(' | ')}, got ${JSON.stringify(value)}`);
+    return allowed[0];
+  }
+}
+
+const readComponent = (r: Reader, raw: unknown, path: string): DesignComponent | undefined => {
+  const obj = r.object(raw, path);
+  if (!obj) return undefined;
+  return {
+    id: r.nonEmptyString(obj, 'id', path),
+    name: r.string(obj, 'name', path),
+    category: r.optionalString(obj, 'category', path),
+    description: r.string(obj, 'description', path),
+    affordances: r.stringArray(obj, 'affordances', path),
+    baseHtml: r.optionalString(obj, 'baseHtml', path),
+    canonicalVariationId: r.optionalString(obj, 'canonicalVariationId', path),
+    dependsOn: obj.dependsOn === undefined ? undefined : r.stringArray(obj, 'dependsOn', path),
+  };
+};
+
+const readRevision = (r: Reader, raw: unknown, path: string): VariationRevision | undefined => {
+  const obj = r.object(raw, path);
+  if (!obj) return undefined;
+  return {
+    id: r.nonEmptyString(obj, 'id', path),
+    html: r.string(obj, 'html', path),
+    notes: r.optionalString(obj, 'notes', path),
+    affordances: r.stringArray(obj, 'affordances', path),
+    timestamp: r.number(obj, 'timestamp', path),
+    origin: obj.origin === undefined ? undefined : r.oneOf(obj, 'origin', REVISION_ORIGINS, path),
+  };
+};
+
+const readVariation = (r: Reader, raw: unknown, path: string, repairs: string[]): ComponentVariation | undefined => {
+  const obj = r.object(raw, path);
+  if (!obj) return undefined;
+  const variation: ComponentVariation = {
+    id: r.nonEmptyString(obj, 'id', path),
+    componentId: r.nonEmptyString(obj, 'componentId', path),
+    styleName: r.string(obj, 'styleName', path),
+    html: r.string(obj, 'html', path),
+    prompt: r.string(obj, 'prompt', path),
+    status: r.oneOf(obj, 'status', VARIATION_STATUSES, path),
+    notes: r.optionalString(obj, 'notes', path),
+    divergenceHint: r.optionalString(obj, 'divergenceHint', path),
+  };
+  if (obj.revisions !== undefined) {
+    variation.revisions = r.array(obj, 'revisions', path)
+      .map((rev, i) => readRevision(r, rev, `${path}.revisions[${i}]`))
+      .filter((rev): rev is VariationRevision => !!rev);
+  }
+  // Snapshots are large and re-capturable; drop entries that cannot be rendered rather than failing the load
+  if (Array.isArray(obj.snapshots)) {
+    const snapshots = obj.snapshots.filter(s => isObject(s) && typeof s.id === 'string' && typeof s.image === 'string' && s.image.startsWith('data:image/'));
+    if (snapshots.length < obj.snapshots.length) repairs.push(`${path}.snapshots: ${obj.snapshots.length - snapshots.length} malformed snapshot(s) dropped.`);
+    variation.snapshots = snapshots as unknown as ComponentVariation['snapshots'];
+  } else if (obj.snapshots !== undefined) repairs.push(`${path}.snapshots was malformed and has been dropped.`);
+  // Reports are derived data; keep them when they look sane, otherwise drop them and let them be recomputed
+  if (isObject(obj.verification) && Array.isArray(obj.verification.checks)) variation.verification = obj.verification as unknown as ComponentVariation['verification'];
+  else if (obj.verification !== undefined) repairs.push(`${path}.verification was malformed and has been dropped.`);
+  if (isObject(obj.accessibility) && Array.isArray(obj.accessibility.findings)) variation.accessibility = obj.accessibility as unknown as ComponentVariation['accessibility'];
+  else if (obj.accessibility !== undefined) repairs.push(`${path}.accessibility was malformed and has been dropped.`);
+  if (isObject(obj.security) && Array.isArray(obj.security.findings)) variation.security = obj.security as unknown as ComponentVariation['security'];
+  else if (obj.security !== undefined) repairs.push(`${path}.security was malformed and has been dropped.`);
+  if (isObject(obj.promptProfile) && typeof obj.promptProfile.id === 'string' && typeof obj.promptProfile.version === 'number') {
+    variation.promptProfile = { id: obj.promptProfile.id, version: obj.promptProfile.version };
+  } else if (obj.promptProfile !== undefined) repairs.push(`${path}.promptProfile was malformed and has been dropped.`);
+  // Fingerprints only drive the stale flag; without them the variation is simply never flagged
+  const fingerprints = obj.dependencyFingerprints;
+  if (isObject(fingerprints) && Object.values(fingerprints).every(f => typeof f === 'number')) variation.dependencyFingerprints = fingerprints as Record<string, number>;
+  else if (fingerprints !== undefined) repairs.push(`${path}.dependencyFingerprints was malformed and has been dropped.`);
+  return variation;
+};
+
+const readPlacement = (r: Reader, raw: unknown, path: string): CompositionPlacement | undefined => {
+  const obj = r.object(raw, path);
+  if (!obj) return undefined;
+  return {
+    id: r.nonEmptyString(obj, 'id', path),
+    slot: r.oneOf(obj, 'slot', COMPOSITION_SLOTS, path),
+    variationId: r.nonEmptyString(obj, 'variationId', path),
+  };
+};
+
+const readComposition = (r: Reader, raw: unknown, path: string): Composition | undefined => {
+  const obj = r.object(raw, path);
+  if (!obj) return undefined;
+  return {
+    id: r.nonEmptyString(obj, 'id', path),
+    name: r.string(obj, 'name', path),
+    placements: r.array(obj, 'placements', path)
+      .map((p, i) => readPlacement(r, p, `${path}.placements[${i}]`))
+      .filter((p): p is CompositionPlacement => !!p),
+    layoutHtml: r.optionalString(obj, 'layoutHtml', path),
+    timestamp: r.number(obj, 'timestamp', path),
+  };
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Moodboards are reference material; drop what cannot be shown rather than failing the load
+const readMoodboard = (raw: unknown, repairs: string[]): Moodboard | undefined => {
+  if (!isObject(raw) || !Array.isArray(raw.images)) {
+    repairs.push('$.moodboard was malformed and has been dropped.');
+    return undefined;
+  }
+  const images = raw.images.filter((img): img is Raw => isObject(img) && typeof img.id === 'string' && typeof img.dataUrl === 'string' && img.dataUrl.startsWith('data:image/'))
+    .map(img => ({
+      id: img.id as string,
+      name: typeof img.name === 'string' ? img.name : 'image',
+      dataUrl: img.dataUrl as string,
+      mimeType: typeof img.mimeType === 'string' ? img.mimeType : (img.dataUrl as string).slice(5, (img.dataUrl as string).indexOf(';')),
+      palette: isStringArray(img.palette) ? img.palette : [],
+    }));
+  if (images.length < raw.images.length) repairs.push(`$.moodboard.images: ${raw.images.length - images.length} malformed image(s) dropped.`);
+  const moodboard: Moodboard = { images, palette: isStringArray(raw.palette) ? raw.palette : [] };
+  const analysis = raw.analysis;
+  if (isObject(analysis) && typeof analysis.theme === 'string' && typeof analysis.strategy === 'string') {
+    moodboard.analysis = {
+      theme: analysis.theme,
+      strategy: analysis.strategy,
+      typography: isStringArray(analysis.typography) ? analysis.typography : [],
+      texture: isStringArray(analysis.texture) ? analysis.texture : [],
+      mood: isStringArray(analysis.mood) ? analysis.mood : [],
+    };
+  } else if (analysis !== undefined) repairs.push('$.moodboard.analysis was malformed and has been dropped.');
+  return moodboard;
+};
+
+/**
+ * Upgrades a raw session one version at a time. Each entry turns version N
+ * into version N + 1; files without a schemaVersion are treated as version 0.
+ */
+const MIGRATIONS: Record<number, (raw: Raw) => Raw> = {
+  // 0 -> 1: exports from before persistence carry no version
+  0: raw => ({ ...raw, schemaVersion: 1 }),
+  // 1 -> 2: the planning stage became explicit; older sessions were already generating
+  1: raw => ({ ...raw, stage: raw.stage ?? 'generating', schemaVersion: 2 }),
+  // 2 -> 3: composed screens were added
+  2: raw => ({ ...raw, compositions: raw.compositions ?? [], schemaVersion: 3 }),
+  // 3 -> 4: moodboards were added; older sessions simply have none
+  3: raw => ({ ...raw, schemaVersion: 4 }),
+  // 4 -> 5: prompt profiles were added; sessions without one use the default profile
+  4: raw => ({ ...raw, schemaVersion: 5 }),
+  // 5 -> 6: per-call telemetry was added; older sessions start without history
+  5: raw => ({ ...raw, schemaVersion: 6 }),
+  // 6 -> 7: module dependencies were added; older modules depend on nothing
+  6: raw => ({ ...raw, schemaVersion: 7 }),
+  // 7 -> 8: sessions got a display name separate from the theme; older ones are labelled by their theme
+  7: raw => ({ ...raw, schemaVersion: 8 }),
+};
+
+const migrate = (raw: Raw): Raw => {
+  let version = raw.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new SessionSchemaError([{ path: '$.schemaVersion', message: `expected a non-negative integer, got ${JSON.stringify(version)}` }]);
+  }
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new SessionSchemaError([{ path: '$.schemaVersion', message: `version ${version} is newer than this app supports (${SESSION_SCHEMA_VERSION})` }]);
+  }
+  let current = raw;
+  while (version < SESSION_SCHEMA_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+  return current;
+};
+
+/** Fixes states that are valid JSON but cannot be resumed as-is. */
+const repair = (session: DesignSession, repairs: string[]): DesignSession => {
+  const componentIds = new Set(session.architecture.map(a => a.id));
+  const variations = session.variations
+    .filter(v => {
+      if (componentIds.has(v.componentId)) return true;
+      repairs.push(`Variation ${v.id} referenced missing module "${v.componentId}" and was removed.`);
+      return false;
+    })
+    .map(v => {
+      // An interrupted stream cannot be resumed; like a cancelled remix it falls back to its latest revision, else it is queued again
+      if (v.status !== 'streaming') return v;
+      const latest = v.revisions?.[v.revisions.length - 1];
+      if (latest) {
+        repairs.push(`Variation ${v.id} was interrupted mid-stream and has been restored to its latest revision.`);
+        return { ...v, status: 'complete' as const, html: latest.html, notes: latest.notes };
+      }
+      repairs.push(`Variation ${v.id} was interrupted mid-stream and has been reset to pending.`);
+      return { ...v, status: 'pending' as const, html: '' };
+    });
+  const variationIds = new Set(variations.map(v => v.id));
+  const { architecture: planned, dropped } = sanitizeDependencies(session.architecture);
+  repairs.push(...dropped);
+  const architecture = planned.map(a => {
+    if (!a.canonicalVariationId || variationIds.has(a.canonicalVariationId)) return a;
+    repairs.push(`Module "${a.id}" pointed at a missing canonical variation; the first variation is used instead.`);
+    return { ...a, canonicalVariationId: undefined };
+  });
+  const compositions = session.compositions.map(c => {
+    const placements = c.placements.filter(p => variationIds.has(p.variationId));
+    if (placements.length === c.placements.length) return c;
+    repairs.push(`Screen "${c.name}" lost ${c.placements.length - placements.length} placement(s) of missing variations.`);
+    return { ...c, placements };
+  });
+  return { ...session, architecture, variations, compositions };
+};
+
+/** Migrates, validates and repairs an untrusted session object. Throws SessionSchemaError. */
+export const parseSession = (raw: unknown): ParsedSession => {
+  if (!isObject(raw)) throw new SessionSchemaError([{ path: '$', message: `expected an object, got ${typeOf(raw)}` }]);
+  const migrated = migrate(raw);
+  const r = new Reader();
+  const repairs: string[] = [];
+
+  const session: DesignSession = {
+    id: r.nonEmptyString(migrated, 'id', '$'),
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    styleTheme: r.string(migrated, 'styleTheme', '$'),
+    designLanguage: r.string(migrated, 'designLanguage', '$'),
+    stage: r.oneOf(migrated, 'stage', SESSION_STAGES, '$'),
+    timestamp: r.number(migrated, 'timestamp', '$'),
+    architecture: r.array(migrated, 'architecture', '$')
+      .map((c, i) => readComponent(r, c, `$.architecture[${i}]`))
+      .filter((c): c is DesignComponent => !!c),
+    variations: r.array(migrated, 'variations', '$')
+      .map((v, i) => readVariation(r, v, `$.variations[${i}]`, repairs))
+      .filter((v): v is ComponentVariation => !!v),
+    compositions: r.array(migrated, 'compositions', '$')
+      .map((c, i) => readComposition(r, c, `$.compositions[${i}]`))
+      .filter((c): c is Composition => !!c),
+  };
+  if (migrated.tokens !== undefined) {
+    if (isObject(migrated.tokens)) session.tokens = normalizeTokens(migrated.tokens);
+    else r.fail('$.tokens', `expected an object, got ${typeOf(migrated.tokens)}`);
+  }
+  if (migrated.moodboard !== undefined) session.moodboard = readMoodboard(migrated.moodboard, repairs);
+  // Telemetry is an append-only log; drop entries that cannot be summed rather than failing the load
+  if (Array.isArray(migrated.telemetry)) {
+    const telemetry = migrated.telemetry.filter(m => isObject(m) && typeof m.stage === 'string' && typeof m.durationMs === 'number' && typeof m.startedAt === 'number');
+    if (telemetry.length < migrated.telemetry.length) repairs.push(`$.telemetry: ${migrated.telemetry.length - telemetry.length} malformed call record(s) dropped.`);
+    session.telemetry = telemetry as unknown as DesignSession['telemetry'];
+  } else if (migrated.telemetry !== undefined) repairs.push('$.telemetry was malformed and has been dropped.');
+  if (migrated.name !== undefined) session.name = r.optionalString(migrated, 'name', '$');
+  if (migrated.promptProfileId !== undefined) session.promptProfileId = r.optionalString(migrated, 'promptProfileId', '$');
+
+  const duplicates = (ids: string[]) => ids.filter((id, i) => ids.indexOf(id) !== i);
+  duplicates(session.architecture.map(a => a.id)).forEach(id => r.fail('$.architecture', `duplicate module id "${id}"`));
+  duplicates(session.variations.map(v => v.id)).forEach(id => r.fail('$.variations', `duplicate variation id "${id}"`));
+  duplicates(session.compositions.map(c => c.id)).forEach(id => r.fail('$.compositions', `duplicate screen id "${id}"`));
+
+  if (r.issues.length) throw new SessionSchemaError(r.issues);
+  return { session: repair(session, repairs), repairs };
+};
+
+/** Parses session JSON text, reporting syntax errors in the same shape as schema errors. */
+export const parseSessionJson = (text: string): ParsedSession => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new SessionSchemaError([{ path: '$', message: `not valid JSON (${e instanceof Error ? e.message : String(e)})` }]);
+  }
+  return parseSession(raw);
+};
+
+/**
+ * Reads a model-proposed architecture. Model output is untrusted but recoverable:
+ * malformed entries are skipped and reported instead of failing the whole list.
+ */
+export const parseArchitecture = (text: string): { modules: DesignComponent[], issues: SchemaIssue[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripJsonFences(text || '[]'));
+  } catch (e) {
+    return { modules: [], issues: [{ path: '$', message: `not valid JSON (${e instanceof Error ? e.message : String(e)})` }] };
+  }
+  // Some models wrap the array, e.g. {"modules": [...]}
+  const list = Array.isArray(raw) ? raw : isObject(raw) ? Object.values(raw).find(Array.isArray) : undefined;
+  if (!list) return { modules: [], issues: [{ path: '$', message: `expected an array, got ${typeOf(raw)}` }] };
+
+  const issues: SchemaIssue[] = [];
+  const modules = list.flatMap((item, i) => {
+    const r = new Reader();
+    const path = `$[${i}]`;
+    // Fill the fields models commonly omit before validating the rest
+    const filled = isObject(item) ? {
+      ...item,
+      id: typeof item.id === 'string' && item.id.trim() ? item.id : typeof item.name === 'string' ? slugify(item.name) : item.id,
+      description: item.description ?? '',
+      affordances: item.affordances ?? [],
+    } : item;
+    const component = readComponent(r, filled, path);
+    if (component && !r.issues.length && !component.name.trim()) r.fail(`${path}.name`, 'must not be empty');
+    issues.push(...r.issues);
+    return component && !r.issues.length ? [{ ...component, canonicalVariationId: undefined }] : [];
+  });
+  return { modules, issues };
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSession } from '../types';
+import { parseSession } from './sessionSchema';
+
+const DB_NAME = 'usui-studio';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = op(db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+/**
+ * Returns all stored sessions, oldest first. Records go through the same
+ * migration and repair as imports (a reload mid-stream leaves variations in
+ * 'streaming'); records that fail validation are skipped, not fatal.
+ */
+export const listSessions = async (): Promise<DesignSession[]> => {
+  const records = await run<unknown[]>('readonly', store => store.index('timestamp').getAll());
+  return records.flatMap(record => {
+    try {
+      return [parseSession(record).session];
+    } catch (e) {
+      console.error('Skipping unreadable stored session', e);
+      return [];
+    }
+  });
+};
+
+export const saveSession = (session: DesignSession) => run('readwrite', store => store.put(session));
+
+export const deleteSession = (id: string) => run('readwrite', store => store.delete(id));
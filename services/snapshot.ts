@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignTokens, VariationSnapshot } from '../types';
+import { FOCUS_PREVIEW_STYLE, PREVIEW_CANVAS, PREVIEW_CSP } from '../constants';
+import { generateId } from '../utils';
+import { tokensStyleTag } from './designTokens';
+import { runInHiddenFrame } from './frameAgent';
+
+export const SNAPSHOT_SIZE = { width: 800, height: 600 };
+export const MAX_SNAPSHOTS_PER_VARIATION = 12;
+
+const SETTLE_MS = 600;
+const SNAPSHOT_TIMEOUT_MS = 10000;
+// Per-channel distance below which a pixel counts as unchanged; absorbs anti-aliasing noise
+const DIFF_THRESHOLD = 24;
+
+export interface SnapshotDiff {
+  width: number;
+  height: number;
+  changedPixels: number;
+  changedRatio: number; // 0..1 of the compared area
+  overlay: string; // PNG data URL: unchanged pixels dimmed, changed pixels highlighted
+}
+
+/**
+ * Runs in the hidden capture document once scripts have settled and replies with
+ * its DOM as XHTML. Live form state is copied into attributes so it survives
+ * serialization. A frame agent: see frameAgent.ts.
+ */
+const snapshotAgent = (nonce: string, settleMs: number) => {
+  const capture = () => {
+    const clone = document.documentElement.cloneNode(true) as HTMLElement;
+    const live = Array.from(document.documentElement.querySelectorAll('*'));
+    const copies = Array.from(clone.querySelectorAll('*'));
+    live.forEach((el, i) => {
+      const copy = copies[i];
+      if (el instanceof HTMLInputElement) {
+        copy.setAttribute('value', el.value);
+        if (el.checked) copy.setAttribute('checked', '');
+        else copy.removeAttribute('checked');
+      } else if (el instanceof HTMLTextAreaElement) {
+        copy.textContent = el.value;
+      } else if (el instanceof HTMLSelectElement) {
+        Array.from(copy.querySelectorAll('option')).forEach((o, j) => o.toggleAttribute('selected', j === el.selectedIndex));
+      } else if (el instanceof HTMLCanvasElement) {
+        try {
+          const img = document.createElement('img');
+          img.src = el.toDataURL();
+          img.setAttribute('style', el.getAttribute('style') || '');
+          img.width = el.width;
+          img.height = el.height;
+          copy.replaceWith(img);
+        } catch {
+          // Tainted canvas; leave it blank
+        }
+      }
+    });
+    clone.querySelectorAll('script').forEach(s => s.remove());
+    // An image of the page shows the first frame, so jump animations to their end state
+    const freeze = document.createElement('style');
+    freeze.textContent = '*,*::before,*::after{animation-duration:0s!important;animation-delay:0s!important;animation-iteration-count:1!important;transition:none!important;caret-color:transparent!important;}';
+    clone.querySelector('head')?.appendChild(freeze);
+    return new XMLSerializer().serializeToString(clone);
+  };
+
+  const run = () => setTimeout(() => {
+    let result;
+    try {
+      result = { markup: capture() };
+    } catch (e) {
+      result = { error: e instanceof Error ? e.message : String(e) };
+    }
+    parent.postMessage({ type: 'usui-snapshot', nonce, width: window.innerWidth, height: window.innerHeight, ...result }, '*');
+  }, settleMs);
+
+  if (document.readyState === 'complete') run();
+  else window.addEventListener('load', run);
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Snapshot image could not be decoded.'));
+  img.src = src;
+});
+
+/** Draws serialized XHTML through an SVG foreignObject, which keeps the canvas untainted. */
+const rasterize = async (markup: string, width: number, height: number): Promise<string> => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+  const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = PREVIEW_CANVAS.dark.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders the module in a hidden, opaque-origin iframe at SNAPSHOT_SIZE and
+ * rasterizes its settled DOM. Rejects when the capture times out or fails.
+ */
+export const captureSnapshot = async (html: string, tokens?: DesignTokens, revisionId?: string): Promise<VariationSnapshot> => {
+  const { width, height } = SNAPSHOT_SIZE;
+  const answer = await runInHiddenFrame<{ markup?: string, error?: string }, [number]>(
+    `${PREVIEW_CSP}${tokensStyleTag(tokens)}${FOCUS_PREVIEW_STYLE}${html}`, snapshotAgent, [SETTLE_MS],
+    { width, height, timeoutMs: SNAPSHOT_TIMEOUT_MS, timeoutMessage: 'Snapshot timed out.' },
+  );
+  if (answer.error || !answer.markup) throw new Error(answer.error || 'Snapshot returned no markup.');
+  const image = await rasterize(answer.markup, width, height);
+  return { id: generateId(), revisionId, image, width, height, capturedAt: Date.now() };
+};
+
+const pixelsOf = (img: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = PREVIEW_CANVAS.dark.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/** Compares two snapshots pixel by pixel over the larger of their sizes. */
+export const diffSnapshots = async (before: VariationSnapshot, after: VariationSnapshot): Promise<SnapshotDiff> => {
+  const [a, b] = await Promise.all([loadImage(before.image), loadImage(after.image)]);
+  const width = Math.max(a.naturalWidth, b.naturalWidth);
+  const height = Math.max(a.naturalHeight, b.naturalHeight);
+  const pa = pixelsOf(a, width, height).data;
+  const pb = pixelsOf(b, width, height).data;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(width, height);
+  let changedPixels = 0;
+  for (let i = 0; i < pa.length; i += 4) {
+    const changed = Math.abs(pa[i] - pb[i]) > DIFF_THRESHOLD || Math.abs(pa[i + 1] - pb[i + 1]) > DIFF_THRESHOLD || Math.abs(pa[i + 2] - pb[i + 2]) > DIFF_THRESHOLD;
+    if (changed) {
+      changedPixels++;
+      out.data.set([255, 0, 170, 255], i);
+    } else {
+      const gray = (pb[i] * 0.299 + pb[i + 1] * 0.587 + pb[i + 2] * 0.114) * 0.35;
+      out.data.set([gray, gray, gray, 255], i);
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return { width, height, changedPixels, changedRatio: changedPixels / (width * height), overlay: canvas.toDataURL('image/png') };
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { escapeHtml } from '../utils';
+
+const token = (kind: string, text: string) => text ? `<span class="tok-${kind}">${escapeHtml(text)}</span>` : '';
+
+const CSS_TOKEN = /\/\*[\s\S]*?(?:\*\/|$)|"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|[{};:]|[^{};:"'/]+|\//g;
+
+/** Text before a `{` is a selector (or at-rule prelude); inside a block it is `property: value`. */
+const highlightCss = (css: string): string => {
+  let out = '';
+  let depth = 0;
+  let inValue = false;
+  let prelude: 'selector' | 'at' = 'selector';
+  const opensBlock = (from: number) => {
+    const next = css.slice(from).search(/[{};]/);
+    return next !== -1 && css[from + next] === '{';
+  };
+  for (const match of css.matchAll(CSS_TOKEN)) {
+    const text = match[0];
+    const at = match.index!;
+    if (text.startsWith('/*')) out += token('comment', text);
+    else if (text.startsWith('"') || text.startsWith("'")) out += token('string', text);
+    else if (text === '{' || text === '}') {
+      depth = Math.max(0, depth + (text === '{' ? 1 : -1));
+      inValue = false;
+      prelude = 'selector';
+      out += token('punct', text);
+    } else if (text === ';') {
+      inValue = false;
+      prelude = 'selector';
+      out += token('punct', text);
+    } else if (text === ':' && depth > 0 && !inValue && !opensBlock(at)) {
+      inValue = true;
+      out += token('punct', text);
+    } else if (depth === 0 || (!inValue && opensBlock(at))) {
+      if (text.trimStart().startsWith('@')) prelude = 'at';
+      out += token(prelude, text);
+    } else {
+      out += token(inValue ? 'value' : 'property', text);
+    }
+  }
+  return out;
+};
+
+const ATTRIBUTE = /(\s+)|([^\s=/>]+)(?:(\s*=\s*)("[^"]*"?|'[^']*'?|[^\s>]+))?|(\/)/g;
+
+const highlightTag = (tag: string): string => {
+  const m = tag.match(/^(<\/?)([^\s/>]*)([\s\S]*?)(\/?>)?$/)!;
+  let attrs = '';
+  for (const a of m[3].matchAll(ATTRIBUTE)) {
+    if (a[1]) attrs += a[1];
+    else if (a[5]) attrs += token('punct', a[5]);
+    else attrs += token('attr', a[2]) + escapeHtml(a[3] || '') + token('string', a[4] || '');
+  }
+  return `${token('punct', m[1])}${token('tag', m[2])}${attrs}${token('punct', m[4] || '')}`;
+};
+
+const HTML_TOKEN = /<!--[\s\S]*?(?:-->|$)|<!?\/?[a-zA-Z][^>]*>?|[^<]+|</g;
+
+/** Escaped markup with `tok-*` spans for an HTML fragment, including embedded CSS. */
+export const highlightSource = (source: string): string => {
+  let out = '';
+  let i = 0;
+  while (i < source.length) {
+    HTML_TOKEN.lastIndex = i;
+    const match = HTML_TOKEN.exec(source)!;
+    const text = match[0];
+    i += text.length;
+    if (text.startsWith('<!--')) {
+      out += token('comment', text);
+      continue;
+    }
+    if (!text.startsWith('<') || text === '<') {
+      out += escapeHtml(text);
+      continue;
+    }
+    out += text.startsWith('<!') ? token('comment', text) : highlightTag(text);
+    // Raw-text elements: everything up to the closing tag belongs to the element
+    const raw = text.match(/^<(style|script)\b/i);
+    if (raw && text.endsWith('>')) {
+      const close = source.slice(i).search(new RegExp(`</${raw[1]}`, 'i'));
+      const body = close === -1 ? source.slice(i) : source.slice(i, i + close);
+      out += raw[1].toLowerCase() === 'style' ? highlightCss(body) : token('script', body);
+      i += body.length;
+    }
+  }
+  return out;
+};
+
+const VOID_TAGS = new Set('area base br col embed hr img input link meta param source track wbr'.split(' '));
+const TAG = /<(\/?)([a-zA-Z][\w-]*)[^>]*?(\/?)>/g;
+
+/**
+ * Re-indents a module by element and brace depth. Only leading whitespace
+ * changes (never inside <pre> or <textarea>), so the rendered result is identical.
+ */
+export const formatSource = (source: string, unit = '  '): string => {
+  let depth = 0;
+  let braces = 0;
+  let preserveUntil: RegExp | null = null;
+  let embedded: RegExp | null = null;
+
+  return source.replace(/\r\n?/g, '\n').split('\n').map(line => {
+    if (preserveUntil) {
+      if (preserveUntil.test(line)) {
+        preserveUntil = null;
+        depth = Math.max(0, depth - 1);
+      }
+      return line;
+    }
+    const trimmed = line.trim();
+    if (!trimmed) return '';
+
+    if (embedded && !embedded.test(trimmed)) {
+      const leadingClose = /^[}\])]/.test(trimmed) ? 1 : 0;
+      const code = trimmed.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`/g, '');
+      const net = (code.match(/[{[(]/g) || []).length - (code.match(/[}\])]/g) || []).length;
+      const level = depth + Math.max(0, braces - leadingClose);
+      braces = Math.max(0, braces + net);
+      return unit.repeat(level) + trimmed;
+    }
+    embedded = null;
+
+    // Inline style/script bodies and comments cannot open or close elements
+    const markup = trimmed.replace(/<!--[\s\S]*?-->/g, '').replace(/<(script|style)\b([^>]*)>[\s\S]*?<\/\1>/gi, '<$1$2></$1>');
+    let leading = 0;
+    let net = 0;
+    let sawOpen = false;
+    for (const [, closing, name, selfClosing] of markup.matchAll(TAG)) {
+      const tag = name.toLowerCase();
+      if (VOID_TAGS.has(tag) || selfClosing) continue;
+      if (closing) {
+        net--;
+        if (!sawOpen) leading++;
+        continue;
+      }
+      net++;
+      sawOpen = true;
+      const rest = markup.slice(markup.lastIndexOf(`<${name}`));
+      if (!new RegExp(`</${tag}`, 'i').test(rest)) {
+        if (tag === 'pre' || tag === 'textarea') preserveUntil = new RegExp(`</${tag}`, 'i');
+        if (tag === 'style' || tag === 'script') {
+          embedded = new RegExp(`^</${tag}`, 'i');
+          braces = 0;
+        }
+      }
+    }
+    const level = Math.max(0, depth - leading);
+    depth = Math.max(0, depth + net);
+    return unit.repeat(level) + trimmed;
+  }).join('\n');
+};
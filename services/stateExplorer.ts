@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ComponentStateKind = 'default' | 'pseudo' | 'class' | 'attribute';
+
+export interface ComponentState {
+  id: string;
+  label: string;
+  kind: ComponentStateKind;
+  // For class and attribute states: elements that receive the state token
+  targets?: string[];
+  className?: string;
+  attribute?: { name: string; value: string };
+}
+
+const FORCEABLE_PSEUDOS = ['hover', 'focus', 'focus-visible', 'focus-within', 'active', 'disabled', 'checked', 'invalid'];
+const STATE_CLASS = /(?:^|[-_])(active|open|opened|expanded|collapsed|closed|selected|checked|disabled|loading|busy|error|invalid|success|valid|warning|pressed|focused|hovered|shake|shaking|dragging|empty)$/i;
+const STATE_ATTRIBUTE = /^(data-[\w-]+|aria-(expanded|pressed|selected|checked|invalid|busy|disabled|current)|open|disabled|checked)$/;
+const MAX_STATES = 16;
+
+const FREEZE_STYLE = '<style data-usui-freeze>*,*::before,*::after{animation-play-state:paused!important;transition:none!important;caret-color:transparent!important;}</style>';
+
+const forceClass = (pseudo: string) => `usui-force-${pseudo}`;
+const pseudoPattern = (pseudo: string) => new RegExp(`:${pseudo}(?![\\w-])`, 'g');
+
+/** Splits on top-level commas, ignoring commas inside parentheses or brackets. */
+const splitSelectorList = (prelude: string) => {
+  const out: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of prelude) {
+    if (ch === '(' || ch === '[') depth++;
+    if (ch === ')' || ch === ']') depth--;
+    if (ch === ',' && depth === 0) {
+      out.push(current.trim());
+      current = '';
+    } else current += ch;
+  }
+  if (current.trim()) out.push(current.trim());
+  return out;
+};
+
+/**
+ * Walks a stylesheet and passes every style-rule prelude through `mapPrelude`,
+ * descending into grouping at-rules and leaving keyframes and declarations intact.
+ */
+const mapSelectors = (css: string, mapPrelude: (prelude: string) => string) => {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let out = '';
+  let i = 0;
+
+  const copyBlock = () => {
+    // Copies a balanced {...} block starting at source[i] === '{'
+    let depth = 0;
+    const start = i;
+    for (; i < source.length; i++) {
+      if (source[i] === '{') depth++;
+      if (source[i] === '}' && --depth === 0) { i++; break; }
+    }
+    out += source.slice(start, i);
+  };
+
+  const walk = (untilClose: boolean) => {
+    while (i < source.length) {
+      if (source[i] === '}') {
+        if (untilClose) { out += '}'; i++; return; }
+        i++;
+        continue;
+      }
+      const brace = source.indexOf('{', i);
+      const semi = source.indexOf(';', i);
+      if (brace === -1) { out += source.slice(i); i = source.length; return; }
+      // Statement at-rules such as @import end before the next block
+      if (semi !== -1 && semi < brace && source.slice(i, semi).trim().startsWith('@')) {
+        out += source.slice(i, semi + 1);
+        i = semi + 1;
+        continue;
+      }
+      const prelude = source.slice(i, brace);
+      const trimmed = prelude.trim();
+      i = brace;
+      if (/^@(-\w+-)?keyframes|^@font-face|^@property|^@page/i.test(trimmed)) {
+        out += prelude;
+        copyBlock();
+      } else if (trimmed.startsWith('@')) {
+        out += `${prelude}{`;
+        i++;
+        walk(true);
+      } else {
+        out += mapPrelude(prelude);
+        copyBlock();
+      }
+    }
+  };
+
+  walk(false);
+  return out;
+};
+
+const collectSelectors = (css: string) => {
+  const selectors: string[] = [];
+  mapSelectors(css, prelude => {
+    selectors.push(...splitSelectorList(prelude));
+    return prelude;
+  });
+  return selectors;
+};
+
+/** Removes one simple-selector token from a selector and keeps everything up to its compound. */
+const targetFor = (selector: string, token: string) => {
+  const index = selector.indexOf(token);
+  if (index === -1) return null;
+  let end = index + token.length;
+  // Extend to the end of the compound that contains the token
+  while (end < selector.length && !/[\s>+~]/.test(selector[end])) end++;
+  const compound = (selector.slice(0, index) + selector.slice(index + token.length, end))
+    // Dynamic pseudo-classes and pseudo-elements would make the target unmatchable in a static document
+    .replace(/::?[\w-]+(\([^)]*\))?/g, '')
+    .trim();
+  if (!compound || /[\s>+~]$/.test(compound)) return null;
+  return compound;
+};
+
+const styleText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('style')).map(s => s.textContent || '').join('\n');
+};
+
+/** Lists the states a module's CSS reacts to: dynamic pseudo-classes, state classes and state attributes. */
+export const detectStates = (html: string): ComponentState[] => {
+  const selectors = collectSelectors(styleText(html));
+  const states: ComponentState[] = [{ id: 'default', label: 'DEFAULT', kind: 'default' }];
+  const add = (state: ComponentState, target: string | null) => {
+    const existing = states.find(s => s.id === state.id);
+    if (existing) {
+      if (target && !existing.targets?.includes(target)) existing.targets?.push(target);
+      return;
+    }
+    if (states.length >= MAX_STATES) return;
+    states.push({ ...state, targets: state.kind === 'pseudo' ? undefined : target ? [target] : [] });
+  };
+
+  for (const selector of selectors) {
+    for (const pseudo of FORCEABLE_PSEUDOS) {
+      if (pseudoPattern(pseudo).test(selector)) add({ id: `:${pseudo}`, label: `:${pseudo.toUpperCase()}`, kind: 'pseudo' }, null);
+    }
+    for (const [, name] of selector.matchAll(/\.([\w-]+)/g)) {
+      if (STATE_CLASS.test(name)) add({ id: `.${name}`, label: `.${name.toUpperCase()}`, kind: 'class', className: name }, targetFor(selector, `.${name}`));
+    }
+    for (const [token, name, value = ''] of selector.matchAll(/\[\s*([\w-]+)\s*(?:=\s*["']?([^"'\]]*)["']?\s*)?\]/g)) {
+      if (!STATE_ATTRIBUTE.test(name)) continue;
+      const id = value ? `[${name}="${value}"]` : `[${name}]`;
+      add({ id, label: id.toUpperCase(), kind: 'attribute', attribute: { name, value } }, targetFor(selector, token));
+    }
+  }
+  // A state whose token only appears without a usable compound cannot be applied
+  return states.filter(s => s.kind === 'default' || s.kind === 'pseudo' || s.targets!.length > 0);
+};
+
+/**
+ * Builds a static, script-free document with one state forced on. Pseudo-classes
+ * are rewritten to an equally specific class that every element carries; class
+ * and attribute states are applied to the elements their selectors target.
+ */
+export const buildStateDocument = (html: string, state: ComponentState, head = '') => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script').forEach(s => s.remove());
+  doc.querySelectorAll('*').forEach(el => {
+    for (const attr of Array.from(el.attributes)) if (/^on/i.test(attr.name)) el.removeAttribute(attr.name);
+  });
+
+  if (state.kind === 'pseudo') {
+    const pseudo = state.id.slice(1);
+    doc.querySelectorAll('style').forEach(style => {
+      style.textContent = mapSelectors(style.textContent || '', prelude => prelude.replace(pseudoPattern(pseudo), `.${forceClass(pseudo)}`));
+    });
+    doc.body.querySelectorAll('*').forEach(el => el.classList.add(forceClass(pseudo)));
+  } else if (state.kind !== 'default') {
+    for (const target of state.targets || []) {
+      let matches: Element[] = [];
+      try { matches = Array.from(doc.body.querySelectorAll(target)); } catch { /* Selector unsupported outside a live document */ }
+      matches.forEach(el => state.className ? el.classList.add(state.className) : el.setAttribute(state.attribute!.name, state.attribute!.value));
+    }
+  }
+
+  return `${head}${FREEZE_STYLE}${Array.from(doc.head.children).map(el => el.outerHTML).join('')}${doc.body.innerHTML}`;
+};
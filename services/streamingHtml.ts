@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Partial previews re-render the whole frame, so they are pushed at most this often
+export const STREAM_PREVIEW_INTERVAL_MS = 250;
+
+const FENCE = '```';
+const HTML_FENCE_LANGS = ['', 'html', 'htm'];
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['style', 'script', 'textarea', 'title']);
+const TAG = /<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/y;
+
+// Only a chatty first line without markup counts as preamble; everything after it is kept
+const PREAMBLE_LINE = /^\s*(?:here is|here's|this is|okay|ok|sure|certainly)\b[^<\n]*(?:\n|$)/i;
+
+export const stripPreamble = (text: string) => text.replace(PREAMBLE_LINE, '');
+
+export interface StreamingHtmlParser {
+  push(chunk: string): void;
+  /** Code received so far. Before any fence, unfenced markup counts as code. */
+  code(): string;
+  /** Flushes the last line and returns the final code, as `extractCode` would. */
+  finish(): string;
+}
+
+/**
+ * Tracks code fences line by line as chunks arrive, so each chunk costs only
+ * its own length. The first html (or bare) fence is the code; other fences are
+ * kept as a fallback, and unfenced answers fall back to the text minus preamble.
+ */
+export const createStreamingHtmlParser = (): StreamingHtmlParser => {
+  let state: 'preamble' | 'code' | 'other' | 'closed' = 'preamble';
+  let tail = ''; // Incomplete last line; fences are only decided on whole lines
+  let preamble = '';
+  let code = '';
+  let hasCode = false;
+  let fallback: string | null = null; // First fence in another language
+
+  const consume = (line: string, newline: string) => {
+    const fence = line.indexOf(FENCE);
+    if (state === 'preamble') {
+      if (fence === -1) {
+        preamble += line + newline;
+        return;
+      }
+      preamble += line.slice(0, fence);
+      const rest = line.slice(fence + FENCE.length);
+      const lang = rest.match(/^[\w-]*/)![0];
+      state = HTML_FENCE_LANGS.includes(lang.toLowerCase()) ? 'code' : 'other';
+      if (state === 'code') hasCode = true;
+      else if (fallback === null) fallback = '';
+      const after = rest.slice(lang.length);
+      if (after.trim()) consume(after.trimStart(), newline);
+      return;
+    }
+    if (state === 'closed') return;
+    const text = fence === -1 ? line + newline : line.slice(0, fence);
+    if (state === 'code') code += text;
+    else if (fallback !== null && !hasCode) fallback += text;
+    if (fence !== -1) state = state === 'code' ? 'closed' : 'preamble';
+  };
+
+  return {
+    push(chunk) {
+      const lines = (tail + chunk).split('\n');
+      tail = lines.pop()!;
+      lines.forEach(line => consume(line, '\n'));
+    },
+    code() {
+      if (hasCode) {
+        // A tail starting with a backtick may be the closing fence; hold it back until the line completes
+        return state === 'code' && !tail.trimStart().startsWith('`') ? code + tail : code;
+      }
+      const raw = preamble + tail;
+      return state === 'preamble' && fallback === null && raw.includes('<') ? stripPreamble(raw) : '';
+    },
+    finish() {
+      consume(tail, '');
+      tail = '';
+      if (hasCode) return code.trim();
+      if (fallback !== null) return fallback.trim();
+      return stripPreamble(preamble).trim();
+    },
+  };
+};
+
+/**
+ * Turns partial markup into a document that renders without surprises: cuts a
+ * tag or comment still being written, leaves scripts out until the module is
+ * complete, and closes every element that is still open.
+ */
+export const repairPartialHtml = (partial: string): string => {
+  const open: string[] = [];
+  let out = '';
+  let i = 0;
+  while (i < partial.length) {
+    const lt = partial.indexOf('<', i);
+    if (lt === -1) {
+      out += partial.slice(i);
+      break;
+    }
+    out += partial.slice(i, lt);
+    if (partial.startsWith('<!', lt)) {
+      const end = partial.startsWith('<!--', lt) ? partial.indexOf('-->', lt + 4) : partial.indexOf('>', lt);
+      if (end === -1) break;
+      i = partial.startsWith('<!--', lt) ? end + 3 : end + 1;
+      out += partial.slice(lt, i);
+      continue;
+    }
+    TAG.lastIndex = lt;
+    const match = TAG.exec(partial);
+    if (!match) {
+      // A tag still being streamed; a stray "<" in text is kept
+      if (/^\/?(?:[a-zA-Z]|$)/.test(partial.slice(lt + 1, lt + 3))) break;
+      out += '<';
+      i = lt + 1;
+      continue;
+    }
+    const [tag, closing, rawName, attrs] = match;
+    const name = rawName.toLowerCase();
+    i = TAG.lastIndex;
+    if (closing) {
+      const at = open.lastIndexOf(name);
+      if (at !== -1) open.length = at;
+      out += tag;
+      continue;
+    }
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const closeAt = partial.toLowerCase().indexOf(`</${name}`, i);
+      const closeEnd = closeAt === -1 ? -1 : partial.indexOf('>', closeAt);
+      if (name === 'script') {
+        if (closeEnd === -1) break;
+        i = closeEnd + 1;
+        continue;
+      }
+      if (closeEnd === -1) {
+        // An unfinished stylesheet still applies; drop a closing tag cut off mid-name
+        out += tag + partial.slice(i).replace(/<\/?[\w-]*$/, '') + `</${name}>`;
+        i = partial.length;
+        break;
+      }
+      out += partial.slice(lt, closeEnd + 1);
+      i = closeEnd + 1;
+      continue;
+    }
+    out += tag;
+    if (!VOID_ELEMENTS.has(name) && !attrs.trimEnd().endsWith('/')) open.push(name);
+  }
+  return out + open.reverse().map(name => `</${name}>`).join('');
+};
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSession } from '../types';
+import { PREVIEW_CSP, PREVIEW_SANDBOX } from '../constants';
+import { escapeHtml, getExportableModules } from '../utils';
+import { tokensStyleTag } from './designTokens';
+import { detectStates, buildStateDocument } from './stateExplorer';
+import { buildCompositionDocument, compositionHead, resolvePlacements } from './composition';
+import { AUDIT_CATEGORIES } from './accessibilityAudit';
+import { sanitizeHtml } from './sanitizer';
+import { frameSizeAgentScript, frameSizeListenerScript } from './frameSizing';
+
+export const styleGuideFilename = (session: DesignSession) => `usui-spec-${session.styleTheme.toLowerCase().replace(/\s+/g, '-')}.html`;
+
+/**
+ * The exported single-file style guide: every completed module with its state
+ * matrix and source, the composed screens, and the accessibility summary. The
+ * session itself is embedded so the file can be imported again.
+ */
+export const buildStyleGuideHtml = (session: DesignSession): string => {
+  const previewHead = `${PREVIEW_CSP}<link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700;900&display=swap" rel="stylesheet">${tokensStyleTag(session.tokens)}<style>:root{color-scheme:dark;}body{margin:0;padding:2rem;display:flex;align-items:center;justify-content:center;min-height:calc(100vh - 4rem);background:transparent;font-family:'Inter',sans-serif;color:#fff;}*{box-sizing:border-box;max-width:100%;overflow-wrap:break-word;}</style>`;
+  const componentItems = getExportableModules(session).map(({ component: arch, variation: v }) => {
+    const anchorId = `comp-${v.id}`;
+    // Sessions from before sanitization (or imported ones) are cleaned here too
+    const html = sanitizeHtml(v.html).html;
+    const normalizedHtml = `<!DOCTYPE html><html><head>${previewHead}</head><body>${html}${frameSizeAgentScript()}</body></html>`;
+    const states = detectStates(html).map(state => ({ label: state.label, srcDoc: buildStateDocument(html, state, previewHead) }));
+
+    return {
+      id: anchorId,
+      name: arch?.name || 'Untitled',
+      description: arch?.description || '',
+      affordances: arch?.affordances || [],
+      html,
+      srcDoc: normalizedHtml,
+      states,
+      accessibility: v.accessibility
+    };
+  });
+
+  const screenItems = session.compositions
+    .filter(c => resolvePlacements(c, session).length)
+    .map(c => ({ id: `screen-${c.id}`, name: c.name, moduleCount: resolvePlacements(c, session).length, srcDoc: `${buildCompositionDocument(c, session, compositionHead(session.tokens))}${frameSizeAgentScript()}` }));
+
+  const auditRows = componentItems.map(c => {
+    const report = c.accessibility;
+    if (!report) return `<tr><td><a href="#${escapeHtml(c.id)}">${escapeHtml(c.name)}</a></td><td colspan="${AUDIT_CATEGORIES.length}" class="muted">NOT AUDITED</td></tr>`;
+    return `<tr><td><a href="#${escapeHtml(c.id)}">${escapeHtml(c.name)}</a></td>${AUDIT_CATEGORIES.map(cat => {
+      const findings = report.findings.filter(f => f.category === cat.id);
+      const errors = findings.filter(f => f.severity === 'error').length;
+      return `<td class="${errors ? 'fail' : findings.length ? 'warn' : 'pass'}">${findings.length ? `${errors}E / ${findings.length - errors}W` : 'OK'}</td>`;
+    }).join('')}</tr>`;
+  }).join('');
+
+  const auditDetails = componentItems.filter(c => c.accessibility?.findings.length).map(c => `
+        <details class="code-details audit-details">
+          <summary class="code-summary">${escapeHtml(c.name.toUpperCase())} // ${c.accessibility!.findings.length} FINDINGS [+]</summary>
+          <ul class="audit-list">${c.accessibility!.findings.map(f => `<li class="${f.severity}"><span class="label">${f.category} // ${f.severity}</span><code>${escapeHtml(f.element)}</code> ${escapeHtml(f.message)}</li>`).join('')}</ul>
+        </details>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>USUI SPEC // ${escapeHtml(session.styleTheme.toUpperCase())}</title>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700;900&family=JetBrains+Mono:wght@400;700&display=swap" rel="stylesheet">
+  <style>
+      :root { --bg: #000; --text: #fff; --border: #111; --accent: #fff; --font-sans: 'Inter', sans-serif; --font-mono: 'JetBrains Mono', monospace; }
+      * { box-sizing: border-box; margin: 0; padding: 0; }
+      html, body { background: var(--bg); color: var(--text); font-family: var(--font-sans); height: 100%; scroll-behavior: smooth; }
+      .layout { display: flex; min-height: 100vh; }
+      .sidebar { width: 300px; position: fixed; height: 100vh; border-right: 1px solid var(--border); background: #050505; padding: 40px; overflow-y: auto; z-index: 100; }
+      .main { flex: 1; margin-left: 300px; background: var(--bg); position: relative; }
+      .label { font-size: 0.6rem; color: #444; letter-spacing: 0.4em; text-transform: uppercase; margin-bottom: 8px; font-family: var(--font-mono); font-weight: 700; }
+      .sidebar-header h1 { font-size: 1.2rem; font-weight: 900; text-transform: uppercase; margin: 0 0 40px 0; border-bottom: 3px solid #fff; padding-bottom: 8px; }
+      .nav-list { list-style: none; }
+      .nav-list li { margin-bottom: 18px; }
+      .nav-list a { color: #555; text-decoration: none; font-size: 0.75rem; font-weight: 700; text-transform: uppercase; transition: 0.2s; display: block; }
+      .nav-list a:hover { color: #fff; }
+      .section-cover { min-height: 100vh; padding: 80px; display: flex; flex-direction: column; justify-content: center; border-bottom: 1px solid var(--border); }
+      .cover-title { font-size: 8vw; font-weight: 900; line-height: 0.8; margin-bottom: 40px; letter-spacing: -0.05em; text-transform: uppercase; }
+      .strategy { font-size: 1.8rem; font-weight: 300; line-height: 1.2; color: #888; margin-top: 20px; max-width: 800px; }
+      .component-section { padding: 100px 80px; border-bottom: 1px solid var(--border); }
+      .comp-header { margin-bottom: 40px; }
+      .comp-header h2 { font-size: 3rem; font-weight: 900; text-transform: uppercase; margin-bottom: 12px; }
+      .aff-chip { background: #0a0a0a; color: #666; font-size: 0.6rem; padding: 4px 12px; border-radius: 20px; text-transform: uppercase; font-weight: 700; border: 1px solid #222; margin-right: 8px; }
+      .comp-preview { border: 1px solid var(--border); background: #020202; margin-bottom: 40px; }
+      .preview-iframe { width: 100%; height: 500px; border: none; display: block; }
+      .preview-iframe.screen-iframe { height: 760px; }
+      
+      /* Collapsible Source Code Styles */
+      details.code-details { border: 1px solid var(--border); background: #050505; transition: border-color 0.2s; }
+      details.code-details[open] { border-color: #333; }
+      .state-details { margin-bottom: 12px; }
+      .state-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 1px; background: var(--border); }
+      .state-cell { background: #020202; }
+      .state-cell .label { padding: 12px 16px 0; }
+      .state-cell iframe { width: 100%; height: 220px; border: none; display: block; }
+      summary.code-summary { padding: 16px 24px; background: #0a0a0a; color: #333; font-size: 0.6rem; font-weight: 900; font-family: var(--font-mono); cursor: pointer; list-style: none; outline: none; user-select: none; border-bottom: 1px solid transparent; }
+      details.code-details[open] summary.code-summary { border-bottom-color: var(--border); color: #888; }
+      summary.code-summary::-webkit-details-marker { display: none; }
+      summary.code-summary:hover { color: #fff; }
+      pre { padding: 30px; color: #fff; font-family: var(--font-mono); font-size: 0.8rem; overflow-x: auto; white-space: pre-wrap; word-break: break-all; opacity: 0.8; }
+
+      /* Accessibility Audit */
+      .audit-table { width: 100%; border-collapse: collapse; margin-bottom: 40px; font-family: var(--font-mono); font-size: 0.7rem; }
+      .audit-table th, .audit-table td { border: 1px solid var(--border); padding: 12px 16px; text-align: left; }
+      .audit-table th { color: #444; font-size: 0.6rem; letter-spacing: 0.2em; }
+      .audit-table a { color: #fff; text-decoration: none; }
+      .audit-table .pass { color: #4ade80; } .audit-table .warn { color: #fbbf24; } .audit-table .fail { color: #ff4d4d; } .audit-table .muted { color: #444; }
+      .audit-details { margin-bottom: 12px; }
+      .audit-list { list-style: none; padding: 24px; display: flex; flex-direction: column; gap: 12px; font-size: 0.75rem; color: #888; }
+      .audit-list li.error { color: #ff9b9b; }
+      .audit-list code { font-family: var(--font-mono); color: #fff; margin-right: 6px; }
+
+      @media (max-width: 900px) { .sidebar { display: none; } .main { margin-left: 0; } }
+  </style>
+</head>
+<body>
+  <div class="layout">
+      <aside class="sidebar">
+          <div class="sidebar-header"><div class="label">ENGINEERING SPEC</div><h1>USUI STUDIO</h1></div>
+          <nav style="margin-top: 40px"><div class="label">NAVIGATION</div><ul class="nav-list"><li><a href="#cover">00 // OVERVIEW</a></li>${componentItems.map((c, i) => `<li><a href="#${escapeHtml(c.id)}">${String(i+1).padStart(2, '0')} // ${escapeHtml(c.name)}</a></li>`).join('')}${screenItems.map((c, i) => `<li><a href="#${escapeHtml(c.id)}">${String(componentItems.length + i + 1).padStart(2, '0')} // SCREEN: ${escapeHtml(c.name)}</a></li>`).join('')}<li><a href="#accessibility">${String(componentItems.length + screenItems.length + 1).padStart(2, '0')} // ACCESSIBILITY</a></li></ul></nav>
+      </aside>
+      <main class="main">
+          <section id="cover" class="section-cover"><div class="label">IDENTITY // SPEC_v1.5</div><h1 class="cover-title">${escapeHtml(session.styleTheme)}</h1><div class="strategy">${escapeHtml(session.designLanguage)}</div></section>
+          ${componentItems.map(c => `
+          <section id="${escapeHtml(c.id)}" class="component-section">
+              <div class="comp-header"><div class="label">MODULE_ID: ${escapeHtml(c.id.toUpperCase())}</div><h2>${escapeHtml(c.name)}</h2><p style="color:#666; margin-bottom:15px">${escapeHtml(c.description)}</p>
+              <div style="margin-top:10px">${c.affordances.map(a => `<span class="aff-chip">${escapeHtml(a)}</span>`).join('')}</div></div>
+              <div class="comp-preview"><iframe class="preview-iframe" data-autosize data-min-height="500" srcdoc="${escapeHtml(c.srcDoc)}" sandbox="${PREVIEW_SANDBOX}"></iframe></div>
+              <details class="code-details state-details">
+                  <summary class="code-summary">STATE MATRIX // ${c.states.length} STATES [+]</summary>
+                  <div class="state-grid">${c.states.map(st => `<div class="state-cell"><div class="label">${escapeHtml(st.label)}</div><iframe loading="lazy" srcdoc="${escapeHtml(st.srcDoc)}" sandbox=""></iframe></div>`).join('')}</div>
+              </details>
+              <details class="code-details">
+                  <summary class="code-summary">VIEW SOURCE CODE [+]</summary>
+                  <pre><code>${escapeHtml(c.html)}</code></pre>
+              </details>
+          </section>`).join('')}
+          ${screenItems.map(c => `
+          <section id="${escapeHtml(c.id)}" class="component-section">
+              <div class="comp-header"><div class="label">SCREEN // ${c.moduleCount} MODULES</div><h2>${escapeHtml(c.name)}</h2></div>
+              <div class="comp-preview"><iframe class="preview-iframe screen-iframe" loading="lazy" data-autosize data-min-height="760" srcdoc="${escapeHtml(c.srcDoc)}" sandbox="${PREVIEW_SANDBOX}"></iframe></div>
+          </section>`).join('')}
+          <section id="accessibility" class="component-section">
+              <div class="comp-header"><div class="label">AUDIT // RENDERED DOM</div><h2>Accessibility</h2><p style="color:#666">Contrast ratios, accessible names, focus order, ARIA usage and tap-target sizes, measured in focus mode.</p></div>
+              <table class="audit-table">
+                  <thead><tr><th>MODULE</th>${AUDIT_CATEGORIES.map(cat => `<th>${cat.label.toUpperCase()}</th>`).join('')}</tr></thead>
+                  <tbody>${auditRows}</tbody>
+              </table>
+              ${auditDetails}
+          </section>
+      </main>
+  </div>
+  ${frameSizeListenerScript()}
+  <script id="usui-session-data" type="application/json">${JSON.stringify(session).replace(/</g, '\\u003c')}</script>
+</body>
+</html>`;
+};
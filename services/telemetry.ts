@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CallErrorClass, CallMetric, CallStage, DesignSession } from '../types';
+import { generateId } from '../utils';
+import { ModelProvider, TokenUsage, UsageListener } from './modelProvider';
+import { isRateLimitError } from './generationQueue';
+
+// Oldest metrics are dropped beyond this, so long sessions stay small on disk
+export const MAX_SESSION_METRICS = 2000;
+
+export interface CallContext {
+  stage: CallStage;
+  model: string;
+  componentId?: string;
+  variationId?: string;
+  retries?: number;
+}
+
+export type MetricRecorder = (metric: CallMetric) => void;
+
+export interface MetricTotals {
+  calls: number;
+  errors: number;
+  cancelled: number;
+  retries: number; // Attempts that were retries of a rate-limited call
+  promptTokens: number;
+  responseTokens: number;
+  unmetered: number; // Calls the backend reported no usage for
+  durationMs: number;
+  avgTimeToFirstChunkMs: number | null;
+}
+
+export const classifyCallError = (error: unknown): CallErrorClass => {
+  if (isRateLimitError(error)) return 'rate-limit';
+  if (error instanceof SyntaxError) return 'parse';
+  const message = error instanceof Error ? `${error.name} ${error.message}` : String(error);
+  if (/\b40[13]\b|api key|unauthori[sz]ed|permission/i.test(message)) return 'auth';
+  if (/\b5\d\d\b|overloaded|unavailable/i.test(message)) return 'server';
+  if (/\b4\d\d\b/.test(message)) return 'request';
+  if (/failed to fetch|network|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|timed? ?out/i.test(message)) return 'network';
+  return 'other';
+};
+
+const createMeter = (provider: ModelProvider, { stage, model, componentId, variationId, retries = 0 }: CallContext, record: MetricRecorder) => {
+  const startedAt = Date.now();
+  let firstChunkAt: number | undefined;
+  let usage: TokenUsage = {};
+  return {
+    onUsage: (reported: TokenUsage) => { usage = reported; },
+    chunk: () => { firstChunkAt ??= Date.now(); },
+    finish: (outcome: CallMetric['outcome'], error?: unknown) => record({
+      id: generateId(),
+      stage,
+      provider: provider.kind,
+      model,
+      componentId,
+      variationId,
+      startedAt,
+      timeToFirstChunkMs: firstChunkAt === undefined ? undefined : firstChunkAt - startedAt,
+      durationMs: Date.now() - startedAt,
+      promptTokens: usage.promptTokens,
+      responseTokens: usage.responseTokens,
+      retries,
+      outcome,
+      errorClass: outcome === 'error' ? classifyCallError(error) : undefined,
+    }),
+  };
+};
+
+/** `streamText` that records one metric when the stream ends, fails or is cancelled. */
+export async function* meteredStream(provider: ModelProvider, context: CallContext, prompt: string, record: MetricRecorder, signal?: AbortSignal): AsyncGenerator<string> {
+  const meter = createMeter(provider, context, record);
+  try {
+    for await (const chunk of provider.streamText(context.model, prompt, signal, meter.onUsage)) {
+      if (chunk) meter.chunk();
+      yield chunk;
+    }
+  } catch (error) {
+    meter.finish(signal?.aborted ? 'cancelled' : 'error', error);
+    throw error;
+  }
+  meter.finish(signal?.aborted ? 'cancelled' : 'ok');
+}
+
+/** A one-shot call that records one metric when it settles. */
+export const meteredCall = async (provider: ModelProvider, context: CallContext, record: MetricRecorder, call: (onUsage: UsageListener) => Promise<string>): Promise<string> => {
+  const meter = createMeter(provider, context, record);
+  try {
+    const text = await call(meter.onUsage);
+    meter.finish('ok');
+    return text;
+  } catch (error) {
+    meter.finish('error', error);
+    throw error;
+  }
+};
+
+export const appendMetric = (session: DesignSession, metric: CallMetric): DesignSession =>
+  ({ ...session, telemetry: [...(session.telemetry || []), metric].slice(-MAX_SESSION_METRICS) });
+
+export const summarizeMetrics = (metrics: CallMetric[]): MetricTotals => {
+  const streamed = metrics.filter(m => m.timeToFirstChunkMs !== undefined);
+  return {
+    calls: metrics.length,
+    errors: metrics.filter(m => m.outcome === 'error').length,
+    cancelled: metrics.filter(m => m.outcome === 'cancelled').length,
+    retries: metrics.filter(m => m.retries > 0).length,
+    promptTokens: metrics.reduce((sum, m) => sum + (m.promptTokens || 0), 0),
+    responseTokens: metrics.reduce((sum, m) => sum + (m.responseTokens || 0), 0),
+    unmetered: metrics.filter(m => m.promptTokens === undefined && m.responseTokens === undefined).length,
+    durationMs: metrics.reduce((sum, m) => sum + m.durationMs, 0),
+    avgTimeToFirstChunkMs: streamed.length ? Math.round(streamed.reduce((sum, m) => sum + m.timeToFirstChunkMs!, 0) / streamed.length) : null,
+  };
+};
+
+const moduleLabel = (session: DesignSession, componentId?: string) =>
+  componentId ? session.architecture.find(a => a.id === componentId)?.name || `Removed module (${componentId})` : 'Session';
+
+/** Totals per module in plan order; calls not tied to a module are grouped under "Session". */
+export const summarizeByModule = (session: DesignSession): { label: string, totals: MetricTotals }[] => {
+  const metrics = session.telemetry || [];
+  const ids = [...new Set(metrics.map(m => m.componentId || ''))];
+  const order = (id: string) => id ? (session.architecture.findIndex(a => a.id === id) + 1 || Infinity) : 0;
+  return ids
+    .sort((a, b) => order(a) - order(b))
+    .map(id => ({ label: moduleLabel(session, id || undefined), totals: summarizeMetrics(metrics.filter(m => (m.componentId || '') === id)) }));
+};
+
+export const summarizeByStage = (metrics: CallMetric[]): { stage: CallStage, totals: MetricTotals }[] =>
+  [...new Set(metrics.map(m => m.stage))].map(stage => ({ stage, totals: summarizeMetrics(metrics.filter(m => m.stage === stage)) }));
+
+const CSV_COLUMNS = ['startedAt', 'stage', 'module', 'provider', 'model', 'variationId', 'timeToFirstChunkMs', 'durationMs', 'promptTokens', 'responseTokens', 'retries', 'outcome', 'errorClass'] as const;
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const metricsToCsv = (session: DesignSession): string => {
+  const rows = (session.telemetry || []).map(m => {
+    const row = { ...m, startedAt: new Date(m.startedAt).toISOString(), module: moduleLabel(session, m.componentId) };
+    return CSV_COLUMNS.map(col => csvCell(row[col])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const metricsToJson = (session: DesignSession): string => JSON.stringify({
+  sessionId: session.id,
+  theme: session.styleTheme,
+  exportedAt: new Date().toISOString(),
+  totals: summarizeMetrics(session.telemetry || []),
+  modules: summarizeByModule(session),
+  calls: session.telemetry || [],
+}, null, 2);
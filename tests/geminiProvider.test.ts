@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { TokenUsage } from '../services/modelProvider';
+
+const RESPONSE = { candidates: [{ content: { parts: [{ text: 'ok' }], role: 'model' } }], usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 1 } };
+
+// Answers like the Generative Language API and records what the SDK sent
+const serveGemini = () => mock.method(globalThis, 'fetch', async (url: string) => url.includes(':streamGenerateContent')
+  ? new Response(`data: ${JSON.stringify(RESPONSE)}\r\n\r\n`, { headers: { 'content-type': 'text/event-stream' } })
+  : new Response(JSON.stringify(RESPONSE), { headers: { 'content-type': 'application/json' } }));
+
+const requests = (fetch: ReturnType<typeof serveGemini>) => fetch.mock.calls.map(call => {
+  const [url, init] = call.arguments as [string, RequestInit];
+  return { method: url.replace(/\?.*$/, '').split('/').pop(), body: JSON.parse(String(init.body)), signal: init.signal };
+});
+
+afterEach(() => mock.restoreAll());
+
+test('streams text and usage through the SDK and hands it the abort signal', async () => {
+  const fetch = serveGemini();
+  const controller = new AbortController();
+  const usage: TokenUsage[] = [];
+  let text = '';
+  for await (const chunk of createGeminiProvider('key').streamText('gemini-x', 'hi', controller.signal, u => usage.push(u))) text += chunk;
+  assert.equal(text, 'ok');
+  assert.deepEqual(usage, [{ promptTokens: 3, responseTokens: 1 }]);
+  const [request] = requests(fetch);
+  assert.equal(request.method, 'gemini-x:streamGenerateContent');
+  assert.deepEqual(request.body.contents, [{ parts: [{ text: 'hi' }], role: 'user' }]);
+  assert.ok(request.signal, 'the request is cancellable');
+});
+
+test('asks for JSON and sends images as inline data', async () => {
+  const fetch = serveGemini();
+  const provider = createGeminiProvider('key');
+  assert.equal(await provider.completeJson('gemini-x', 'plan'), 'ok');
+  assert.equal(await provider.describeImages('gemini-x', 'describe', [{ data: 'AAAA', mimeType: 'image/png' }]), 'ok');
+  const [json, vision] = requests(fetch);
+  assert.equal(json.method, 'gemini-x:generateContent');
+  assert.equal(json.body.generationConfig.responseMimeType, 'application/json');
+  assert.deepEqual(vision.body.contents[0].parts, [{ inlineData: { data: 'AAAA', mimeType: 'image/png' } }, { text: 'describe' }]);
+});
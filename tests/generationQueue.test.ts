@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGenerationQueue, GenerationQueueOptions, isRateLimitError, QueueOutcome } from '../services/generationQueue';
+import { sleep } from '../utils';
+
+// A task the test finishes by hand; every run is recorded with the signal and attempt it got
+const fakeTask = () => {
+  const runs: { signal: AbortSignal, attempt: number, resolve: () => void, reject: (error: unknown) => void }[] = [];
+  const run = (signal: AbortSignal, attempt: number) => new Promise<void>((resolve, reject) => {
+    runs.push({ signal, attempt, resolve, reject });
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+  return { runs, run };
+};
+
+const createQueue = (options: Partial<GenerationQueueOptions> = {}) => {
+  const settled: [string, QueueOutcome][] = [];
+  const queue = createGenerationQueue({ concurrency: 2, baseBackoffMs: 20, maxBackoffMs: 40, onSettled: (id, outcome) => settled.push([id, outcome]), ...options });
+  return { queue, settled };
+};
+
+const states = (queue: ReturnType<typeof createQueue>['queue']) => queue.getSnapshot().jobs.map(j => `${j.id}:${j.state}`);
+
+// Lets settled task promises run their queue bookkeeping
+const flush = () => sleep(0);
+
+afterEach(() => mock.restoreAll());
+
+test('runs at most `concurrency` jobs and starts the next as one settles', async () => {
+  const { queue, settled } = createQueue();
+  const tasks = ['a', 'b', 'c'].map(id => ({ id, task: fakeTask() }));
+  tasks.forEach(({ id, task }) => queue.enqueue(id, task.run));
+  assert.deepEqual(states(queue), ['a:running', 'b:running', 'c:queued']);
+
+  tasks[1].task.runs[0].resolve();
+  await flush();
+  assert.deepEqual(states(queue), ['a:running', 'c:running']);
+  assert.deepEqual(settled, [['b', 'done']]);
+
+  queue.setConcurrency(1);
+  tasks[0].task.runs[0].resolve();
+  tasks[2].task.runs[0].reject(new Error('500 broken'));
+  await flush();
+  assert.deepEqual(settled, [['b', 'done'], ['a', 'done'], ['c', 'failed']]);
+  assert.deepEqual(states(queue), []);
+});
+
+test('ignores a job that is already queued under the same id', () => {
+  const { queue } = createQueue();
+  const first = fakeTask();
+  const second = fakeTask();
+  queue.enqueue('a', first.run);
+  queue.enqueue('a', second.run);
+  assert.equal(first.runs.length, 1);
+  assert.equal(second.runs.length, 0);
+});
+
+test('backs the whole queue off on a rate limit and retries the failed job first', async () => {
+  const { queue, settled } = createQueue({ concurrency: 1 });
+  const limited = fakeTask();
+  const next = fakeTask();
+  queue.enqueue('limited', limited.run);
+  queue.enqueue('next', next.run);
+
+  limited.runs[0].reject(new Error('429 Too Many Requests'));
+  await flush();
+  assert.ok(queue.getSnapshot().backoffUntil > Date.now());
+  assert.deepEqual(states(queue), ['limited:retrying', 'next:queued']);
+  assert.equal(next.runs.length, 0, 'nothing starts during the backoff');
+
+  await sleep(50);
+  assert.equal(queue.getSnapshot().backoffUntil, 0);
+  assert.deepEqual(states(queue), ['limited:running', 'next:queued']);
+  assert.equal(limited.runs[1].attempt, 1);
+
+  limited.runs[1].resolve();
+  await flush();
+  assert.deepEqual(settled, [['limited', 'done']]);
+  assert.equal(next.runs.length, 1);
+  next.runs[0].resolve();
+});
+
+test('gives up on a rate-limited job after maxRetries', async () => {
+  const { queue, settled } = createQueue({ maxRetries: 1, baseBackoffMs: 1, maxBackoffMs: 1 });
+  const task = fakeTask();
+  queue.enqueue('a', task.run);
+  task.runs[0].reject(new Error('RESOURCE_EXHAUSTED'));
+  await sleep(10);
+  task.runs[1].reject(new Error('RESOURCE_EXHAUSTED'));
+  await flush();
+  assert.equal(task.runs.length, 2);
+  assert.deepEqual(settled, [['a', 'failed']]);
+});
+
+test('jitters the backoff between half and all of the capped exponential step', async () => {
+  for (const [random, attempt, expected] of [[0, 0, 10], [1, 0, 20], [0, 1, 20], [0.99, 3, 39.8]] as const) {
+    mock.method(Math, 'random', () => random);
+    const { queue } = createQueue({ concurrency: 1, maxRetries: 5 });
+    const task = fakeTask();
+    queue.enqueue('a', task.run);
+    for (let i = 0; i < attempt; i++) {
+      task.runs[i].reject(new Error('429'));
+      // Waits out each earlier backoff, which is at most 40ms here
+      await sleep(45);
+    }
+    const before = Date.now();
+    task.runs[attempt].reject(new Error('429'));
+    await flush();
+    const delay = queue.getSnapshot().backoffUntil - before;
+    assert.ok(Math.abs(delay - expected) <= 2, `attempt ${attempt} with random ${random}: ${delay}ms`);
+    queue.cancel('a');
+    mock.restoreAll();
+  }
+});
+
+test('cancelling aborts a running job and drops a queued one', async () => {
+  const { queue, settled } = createQueue({ concurrency: 1 });
+  const running = fakeTask();
+  const queued = fakeTask();
+  queue.enqueue('running', running.run);
+  queue.enqueue('queued', queued.run);
+
+  queue.cancel('queued');
+  assert.deepEqual(settled, [['queued', 'cancelled']]);
+  queue.cancel('running');
+  assert.equal(running.runs[0].signal.aborted, true);
+  await flush();
+  assert.deepEqual(settled, [['queued', 'cancelled'], ['running', 'cancelled']]);
+  assert.equal(queued.runs.length, 0);
+});
+
+test('a job that finishes after being aborted still counts as cancelled', async () => {
+  const { queue, settled } = createQueue();
+  queue.enqueue('a', async () => { await sleep(5); });
+  queue.cancel('a');
+  await sleep(10);
+  assert.deepEqual(settled, [['a', 'cancelled']]);
+});
+
+test('pausing lets running jobs finish but starts nothing until resumed', async () => {
+  const { queue } = createQueue({ concurrency: 1 });
+  const first = fakeTask();
+  const second = fakeTask();
+  queue.enqueue('first', first.run);
+  queue.enqueue('second', second.run);
+  queue.pause();
+  first.runs[0].resolve();
+  await flush();
+  assert.equal(queue.getSnapshot().paused, true);
+  assert.deepEqual(states(queue), ['second:queued']);
+  queue.resume();
+  assert.deepEqual(states(queue), ['second:running']);
+  second.runs[0].resolve();
+});
+
+test('prioritizing moves a queued job to the front', () => {
+  const { queue } = createQueue({ concurrency: 1 });
+  queue.pause();
+  ['a', 'b', 'c'].forEach(id => queue.enqueue(id, fakeTask().run));
+  queue.prioritize('c');
+  assert.deepEqual(states(queue), ['c:queued', 'a:queued', 'b:queued']);
+  queue.resume();
+  assert.deepEqual(states(queue), ['c:running', 'a:queued', 'b:queued']);
+  queue.cancel('c');
+  ['a', 'b'].forEach(id => queue.cancel(id));
+});
+
+test('recognises rate limits by status code or gRPC status', () => {
+  assert.equal(isRateLimitError(new Error('429 Too Many Requests')), true);
+  assert.equal(isRateLimitError('RESOURCE_EXHAUSTED: quota'), true);
+  assert.equal(isRateLimitError(new Error('500 Internal')), false);
+});
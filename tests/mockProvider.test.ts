@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider } from '../services/mockProvider';
+import { TokenUsage } from '../services/modelProvider';
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+test('streams the same module for the same prompt and a different one otherwise', async () => {
+  const provider = createMockProvider({}, 0);
+  const first = await collect(provider.streamText('mock', 'Generate for: "Signal Meter"'));
+  const again = await collect(createMockProvider({}, 0).streamText('mock', 'Generate for: "Signal Meter"'));
+  const other = await collect(provider.streamText('mock', 'Generate for: "Signal Meter" in red'));
+  assert.deepEqual(first, again);
+  assert.notEqual(first.join(''), other.join(''));
+  assert.ok(first.join('').includes('SIGNAL METER'));
+  assert.ok(first.slice(0, -1).every(chunk => chunk.length === 64), 'fixed-size chunks');
+});
+
+test('reports estimated usage once a call finishes', async () => {
+  const usage: TokenUsage[] = [];
+  const provider = createMockProvider({ text: () => 'x'.repeat(100), json: () => '{}' }, 0);
+  await collect(provider.streamText('mock', 'abcdefgh', undefined, u => usage.push(u)));
+  await provider.completeJson('mock', 'abcd', u => usage.push(u));
+  assert.deepEqual(usage, [{ promptTokens: 2, responseTokens: 25 }, { promptTokens: 1, responseTokens: 1 }]);
+});
+
+test('stops streaming with the abort reason', async () => {
+  const controller = new AbortController();
+  const chunks: string[] = [];
+  await assert.rejects(async () => {
+    for await (const chunk of createMockProvider({ text: () => 'x'.repeat(200) }, 0).streamText('mock', 'p', controller.signal)) {
+      chunks.push(chunk);
+      controller.abort(new Error('cancelled'));
+    }
+  }, /cancelled/);
+  assert.equal(chunks.length, 1);
+});
+
+test('answers token and architecture requests with parseable fixtures', async () => {
+  const provider = createMockProvider({}, 0);
+  const tokens = JSON.parse(await provider.completeJson('mock', 'Extract design tokens'));
+  assert.equal(tokens.colors.primary, JSON.parse(await provider.completeJson('mock', 'Extract design tokens')).colors.primary);
+  assert.ok(Array.isArray(JSON.parse(await provider.completeJson('mock', 'Plan the modules'))));
+  assert.equal(typeof JSON.parse(await provider.describeImages('mock', 'Analyse', [])).theme, 'string');
+});
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComponentVariation, DesignComponent, DesignSession } from '../types';
+import {
+  fingerprintDependencies, getDependencyImplementations, getStaleDependencies, getUnsettledDependencies,
+  orderByDependencies, sanitizeDependencies, wouldCreateCycle,
+} from '../services/moduleDependencies';
+import { buildVariationPrompt } from '../services/prompts';
+import { duplicatePromptProfile, STANDARD_PROMPT_PROFILE } from '../services/promptProfiles';
+
+const mod = (id: string, dependsOn?: string[]): DesignComponent => ({ id, name: id.toUpperCase(), description: '', affordances: [], dependsOn });
+
+const variation = (componentId: string, status: ComponentVariation['status'], html = `<p>${componentId}</p>`): ComponentVariation =>
+  ({ id: `v-${componentId}`, componentId, styleName: 'Raw', html, prompt: '', status });
+
+const session = (architecture: DesignComponent[], variations: ComponentVariation[]): DesignSession => ({
+  id: 's', schemaVersion: 1, styleTheme: 'Raw', designLanguage: 'Concrete', stage: 'generating', timestamp: 0, architecture, variations, compositions: [],
+});
+
+test('orders dependencies first and otherwise keeps plan order', () => {
+  const plan = [mod('page', ['card', 'btn']), mod('card', ['btn']), mod('toast'), mod('btn')];
+  assert.deepEqual(orderByDependencies(plan).map(m => m.id), ['btn', 'card', 'page', 'toast']);
+});
+
+test('falls back to plan order for a cycle instead of looping', () => {
+  assert.deepEqual(orderByDependencies([mod('a', ['b']), mod('b', ['a'])]).map(m => m.id), ['b', 'a']);
+});
+
+test('detects direct and transitive cycles', () => {
+  const plan = [mod('a', ['b']), mod('b', ['c']), mod('c')];
+  assert.equal(wouldCreateCycle(plan, 'c', 'a'), true);
+  assert.equal(wouldCreateCycle(plan, 'c', 'c'), true);
+  assert.equal(wouldCreateCycle(plan, 'a', 'c'), false);
+});
+
+test('sanitizing drops missing, self, repeated and cycle-closing dependencies', () => {
+  const { architecture, dropped } = sanitizeDependencies([mod('a', ['b', 'b', 'a', 'zz']), mod('b', ['a']), mod('c')]);
+  assert.deepEqual(architecture.map(m => m.dependsOn), [['b'], [], undefined]);
+  assert.equal(dropped.length, 3);
+});
+
+test('a module waits for generating dependencies but not for failed ones', () => {
+  const plan = [mod('card', ['btn', 'icon']), mod('btn'), mod('icon')];
+  const waiting = session(plan, [variation('card', 'pending'), variation('btn', 'streaming'), variation('icon', 'error')]);
+  assert.deepEqual(getUnsettledDependencies(waiting, plan[0]).map(m => m.id), ['btn']);
+  const settled = session(plan, [variation('card', 'pending'), variation('btn', 'complete'), variation('icon', 'cancelled')]);
+  assert.deepEqual(getUnsettledDependencies(settled, plan[0]), []);
+  assert.deepEqual(getDependencyImplementations(settled, plan[0]).map(d => d.component.id), ['btn']);
+});
+
+test('modules on a cycle never wait on each other', () => {
+  const plan = [mod('a', ['b']), mod('b', ['a'])];
+  const s = session(plan, [variation('a', 'pending'), variation('b', 'pending')]);
+  assert.deepEqual(getUnsettledDependencies(s, plan[0]), []);
+  assert.deepEqual(getUnsettledDependencies(s, plan[1]), []);
+});
+
+test('flags a dependent stale once its dependency code changes', () => {
+  const plan = [mod('card', ['btn']), mod('btn')];
+  const before = session(plan, [variation('btn', 'complete')]);
+  const card = { ...variation('card', 'complete'), dependencyFingerprints: fingerprintDependencies(before, plan[0]) };
+  assert.deepEqual(getStaleDependencies({ ...before, variations: [...before.variations, card] }, card), []);
+  const regenerating = session(plan, [variation('btn', 'streaming', '<p>new'), card]);
+  assert.deepEqual(getStaleDependencies(regenerating, card), [], 'judged only once the dependency completes');
+  const after = session(plan, [variation('btn', 'complete', '<p>new</p>'), card]);
+  assert.deepEqual(getStaleDependencies(after, card).map(m => m.id), ['btn']);
+});
+
+test('flags a dependent stale once a dependency that had no code completes', () => {
+  const plan = [mod('card', ['btn', 'icon']), mod('btn'), mod('icon')];
+  const failed = session(plan, [variation('btn', 'error', ''), variation('icon', 'complete')]);
+  const card = { ...variation('card', 'complete'), dependencyFingerprints: fingerprintDependencies(failed, plan[0]) };
+  assert.deepEqual(Object.keys(card.dependencyFingerprints ?? {}), ['btn', 'icon']);
+  assert.deepEqual(getStaleDependencies({ ...failed, variations: [...failed.variations, card] }, card), []);
+  const recovered = session(plan, [variation('btn', 'complete'), variation('icon', 'complete'), card]);
+  assert.deepEqual(getStaleDependencies(recovered, card).map(m => m.id), ['btn']);
+  assert.equal(fingerprintDependencies(recovered, plan[1]), undefined, 'modules without dependencies record nothing');
+});
+
+test('dependency code reaches the prompt even when the profile has no slot for it', () => {
+  const plan = [mod('card', ['btn']), mod('btn')];
+  const s = session(plan, [variation('btn', 'complete', '<button class="btn">Go</button>')]);
+  const dependencies = getDependencyImplementations(s, plan[0]);
+  const legacy = { ...duplicatePromptProfile(STANDARD_PROMPT_PROFILE), templates: { ...STANDARD_PROMPT_PROFILE.templates, module: 'Build "{{component.name}}".' } };
+  for (const profile of [STANDARD_PROMPT_PROFILE, legacy]) {
+    const prompt = buildVariationPrompt(s, plan[0], { dependencies }, profile);
+    assert.equal(prompt.split('REUSE:').length, 2, `${profile.name} sends the dependency block once`);
+    assert.ok(prompt.includes('<button class="btn">Go</button>'));
+  }
+  assert.ok(!buildVariationPrompt(s, plan[0], {}, legacy).includes('REUSE:'));
+});
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOpenAiProvider, parseEvent } from '../services/openAiProvider';
+import { TokenUsage } from '../services/modelProvider';
+
+// Serves `chunks` as the response body, split exactly where the test splits them
+const serveStream = (chunks: (string | Uint8Array)[]) => mock.method(globalThis, 'fetch', async () => new Response(new ReadableStream({
+  start(controller) {
+    for (const chunk of chunks) controller.enqueue(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+    controller.close();
+  },
+})));
+
+const collect = async (stream: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+afterEach(() => mock.restoreAll());
+
+test('parses data events and ignores everything else', () => {
+  mock.method(console, 'warn', () => {});
+  assert.deepEqual(parseEvent('data: {"choices":[{"delta":{"content":"hi"}}]}'), { choices: [{ delta: { content: 'hi' } }] });
+  assert.deepEqual(parseEvent('data:{"usage":{"prompt_tokens":3}}'), { usage: { prompt_tokens: 3 } });
+  for (const line of [': keep-alive', 'event: ping', 'data: [DONE]', 'data:', '', 'data: {"choices": [']) {
+    assert.equal(parseEvent(line), null, line);
+  }
+});
+
+test('reassembles events and characters split across network chunks', async () => {
+  const body = new TextEncoder().encode(`${delta('café ')}${delta('<p>')}data: [DONE]\n\n`);
+  // Split inside the two-byte é and inside the second event
+  const inChar = body.indexOf(0xc3) + 1;
+  serveStream([body.slice(0, inChar), body.slice(inChar, inChar + 30), body.slice(inChar + 30)]);
+  assert.equal(await collect(createOpenAiProvider('http://local/v1', '').streamText('m', 'prompt')), 'café <p>');
+});
+
+test('flushes a final event that has no trailing newline and reports usage', async () => {
+  serveStream([delta('a'), 'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":5}}']);
+  const usage: TokenUsage[] = [];
+  const text = await collect(createOpenAiProvider('http://local/v1', '').streamText('m', 'prompt', undefined, u => usage.push(u)));
+  assert.equal(text, 'a');
+  assert.deepEqual(usage, [{ promptTokens: 12, responseTokens: 5 }]);
+});
+
+test('skips malformed events and fails on error events with their status code', async () => {
+  mock.method(console, 'warn', () => {});
+  serveStream([delta('a'), 'data: {oops\n\n', delta('b'), 'data: {"error":{"code":429,"message":"slow down"}}\n\n', delta('c')]);
+  const seen: string[] = [];
+  await assert.rejects(async () => {
+    for await (const chunk of createOpenAiProvider('http://local/v1', '').streamText('m', 'prompt')) seen.push(chunk);
+  }, /^Error: 429 slow down$/);
+  assert.deepEqual(seen, ['a', 'b']);
+});
+
+test('refuses to call the server without a model name', async () => {
+  const fetch = serveStream([]);
+  await assert.rejects(collect(createOpenAiProvider('http://local/v1', '').streamText(' ', 'prompt')), /No model name/);
+  assert.equal(fetch.mock.callCount(), 0);
+});
+
+test('posts to the chat endpoint and sends the key only when one is set', async () => {
+  const fetch = serveStream([delta('x')]);
+  await collect(createOpenAiProvider('http://local/v1/', 'secret').streamText('m', 'prompt'));
+  await collect(createOpenAiProvider('http://local/v1', '').streamText('m', 'prompt'));
+  const [[url, init], [, anonymous]] = fetch.mock.calls.map(call => call.arguments as [string, RequestInit]);
+  assert.equal(url, 'http://local/v1/chat/completions');
+  assert.equal((init.headers as Record<string, string>).Authorization, 'Bearer secret');
+  assert.equal((anonymous.headers as Record<string, string>).Authorization, undefined);
+});
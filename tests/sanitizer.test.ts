@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import { sanitizeHtml } from '../services/sanitizer';
+
+// The sanitizer parses with the browser's DOMParser
+before(() => {
+  globalThis.DOMParser = new JSDOM('').window.DOMParser;
+});
+
+test('returns clean markup untouched', () => {
+  const html = '<style>.a{color:red}</style><div class="a" onclick="this.hidden = true">ok</div>';
+  const { html: out, report } = sanitizeHtml(html);
+  assert.equal(out, html);
+  assert.deepEqual(report.findings, []);
+});
+
+test('removes remote scripts, embedded documents and javascript: URLs', () => {
+  const { html, report } = sanitizeHtml('<script src="https://cdn.example/x.js"></script><iframe src="https://example.com"></iframe><a href="javascript:alert(1)">go</a><p>kept</p>');
+  assert.equal(html, '<a>go</a><p>kept</p>');
+  assert.deepEqual(report.findings.map(f => [f.category, f.action]), [['network', 'removed'], ['network', 'removed'], ['navigation', 'removed']]);
+});
+
+test('flags what the preview blocks at runtime without removing it', () => {
+  const html = '<img src="https://example.com/a.png"><script>localStorage.setItem("k", "v"); fetch("/x");</script>';
+  const { html: out, report } = sanitizeHtml(html);
+  assert.equal(out, html);
+  assert.deepEqual(report.findings.map(f => [f.category, f.action]).sort(), [['network', 'flagged'], ['network', 'flagged'], ['storage', 'flagged']]);
+});
+
+test('keeps the doctype and the html and body attributes of full documents', () => {
+  const { html } = sanitizeHtml('<!DOCTYPE html><html lang="en"><head><style>.dark{}</style></head><body class="dark" data-theme="x"><iframe src="https://x"></iframe><p>hi</p></body></html>');
+  assert.equal(html, '<!DOCTYPE html>\n<html lang="en"><head><style>.dark{}</style></head><body class="dark" data-theme="x"><p>hi</p></body></html>');
+});
+
+test('allows the stylesheet host the preview policy permits', () => {
+  const html = '<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter"><link rel="stylesheet" href="https://evil.example/a.css"><p>x</p>';
+  const { html: out, report } = sanitizeHtml(html);
+  assert.ok(out.includes('fonts.googleapis.com') && !out.includes('evil.example'));
+  assert.equal(report.findings.length, 1);
+});
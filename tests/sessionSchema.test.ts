@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SESSION_SCHEMA_VERSION } from '../constants';
+import { parseArchitecture, parseSession, SessionSchemaError } from '../services/sessionSchema';
+
+const variation = (id: string, componentId: string, extra: Record<string, unknown> = {}) =>
+  ({ id, componentId, styleName: 'Raw', html: '<p>ok</p>', prompt: '', status: 'complete', ...extra });
+
+// A file exported before persistence: no schemaVersion, stage or compositions
+const legacySession = (extra: Record<string, unknown> = {}) => ({
+  id: 's1',
+  styleTheme: 'Raw',
+  designLanguage: 'Concrete',
+  timestamp: 1,
+  architecture: [{ id: 'btn', name: 'Button', description: '', affordances: [] }],
+  variations: [variation('v1', 'btn')],
+  ...extra,
+});
+
+test('migrates an unversioned file through every step to the current version', () => {
+  const { session, repairs } = parseSession(legacySession());
+  assert.equal(session.schemaVersion, SESSION_SCHEMA_VERSION);
+  assert.equal(session.stage, 'generating');
+  assert.deepEqual(session.compositions, []);
+  assert.deepEqual(repairs, []);
+});
+
+test('rejects files from a newer app version', () => {
+  assert.throws(() => parseSession({ ...legacySession(), schemaVersion: SESSION_SCHEMA_VERSION + 1 }), SessionSchemaError);
+});
+
+test('reports every invalid field with its JSON path', () => {
+  try {
+    parseSession(legacySession({ styleTheme: 3, variations: [variation('v1', 'btn', { status: 'done' })] }));
+    assert.fail('expected a schema error');
+  } catch (e) {
+    assert.ok(e instanceof SessionSchemaError);
+    assert.deepEqual(e.issues.map(i => i.path), ['$.styleTheme', '$.variations[0].status']);
+  }
+});
+
+test('restores the latest revision of a variation interrupted mid-stream', () => {
+  const revisions = [
+    { id: 'r1', html: '<p>first</p>', notes: '', affordances: [], timestamp: 1 },
+    { id: 'r2', html: '<p>second</p>', notes: 'tighter', affordances: [], timestamp: 2 },
+  ];
+  const { session } = parseSession(legacySession({ variations: [variation('v1', 'btn', { status: 'streaming', html: '<p>part', revisions })] }));
+  assert.equal(session.variations[0].status, 'complete');
+  assert.equal(session.variations[0].html, '<p>second</p>');
+  assert.equal(session.variations[0].notes, 'tighter');
+});
+
+test('queues a first generation interrupted mid-stream again', () => {
+  const { session, repairs } = parseSession(legacySession({ variations: [variation('v1', 'btn', { status: 'streaming', html: '<p>part' })] }));
+  assert.equal(session.variations[0].status, 'pending');
+  assert.equal(session.variations[0].html, '');
+  assert.equal(repairs.length, 1);
+});
+
+test('drops orphaned variations, dangling canonical ids and unusable dependencies', () => {
+  const { session, repairs } = parseSession(legacySession({
+    architecture: [
+      { id: 'btn', name: 'Button', description: '', affordances: [], canonicalVariationId: 'gone', dependsOn: ['card'] },
+      { id: 'card', name: 'Card', description: '', affordances: [], dependsOn: ['btn', 'missing'] },
+    ],
+    variations: [variation('v1', 'btn'), variation('v2', 'nowhere')],
+  }));
+  assert.deepEqual(session.variations.map(v => v.id), ['v1']);
+  assert.equal(session.architecture[0].canonicalVariationId, undefined);
+  assert.deepEqual(session.architecture.map(a => a.dependsOn), [['card'], []]);
+  assert.equal(repairs.length, 4);
+});
+
+test('reads model architectures leniently, filling ids from names and skipping bad modules', () => {
+  const { modules, issues } = parseArchitecture('```json\n{"modules": [{"name": "Signal Meter"}, {"name": 4}]}\n```');
+  assert.deepEqual(modules.map(m => [m.id, m.affordances]), [['signal-meter', []]]);
+  assert.deepEqual(issues.map(i => i.path), ['$[1].id', '$[1].name']);
+});
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createStreamingHtmlParser, repairPartialHtml } from '../services/streamingHtml';
+import { extractCode } from '../services/prompts';
+
+const feed = (chunks: string[]) => {
+  const parser = createStreamingHtmlParser();
+  const seen = chunks.map(chunk => {
+    parser.push(chunk);
+    return parser.code();
+  });
+  return { seen, final: parser.finish() };
+};
+
+test('tracks the html fence across chunk boundaries', () => {
+  const response = 'Here is the module:\n```html\n<div class="a">\n  <p>hi</p>\n</div>\n```\nHope it helps.';
+  const { seen, final } = feed(response.match(/.{1,7}/gs)!);
+  assert.equal(final, '<div class="a">\n  <p>hi</p>\n</div>');
+  assert.equal(final, extractCode(response));
+  assert.ok(seen.every(code => !code.includes('```')), 'a closing fence never leaks into the partial code');
+});
+
+test('prefers the html fence over an earlier fence in another language', () => {
+  assert.equal(extractCode('```css\n.a{}\n```\n```html\n<p>x</p>\n```'), '<p>x</p>');
+  assert.equal(extractCode('```jsx\n<p>x</p>\n```'), '<p>x</p>');
+});
+
+test('keeps unfenced markup and drops only a chatty first line', () => {
+  assert.equal(extractCode('Sure, here you go\n<p>x</p>'), '<p>x</p>');
+  assert.equal(extractCode('<p>Here is the value</p>'), '<p>Here is the value</p>');
+  assert.equal(feed(['Okay!\n<p>par']).seen[0], '<p>par');
+});
+
+test('closes open elements and cuts a tag still being written', () => {
+  assert.equal(repairPartialHtml('<div><ul><li>one</li><li>tw'), '<div><ul><li>one</li><li>tw</li></ul></div>');
+  assert.equal(repairPartialHtml('<div><p>text</p><butt'), '<div><p>text</p></div>');
+  assert.equal(repairPartialHtml('<div><!-- note'), '<div></div>');
+  assert.equal(repairPartialHtml('<p>a < b</p><img src="x.png"><br/>'), '<p>a < b</p><img src="x.png"><br/>');
+});
+
+test('leaves unfinished scripts out and keeps an unfinished stylesheet', () => {
+  assert.equal(repairPartialHtml('<div>a</div><script>let x = 1'), '<div>a</div>');
+  assert.equal(repairPartialHtml('<div>a</div><script>run()</script><p>b'), '<div>a</div><p>b</p>');
+  assert.equal(repairPartialHtml('<style>.a{color:red}</sty'), '<style>.a{color:red}</style>');
+});
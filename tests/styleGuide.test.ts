@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import { DesignSession } from '../types';
+import { buildStyleGuideHtml } from '../services/styleGuide';
+
+const HOSTILE = '<img src=x onerror=alert(1)> & "quoted"';
+
+const session: DesignSession = {
+  id: 's', schemaVersion: 1, styleTheme: HOSTILE, designLanguage: HOSTILE, stage: 'generating', timestamp: 0, compositions: [],
+  architecture: [{ id: 'btn', name: HOSTILE, description: HOSTILE, affordances: [HOSTILE] }],
+  variations: [{ id: 'v1', componentId: 'btn', styleName: 'Raw', html: '<p title="a &amp; b">Fish &lt;&amp;&gt; chips</p>', prompt: '', status: 'complete' }],
+};
+
+// Module states and the sanitizer parse with the browser's DOMParser
+before(() => {
+  globalThis.DOMParser = new JSDOM('').window.DOMParser;
+});
+
+test('writes model and user text into the spec as text, never as markup', () => {
+  const { document } = new JSDOM(buildStyleGuideHtml(session)).window;
+  assert.equal(document.querySelectorAll('img').length, 0);
+  assert.equal(document.title, `USUI SPEC // ${HOSTILE.toUpperCase()}`);
+  assert.equal(document.querySelector('.cover-title')?.textContent, HOSTILE);
+  assert.equal(document.querySelector('.strategy')?.textContent, HOSTILE);
+  assert.equal(document.querySelector('.component-section h2')?.textContent, HOSTILE);
+  assert.equal(document.querySelector('.aff-chip')?.textContent, HOSTILE);
+  assert.ok(document.querySelector('.nav-list')?.textContent?.includes(HOSTILE));
+});
+
+test('keeps entities in module code intact through the srcdoc attribute', () => {
+  const { document } = new JSDOM(buildStyleGuideHtml(session)).window;
+  const srcdoc = document.querySelector('.preview-iframe')?.getAttribute('srcdoc') ?? '';
+  assert.ok(srcdoc.includes('<p title="a &amp; b">Fish &lt;&amp;&gt; chips</p>'));
+  assert.equal(document.querySelector('pre code')?.textContent, session.variations[0].html);
+});
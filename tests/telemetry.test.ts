@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallMetric, DesignSession } from '../types';
+import {
+  appendMetric, classifyCallError, MAX_SESSION_METRICS, meteredCall, meteredStream, metricsToCsv, metricsToJson,
+  summarizeByModule, summarizeByStage, summarizeMetrics,
+} from '../services/telemetry';
+import { createMockProvider } from '../services/mockProvider';
+
+let nextId = 0;
+const metric = (extra: Partial<CallMetric> = {}): CallMetric => ({
+  id: `m${nextId++}`, stage: 'module', provider: 'mock', model: 'mock', startedAt: 0, durationMs: 100, retries: 0, outcome: 'ok', ...extra,
+});
+
+const session = (telemetry: CallMetric[]): DesignSession => ({
+  id: 's', schemaVersion: 1, styleTheme: 'Raw', designLanguage: 'Concrete', stage: 'generating', timestamp: 0, variations: [], compositions: [], telemetry,
+  architecture: [
+    { id: 'btn', name: 'Button', description: '', affordances: [] },
+    { id: 'card', name: 'Card, "large"', description: '', affordances: [] },
+  ],
+});
+
+test('classifies call errors by status code and message', () => {
+  const cases: [unknown, string][] = [
+    [new Error('429 Too Many Requests'), 'rate-limit'],
+    [new Error('RESOURCE_EXHAUSTED'), 'rate-limit'],
+    [new SyntaxError('Unexpected token'), 'parse'],
+    [new Error('401 Unauthorized'), 'auth'],
+    [new Error('API key not valid'), 'auth'],
+    [new Error('503 Service Unavailable'), 'server'],
+    [new Error('The model is overloaded'), 'server'],
+    [new Error('400 Bad Request'), 'request'],
+    [new TypeError('Failed to fetch'), 'network'],
+    ['connect ECONNREFUSED 127.0.0.1:11434', 'network'],
+    [new Error('something odd'), 'other'],
+  ];
+  for (const [error, expected] of cases) assert.equal(classifyCallError(error), expected, String(error));
+});
+
+test('sums tokens, retries and outcomes, counting calls without usage as unmetered', () => {
+  const totals = summarizeMetrics([
+    metric({ promptTokens: 10, responseTokens: 40, timeToFirstChunkMs: 100 }),
+    metric({ promptTokens: 5, retries: 2, timeToFirstChunkMs: 301 }),
+    metric({ outcome: 'error', errorClass: 'server', durationMs: 50 }),
+    metric({ outcome: 'cancelled', durationMs: 50 }),
+  ]);
+  assert.deepEqual(totals, {
+    calls: 4, errors: 1, cancelled: 1, retries: 1, promptTokens: 15, responseTokens: 40, unmetered: 2, durationMs: 300, avgTimeToFirstChunkMs: 201,
+  });
+  assert.equal(summarizeMetrics([]).avgTimeToFirstChunkMs, null);
+});
+
+test('groups totals by module in plan order and by stage', () => {
+  const s = session([
+    metric({ componentId: 'card' }),
+    metric({ stage: 'architecture' }),
+    metric({ componentId: 'gone' }),
+    metric({ componentId: 'btn', stage: 'refine' }),
+    metric({ componentId: 'card' }),
+  ]);
+  assert.deepEqual(summarizeByModule(s).map(m => [m.label, m.totals.calls]), [['Session', 1], ['Button', 1], ['Card, "large"', 2], ['Removed module (gone)', 1]]);
+  assert.deepEqual(summarizeByStage(s.telemetry!).map(m => [m.stage, m.totals.calls]), [['module', 3], ['architecture', 1], ['refine', 1]]);
+});
+
+test('exports CSV with quoted cells and blanks for missing token counts', () => {
+  const csv = metricsToCsv(session([
+    metric({ componentId: 'card', model: 'org/model,v2', promptTokens: 7 }),
+    metric({ stage: 'vision', outcome: 'error', errorClass: 'network', model: 'line\nbreak' }),
+  ]));
+  const [header, first, second] = csv.split(/\n(?=\d{4}-)/);
+  assert.equal(header.split(',')[0], 'startedAt');
+  assert.equal(first, '1970-01-01T00:00:00.000Z,module,"Card, ""large""",mock,"org/model,v2",,,100,7,,0,ok,');
+  assert.equal(second, '1970-01-01T00:00:00.000Z,vision,Session,mock,"line\nbreak",,,100,,,0,error,network');
+});
+
+test('exports JSON with totals, per-module summaries and every call', () => {
+  const calls = [metric({ componentId: 'btn', promptTokens: 3 }), metric()];
+  const json = JSON.parse(metricsToJson(session(calls)));
+  assert.equal(json.sessionId, 's');
+  assert.equal(json.totals.promptTokens, 3);
+  assert.deepEqual(json.modules.map((m: { label: string }) => m.label), ['Session', 'Button']);
+  assert.deepEqual(json.calls, calls);
+});
+
+test('keeps only the newest MAX_SESSION_METRICS calls', () => {
+  let s = session(Array.from({ length: MAX_SESSION_METRICS }, (_, i) => metric({ id: `old-${i}` })));
+  s = appendMetric(s, metric({ id: 'newest' }));
+  assert.equal(s.telemetry!.length, MAX_SESSION_METRICS);
+  assert.equal(s.telemetry![0].id, 'old-1');
+  assert.equal(s.telemetry!.at(-1)!.id, 'newest');
+});
+
+test('meters a streamed call once, including failures and cancellation', async () => {
+  const recorded: CallMetric[] = [];
+  const provider = createMockProvider({ text: () => 'x'.repeat(130) }, 0);
+  for await (const chunk of meteredStream(provider, { stage: 'module', model: 'mock', componentId: 'btn', retries: 1 }, 'abcd', m => recorded.push(m))) void chunk;
+
+  const controller = new AbortController();
+  await assert.rejects(async () => {
+    for await (const chunk of meteredStream(provider, { stage: 'module', model: 'mock' }, 'p', m => recorded.push(m), controller.signal)) {
+      void chunk;
+      controller.abort(new Error('cancelled'));
+    }
+  });
+  await assert.rejects(meteredCall(provider, { stage: 'architecture', model: 'mock' }, m => recorded.push(m), async () => { throw new Error('500 boom'); }));
+
+  assert.deepEqual(recorded.map(m => [m.stage, m.outcome, m.errorClass, m.retries]), [['module', 'ok', undefined, 1], ['module', 'cancelled', undefined, 0], ['architecture', 'error', 'server', 0]]);
+  assert.deepEqual([recorded[0].promptTokens, recorded[0].responseTokens, recorded[0].componentId], [1, 33, 'btn']);
+  assert.equal(typeof recorded[0].timeToFirstChunkMs, 'number');
+});
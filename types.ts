@@ -11,6 +11,64 @@ export interface DesignComponent {
   description: string;
   affordances: string[]; // New: Specific interaction/visual requirements
   baseHtml?: string;
+  canonicalVariationId?: string; // Variation exported for this module; defaults to the first
+  dependsOn?: string[]; // Ids of modules this one embeds; their canonical code is reused in its prompt
+}
+
+export interface VariationRevision {
+  id: string;
+  html: string;
+  notes?: string;
+  affordances: string[];
+  timestamp: number;
+  origin?: RevisionOrigin; // Absent on revisions recorded before manual editing existed
+}
+
+export type RevisionOrigin = 'model' | 'manual';
+
+export interface VerificationCheck {
+  id: string;
+  label: string;
+  affordance?: string; // The affordance this check verifies; unset for global rules
+  passed: boolean;
+  detail: string;
+}
+
+export interface VerificationReport {
+  checkedAt: number;
+  passed: boolean;
+  checks: VerificationCheck[];
+}
+
+export type AuditCategory = 'contrast' | 'name' | 'focus-order' | 'aria' | 'tap-target';
+
+export interface AuditFinding {
+  category: AuditCategory;
+  severity: 'error' | 'warning';
+  element: string; // Short selector-like description of the offending element
+  message: string;
+}
+
+export interface AccessibilityReport {
+  auditedAt: number;
+  viewport: { width: number; height: number };
+  findings: AuditFinding[];
+  truncated: boolean; // Some categories hit the per-category finding cap
+  focusOrder: string[];
+}
+
+export type SecurityCategory = 'network' | 'navigation' | 'storage';
+
+export interface SecurityFinding {
+  category: SecurityCategory;
+  action: 'removed' | 'flagged'; // Flagged code stays in the source and is blocked by the preview sandbox at runtime
+  element: string;
+  message: string;
+}
+
+export interface SecurityReport {
+  checkedAt: number;
+  findings: SecurityFinding[];
 }
 
 export interface ComponentVariation {
@@ -19,15 +77,129 @@ export interface ComponentVariation {
   styleName: string;
   html: string;
   prompt: string;
-  status: 'pending' | 'streaming' | 'complete' | 'error';
+  status: 'pending' | 'streaming' | 'complete' | 'error' | 'cancelled';
   notes?: string;
+  divergenceHint?: string; // Direction for an alternative variation of the same module
+  revisions?: VariationRevision[]; // Oldest first; the last entry is the latest generation
+  verification?: VerificationReport; // Affordance contract checks against the current html
+  accessibility?: AccessibilityReport; // Last audit of the rendered html in focus mode
+  security?: SecurityReport; // What sanitization removed from or flagged in the current html
+  snapshots?: VariationSnapshot[]; // Oldest first, capped; rendered when revisions complete
+  promptProfile?: PromptProfileRef; // Profile version the recorded prompt was resolved from
+  dependencyFingerprints?: Record<string, number>; // Dependency module id -> hash of the code this was generated against, 0 if it had none
+}
+
+export type PromptTemplateKind = 'module' | 'architecture';
+
+export interface PromptProfileVersion {
+  version: number;
+  templates: Record<PromptTemplateKind, string>;
+  savedAt: number;
+}
+
+export interface PromptProfile extends PromptProfileVersion {
+  id: string;
+  name: string;
+  builtIn?: boolean; // Shipped with the app; duplicate to edit
+  history: PromptProfileVersion[]; // Earlier versions, oldest first
+}
+
+export interface PromptProfileRef {
+  id: string;
+  version: number;
+}
+
+export interface VariationSnapshot {
+  id: string;
+  revisionId?: string; // Revision whose html was rendered; absent for manual captures of unrecorded html
+  image: string; // PNG data URL
+  width: number;
+  height: number;
+  capturedAt: number;
+}
+
+
+export type TokenGroup = 'colors' | 'fonts' | 'typeScale' | 'spacing' | 'radii' | 'shadows' | 'motion';
+
+// Each group maps a token name (e.g. "primary") to a raw CSS value
+export type DesignTokens = Record<TokenGroup, Record<string, string>>;
+
+// Sessions start in planning; generation only runs once the architecture is confirmed
+export type SessionStage = 'planning' | 'generating';
+
+export type CompositionSlot = 'header' | 'aside' | 'main' | 'footer' | 'overlay';
+
+export interface CompositionPlacement {
+  id: string;
+  slot: CompositionSlot;
+  variationId: string;
+}
+
+export interface Composition {
+  id: string;
+  name: string;
+  placements: CompositionPlacement[]; // Ordered within each slot
+  layoutHtml?: string; // Model-written glue page with one placeholder per placement; the slot template is used when absent
+  timestamp: number;
+}
+
+export interface MoodboardImage {
+  id: string;
+  name: string;
+  dataUrl: string; // Downscaled copy; its mime type matches `mimeType`
+  mimeType: string;
+  palette: string[]; // Quantized hex colors, most common first; empty when sampled outside a browser
+}
+
+export interface MoodboardAnalysis {
+  theme: string;
+  strategy: string;
+  typography: string[];
+  texture: string[];
+  mood: string[];
+}
+
+export interface Moodboard {
+  images: MoodboardImage[];
+  palette: string[]; // Merged across images, most common first
+  analysis?: MoodboardAnalysis; // Missing when the model answer could not be read as JSON
+}
+
+export type CallStage = 'vision' | 'tokens' | 'architecture' | 'suggest' | 'module' | 'refine' | 'layout';
+
+export type CallErrorClass = 'rate-limit' | 'auth' | 'request' | 'server' | 'network' | 'parse' | 'other';
+
+export interface CallMetric {
+  id: string;
+  stage: CallStage;
+  provider: string;
+  model: string;
+  componentId?: string; // Module the call generated or refined
+  variationId?: string;
+  startedAt: number;
+  timeToFirstChunkMs?: number; // Streaming calls only
+  durationMs: number;
+  promptTokens?: number; // Missing when the backend reports no usage
+  responseTokens?: number;
+  retries: number; // Rate-limit retries that preceded this attempt
+  outcome: 'ok' | 'error' | 'cancelled';
+  errorClass?: CallErrorClass;
 }
 
 export interface DesignSession {
   id: string;
+  schemaVersion: number; // Bumped whenever the persisted shape changes
+
+  name?: string; // Library label; the theme is shown when unset. Never sent to the model
   styleTheme: string;
   designLanguage: string;
+  tokens?: DesignTokens; // Shared constraints injected into every module
+  stage: SessionStage;
   timestamp: number;
   architecture: DesignComponent[];
   variations: ComponentVariation[];
+  compositions: Composition[]; // Screens assembled from the session's modules
+  moodboard?: Moodboard; // Reference images the session was seeded from
+  promptProfileId?: string; // Prompt profile used for this session's prompts; the default profile when unset or missing
+  telemetry?: CallMetric[]; // One entry per model call, oldest first
 }
@@ -4,6 +4,103 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import { ComponentVariation, DesignComponent, DesignSession } from './types';
+
 export const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
 
+// FNV-1a: stable across runs, cheap enough to fingerprint whole modules.
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
 export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Models sometimes wrap JSON in markdown fences even when asked not to.
+export const stripJsonFences = (raw: string): string => {
+  const match = raw.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  return (match ? match[1] : raw).trim();
+};
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+// Line-level LCS diff. Sources are small enough that O(n*m) is fine.
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { out.push({ type: 'same', text: a[i] }); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) out.push({ type: 'remove', text: a[i++] });
+    else out.push({ type: 'add', text: b[j++] });
+  }
+  while (i < a.length) out.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) out.push({ type: 'add', text: b[j++] });
+  return out;
+};
+
+export const getModuleVariations = (session: DesignSession, componentId: string): ComponentVariation[] =>
+  session.variations.filter(v => v.componentId === componentId);
+
+// The canonical variation is the one shown in the grid and exported.
+export const getCanonicalVariation = (session: DesignSession, component: DesignComponent): ComponentVariation | undefined => {
+  const variations = getModuleVariations(session, component.id);
+  return variations.find(v => v.id === component.canonicalVariationId) || variations[0];
+};
+
+// Completed canonical variation of each module, in architecture order
+export const getExportableModules = (session: DesignSession): { component: DesignComponent, variation: ComponentVariation }[] =>
+  session.architecture
+    .map(component => ({ component, variation: getCanonicalVariation(session, component) }))
+    .filter((m): m is { component: DesignComponent, variation: ComponentVariation } => m.variation?.status === 'complete');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const slugify = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Renames incoming module ids that collide with existing ones (or each other). */
+export const withUniqueIds = (existing: DesignComponent[], incoming: DesignComponent[]): DesignComponent[] => {
+  const taken = new Set(existing.map(c => c.id));
+  return incoming.map(c => {
+    const id = taken.has(c.id) ? `${c.id}-${generateId().slice(-4)}` : c.id;
+    taken.add(id);
+    return id === c.id ? c : { ...c, id };
+  });
+};
+
+/** Copy of a session under new session and variation ids, so queue jobs and variation lookups never reach the original. */
+export const withFreshSessionIds = (session: DesignSession): DesignSession => {
+  const idMap = new Map(session.variations.map(v => [v.id, generateId()]));
+  return {
+    ...session,
+    id: generateId(),
+    architecture: session.architecture.map(a => a.canonicalVariationId ? { ...a, canonicalVariationId: idMap.get(a.canonicalVariationId) } : a),
+    variations: session.variations.map(v => ({ ...v, id: idMap.get(v.id)! })),
+    compositions: session.compositions.map(c => ({ ...c, placements: c.placements.map(p => ({ ...p, variationId: idMap.get(p.variationId) ?? p.variationId })) })),
+    telemetry: session.telemetry?.map(m => m.variationId ? { ...m, variationId: idMap.get(m.variationId) ?? m.variationId } : m),
+  };
+};
@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.USUI_PROVIDER': JSON.stringify(env.USUI_PROVIDER),
+        'process.env.USUI_OPENAI_BASE_URL': JSON.stringify(env.USUI_OPENAI_BASE_URL),
+        'process.env.USUI_OPENAI_API_KEY': JSON.stringify(env.USUI_OPENAI_API_KEY),
+        'process.env.USUI_MODEL_VISION': JSON.stringify(env.USUI_MODEL_VISION),
+        'process.env.USUI_MODEL_ARCHITECTURE': JSON.stringify(env.USUI_MODEL_ARCHITECTURE),
+        'process.env.USUI_MODEL_MODULE': JSON.stringify(env.USUI_MODEL_MODULE)
       },
       resolve: {
         alias: {